@@ -1,13 +1,12 @@
-export const DEFAULT_VOICE_ID = "echo";
-export const SPEED_MIN = 0.25;
-export const SPEED_MAX = 4.0;
-export const SPEED_STEP = 0.25;
-export const SPEED_DEFAULT = 1.0;
+import { getTtsProvider } from "./_tts/providers.js";
 
-export const CURATED_VOICES = [
-  { id: "echo", label: "Echo", lang: "English", gender: "M", grade: "A" },
-  { id: "alloy", label: "Alloy", lang: "English", gender: "N", grade: "A" },
-  { id: "fable", label: "Fable", lang: "English", gender: "M", grade: "A" },
-  { id: "onyx", label: "Onyx", lang: "English", gender: "M", grade: "A" },
-  { id: "shimmer", label: "Shimmer", lang: "English", gender: "F", grade: "A" },
-];
+// Voices and speed limits come from the active TTS provider (TTS_PROVIDER)
+const provider = getTtsProvider();
+
+export const DEFAULT_VOICE_ID = provider.defaultVoiceId;
+export const SPEED_MIN = provider.speed.min;
+export const SPEED_MAX = provider.speed.max;
+export const SPEED_STEP = provider.speed.step;
+export const SPEED_DEFAULT = provider.speed.default;
+
+export const CURATED_VOICES = provider.voices;
@@ -0,0 +1,173 @@
+// Token-bucket rate limiting for the API routes, per client IP and per
+// access code, plus a lockout against access-code guessing: wrong codes on
+// /api/verify-code (or any gated route) lock the IP out for a while.
+//
+// Each route has its own buckets (RATE_LIMITS). A bucket holds up to
+// `capacity` requests and refills at `perMinute`; a request that finds it
+// empty gets 429 with Retry-After. RATE_LIMIT=OFF turns limiting off.
+//
+// Store shape (async, so a shared store such as Redis can do it atomically):
+//   take(key, { capacity, perMinute }, cost) → { allowed, remaining, retryAfterMs }
+//                   cost 0 only looks: allowed while at least one token is left
+//   reset(key)      forget the bucket (it starts full again)
+// The in-memory store only sees one warm instance, which is enough to blunt
+// bursts; point createRateLimiter at a shared store for hard limits.
+
+import crypto from "node:crypto";
+
+export const RATE_LIMITS = {
+  // Prefetch asks for a session's lines in a quick burst
+  tts: { ip: { capacity: 120, perMinute: 120 }, code: { capacity: 300, perMinute: 300 } },
+  event: { ip: { capacity: 60, perMinute: 60 }, code: { capacity: 600, perMinute: 600 } },
+  feedback: { ip: { capacity: 5, perMinute: 5 }, code: { capacity: 20, perMinute: 20 } },
+  "verify-code": { ip: { capacity: 10, perMinute: 10 } },
+};
+
+// Five wrong codes lock the IP out; one more guess every 3 minutes after that
+export const ACCESS_CODE_LOCKOUT = { capacity: 5, perMinute: 1 / 3 };
+
+const MEMORY_STORE_MAX_KEYS = 10_000;
+
+export function createMemoryRateLimitStore(options = {}) {
+  const now = options.now ?? (() => Date.now());
+  const maxKeys = options.maxKeys ?? MEMORY_STORE_MAX_KEYS;
+  const buckets = new Map();
+
+  // Drop buckets that have refilled completely; they'd start full anyway
+  function prune(at) {
+    for (const [key, bucket] of buckets) {
+      if (bucket.tokens + ((at - bucket.updatedAt) / 60_000) * bucket.perMinute >= bucket.capacity) buckets.delete(key);
+    }
+    while (buckets.size >= maxKeys) buckets.delete(buckets.keys().next().value);
+  }
+
+  return {
+    async take(key, limit, cost = 1) {
+      const at = now();
+      const { capacity, perMinute } = limit;
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        if (buckets.size >= maxKeys) prune(at);
+        bucket = { tokens: capacity, updatedAt: at, capacity, perMinute };
+        buckets.set(key, bucket);
+      }
+      bucket.tokens = Math.min(capacity, bucket.tokens + ((at - bucket.updatedAt) / 60_000) * perMinute);
+      bucket.updatedAt = at;
+
+      const needed = Math.max(cost, 1);
+      if (bucket.tokens >= needed) {
+        bucket.tokens -= cost;
+        return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+      }
+      const retryAfterMs = Math.ceil(((needed - bucket.tokens) / perMinute) * 60_000);
+      return { allowed: false, remaining: 0, retryAfterMs };
+    },
+
+    async reset(key) {
+      buckets.delete(key);
+    },
+  };
+}
+
+// Forwarded headers are only as good as the proxy that sets them: anyone can
+// send an x-forwarded-for of their choosing. On Vercel the edge sets
+// x-vercel-forwarded-for itself. Behind a proxy of your own, TRUST_PROXY=ON
+// takes the last x-forwarded-for entry, the one that proxy appended.
+// Otherwise the socket's address is the client.
+export function clientIp(req) {
+  const header = (name) => String(req.headers[name] || "").split(",").map((ip) => ip.trim()).filter(Boolean);
+  if (process.env.VERCEL) {
+    const [vercel] = header("x-vercel-forwarded-for");
+    if (vercel) return vercel;
+  }
+  if (process.env.TRUST_PROXY === "ON") {
+    const forwarded = header("x-forwarded-for").at(-1);
+    if (forwarded) return forwarded;
+  }
+  return req.socket?.remoteAddress || "unknown";
+}
+
+// Access codes never end up in the store as they are
+export function accessCodeKey(code) {
+  return crypto.createHash("sha256").update(code).digest("hex").slice(0, 16);
+}
+
+export function createRateLimiter(options = {}) {
+  const store = options.store ?? createMemoryRateLimitStore({ now: options.now });
+  const limits = options.limits ?? RATE_LIMITS;
+  const lockout = options.lockout ?? ACCESS_CODE_LOCKOUT;
+  const lockoutKey = (req) => `lockout:${clientIp(req)}`;
+
+  return {
+    // Takes `cost` requests from the route's IP bucket and, when the request
+    // carries an access code, from that code's bucket too
+    async check(route, req, cost = 1) {
+      const routeLimits = limits[route];
+      if (!routeLimits) return { allowed: true, retryAfterMs: 0 };
+      const byIp = await store.take(`${route}:ip:${clientIp(req)}`, routeLimits.ip, cost);
+      if (!byIp.allowed) return byIp;
+      const code = req.headers["x-access-code"];
+      if (!routeLimits.code || !code) return byIp;
+      return store.take(`${route}:code:${accessCodeKey(String(code))}`, routeLimits.code, cost);
+    },
+
+    async lockedOut(req) {
+      const state = await store.take(lockoutKey(req), lockout, 0);
+      return state.allowed ? null : state;
+    },
+
+    async recordFailure(req) {
+      await store.take(lockoutKey(req), lockout, 1);
+    },
+
+    async recordSuccess(req) {
+      await store.reset(lockoutKey(req));
+    },
+  };
+}
+
+let shared = null;
+
+// The limiter the routes share, created once per warm instance
+export function getRateLimiter() {
+  if (!shared) shared = createRateLimiter();
+  return shared;
+}
+
+export function sendTooManyRequests(res, retryAfterMs) {
+  const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  res.setHeader("Retry-After", String(seconds));
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(429).json({ error: "Too many requests", retryAfterSeconds: seconds });
+}
+
+// Answers 429 and returns false when the request is over the route's limit.
+// `cost` is how many requests this one counts as (a batch counts each line).
+export async function enforceRateLimit(route, req, res, { cost = 1, limiter = getRateLimiter() } = {}) {
+  if (process.env.RATE_LIMIT === "OFF") return true;
+  const result = await limiter.check(route, req, cost);
+  if (result.allowed) return true;
+  console.log(JSON.stringify({ event: "rate_limited", route, retryAfterMs: result.retryAfterMs, ts: Date.now() }));
+  sendTooManyRequests(res, result.retryAfterMs);
+  return false;
+}
+
+// The access-code comparison under the lockout: a locked-out IP gets 429
+// (even with the right code) and a wrong code counts towards the lockout.
+// Returns true when the code matches; otherwise reject() or the 429 has
+// answered the request.
+export async function checkAccessCode(req, res, accessCode, reject, limiter = getRateLimiter()) {
+  const limitOn = process.env.RATE_LIMIT !== "OFF";
+  const locked = limitOn ? await limiter.lockedOut(req) : null;
+  if (locked) {
+    sendTooManyRequests(res, locked.retryAfterMs);
+    return false;
+  }
+  if ((req.headers["x-access-code"] || "") !== accessCode) {
+    if (limitOn) await limiter.recordFailure(req);
+    reject();
+    return false;
+  }
+  if (limitOn) await limiter.recordSuccess(req);
+  return true;
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { clientIp, createMemoryRateLimitStore, createRateLimiter, enforceRateLimit } from "./_rateLimit.js";
+import verifyCode from "./verify-code.js";
+
+function mockRes() {
+  const res = { statusCode: 200, headers: {}, body: undefined };
+  res.setHeader = (name, value) => {
+    res.headers[name.toLowerCase()] = value;
+  };
+  res.status = (code) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body) => {
+    res.body = body;
+    return res;
+  };
+  res.end = () => res;
+  return res;
+}
+
+const request = (ip, code) => ({
+  method: "POST",
+  headers: code ? { "x-access-code": code } : {},
+  socket: { remoteAddress: ip },
+});
+
+describe("rate limiting", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("refills token buckets over time", async () => {
+    let t = 0;
+    const store = createMemoryRateLimitStore({ now: () => t });
+    const limit = { capacity: 2, perMinute: 6 };
+    expect((await store.take("k", limit)).allowed).toBe(true);
+    expect((await store.take("k", limit)).allowed).toBe(true);
+    const limited = await store.take("k", limit);
+    expect(limited).toEqual({ allowed: false, remaining: 0, retryAfterMs: 10_000 });
+    t = 10_000;
+    expect((await store.take("k", limit)).allowed).toBe(true);
+  });
+
+  it("limits per IP and per access code, separately for each route", async () => {
+    const limiter = createRateLimiter({
+      limits: { tts: { ip: { capacity: 2, perMinute: 2 }, code: { capacity: 3, perMinute: 3 } } },
+      now: () => 0,
+    });
+    expect(clientIp(request("1.1.1.1"))).toBe("1.1.1.1");
+
+    expect((await limiter.check("tts", request("1.1.1.1", "abc"))).allowed).toBe(true);
+    expect((await limiter.check("tts", request("1.1.1.1", "abc"))).allowed).toBe(true);
+    expect((await limiter.check("tts", request("1.1.1.1", "abc"))).allowed).toBe(false);
+    // Another IP with the same code: the code's bucket still has one left
+    expect((await limiter.check("tts", request("2.2.2.2", "abc"))).allowed).toBe(true);
+    expect((await limiter.check("tts", request("3.3.3.3", "abc"))).allowed).toBe(false);
+    expect((await limiter.check("tts", request("3.3.3.3"))).allowed).toBe(true);
+    // A batch counts each of its lines
+    expect((await limiter.check("tts", request("5.5.5.5"), 2)).allowed).toBe(true);
+    expect((await limiter.check("tts", request("5.5.5.5"), 1)).allowed).toBe(false);
+    expect((await limiter.check("tts", request("6.6.6.6"), 3)).allowed).toBe(false);
+    // Routes without limits pass
+    expect((await limiter.check("health", request("1.1.1.1"))).allowed).toBe(true);
+  });
+
+  it("only trusts forwarded headers from a known proxy", () => {
+    const spoofed = {
+      headers: { "x-forwarded-for": "6.6.6.6, 10.0.0.1", "x-vercel-forwarded-for": "7.7.7.7" },
+      socket: { remoteAddress: "10.0.0.2" },
+    };
+    expect(clientIp(spoofed)).toBe("10.0.0.2");
+    vi.stubEnv("TRUST_PROXY", "ON");
+    expect(clientIp(spoofed)).toBe("10.0.0.1");
+    vi.stubEnv("VERCEL", "1");
+    expect(clientIp(spoofed)).toBe("7.7.7.7");
+  });
+
+  it("answers 429 with Retry-After", async () => {
+    const limiter = createRateLimiter({ limits: { event: { ip: { capacity: 1, perMinute: 1 } } }, now: () => 0 });
+    expect(await enforceRateLimit("event", request("4.4.4.4"), mockRes(), { limiter })).toBe(true);
+    const res = mockRes();
+    expect(await enforceRateLimit("event", request("4.4.4.4"), res, { limiter })).toBe(false);
+    expect(res.statusCode).toBe(429);
+    expect(res.headers["retry-after"]).toBe("60");
+
+    vi.stubEnv("RATE_LIMIT", "OFF");
+    expect(await enforceRateLimit("event", request("4.4.4.4"), mockRes(), { limiter })).toBe(true);
+  });
+
+  it("locks out access-code guessing on verify-code", async () => {
+    vi.stubEnv("ACCESS_CODE", "right");
+    vi.stubEnv("ACCESS_CODE_GATE", "ON");
+    const statuses = [];
+    for (let i = 0; i < 5; i++) {
+      const res = mockRes();
+      await verifyCode(request("5.5.5.5", `guess-${i}`), res);
+      statuses.push(res.statusCode);
+    }
+    expect(statuses).toEqual([401, 401, 401, 401, 401]);
+
+    // Locked out: even the right code waits
+    const locked = mockRes();
+    await verifyCode(request("5.5.5.5", "right"), locked);
+    expect(locked.statusCode).toBe(429);
+    expect(Number(locked.headers["retry-after"])).toBeGreaterThan(0);
+
+    const elsewhere = mockRes();
+    await verifyCode(request("6.6.6.6", "right"), elsewhere);
+    expect(elsewhere.statusCode).toBe(200);
+  });
+});
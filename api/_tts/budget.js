@@ -0,0 +1,260 @@
+// Daily character budgets for /api/tts, so a bug or an abusive client can't
+// run up the TTS bill. Characters are counted per UTC day, in total and per
+// access code; cache hits are free. Once a budget is spent, /api/tts answers
+// 503 "budget exhausted" until midnight UTC and the client falls back to
+// static clips and the device voice.
+//
+//   TTS_DAILY_CHAR_BUDGET       all requests (default 250000, ~$3.75 on tts-1; 0 = no cap)
+//   TTS_CODE_DAILY_CHAR_BUDGET  each access code (default 0 = no cap). Everyone
+//                               shares the one ACCESS_CODE, so a default here
+//                               would quietly become the real daily cap
+//
+// A line's characters are reserved before synthesis and settled afterwards
+// (refunded when it fails), so concurrent and batched requests can't all
+// pass the check and overshoot together.
+//
+// Store shape (async):
+//   get(day)                          → { total, codes: { [codeKey]: chars } }
+//   reserve(day, codeKey, chars, caps) → null when added, else "daily" or "code";
+//                                       caps is { daily, perCode }, 0 = no cap
+//   add(day, codeKey, chars)          unconditional; negative to refund
+// codeKey is null for requests without a code. The in-memory store counts per
+// warm instance. Like the clip cache, the totals are kept in the Vercel Blob
+// store when BLOB_READ_WRITE_TOKEN is set, or else in a file under
+// TTS_CACHE_DIR, so they survive cold starts and are shared between instances.
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { accessCodeKey } from "../_rateLimit.js";
+import { createVercelBlobStore } from "./objectStore.js";
+
+export const DEFAULT_DAILY_CHAR_BUDGET = 250_000;
+export const DEFAULT_CODE_DAILY_CHAR_BUDGET = 0;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Tries at a conditional update before giving up on a busy object
+const UPDATE_ATTEMPTS = 5;
+
+// "2026-10-19"
+export function utcDay(now) {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function emptyTotals() {
+  return { total: 0, codes: {} };
+}
+
+function parseTotals(json) {
+  try {
+    const data = JSON.parse(json);
+    return { total: Number(data.total) || 0, codes: data.codes && typeof data.codes === "object" ? data.codes : {} };
+  } catch {
+    return emptyTotals();
+  }
+}
+
+// Which cap `chars` more would break, or null
+function overCap(totals, codeKey, chars, caps) {
+  if (caps.daily > 0 && totals.total + chars > caps.daily) return "daily";
+  if (codeKey && caps.perCode > 0 && (totals.codes[codeKey] ?? 0) + chars > caps.perCode) return "code";
+  return null;
+}
+
+function addTo(totals, codeKey, chars) {
+  totals.total = Math.max(0, totals.total + chars);
+  if (codeKey) totals.codes[codeKey] = Math.max(0, (totals.codes[codeKey] ?? 0) + chars);
+}
+
+// Keeps today's totals only; a new day starts from zero. Each call checks
+// and adds without awaiting in between, so reservations can't interleave.
+export function createMemoryBudgetStore() {
+  let current = { day: "", totals: emptyTotals() };
+  const forDay = (day) => {
+    if (current.day !== day) current = { day, totals: emptyTotals() };
+    return current.totals;
+  };
+  return {
+    async get(day) {
+      return forDay(day);
+    },
+    async reserve(day, codeKey, chars, caps) {
+      const totals = forDay(day);
+      const over = overCap(totals, codeKey, chars, caps);
+      if (!over) addTo(totals, codeKey, chars);
+      return over;
+    },
+    async add(day, codeKey, chars) {
+      addTo(forDay(day), codeKey, chars);
+    },
+  };
+}
+
+// One budget-<day>.json per day. Instances sharing the directory can lose an
+// update when they write at the same moment; the budget is a guard, not a ledger.
+export function createFileBudgetStore({ dir }) {
+  const file = (day) => path.join(dir, `budget-${day}.json`);
+  async function read(day) {
+    return parseTotals(await fs.readFile(file(day), "utf8").catch(() => ""));
+  }
+  async function write(day, totals) {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(file(day), JSON.stringify(totals));
+  }
+  return {
+    get: read,
+    async reserve(day, codeKey, chars, caps) {
+      const totals = await read(day);
+      const over = overCap(totals, codeKey, chars, caps);
+      if (over) return over;
+      addTo(totals, codeKey, chars);
+      await write(day, totals);
+      return null;
+    },
+    async add(day, codeKey, chars) {
+      const totals = await read(day);
+      addTo(totals, codeKey, chars);
+      await write(day, totals);
+    },
+  };
+}
+
+// One budget-<day>.json object per day in an object store (objectStore.js).
+// Each update is conditional on the version it read and is retried when
+// another instance wrote first, so instances don't lose each other's counts.
+// The first write of a day can't be conditional and may still race.
+export function createObjectBudgetStore({ objects }) {
+  const name = (day) => `budget-${day}.json`;
+
+  async function read(day) {
+    const object = await objects.read(name(day));
+    return object ? { totals: parseTotals(object.body.toString("utf8")), etag: object.etag } : { totals: emptyTotals() };
+  }
+
+  // change(totals) edits the totals in place, or returns a reason not to write
+  async function update(day, change) {
+    for (let attempt = 1; ; attempt++) {
+      const { totals, etag } = await read(day);
+      const over = change(totals);
+      if (over) return over;
+      try {
+        await objects.write(name(day), JSON.stringify(totals), { contentType: "application/json", ifMatch: etag });
+        return null;
+      } catch (err) {
+        if (!err.conflict || attempt >= UPDATE_ATTEMPTS) throw err;
+      }
+    }
+  }
+
+  return {
+    async get(day) {
+      return (await read(day)).totals;
+    },
+    reserve(day, codeKey, chars, caps) {
+      return update(day, (totals) => {
+        const over = overCap(totals, codeKey, chars, caps);
+        if (!over) addTo(totals, codeKey, chars);
+        return over;
+      });
+    },
+    async add(day, codeKey, chars) {
+      await update(day, (totals) => {
+        addTo(totals, codeKey, chars);
+        return null;
+      });
+    },
+  };
+}
+
+export function createBudgetGuard(options = {}) {
+  const store = options.store ?? createMemoryBudgetStore();
+  const caps = {
+    daily: options.dailyChars ?? DEFAULT_DAILY_CHAR_BUDGET,
+    perCode: options.perCodeChars ?? DEFAULT_CODE_DAILY_CHAR_BUDGET,
+  };
+  const now = options.now ?? (() => Date.now());
+
+  function resetsAt(at) {
+    return Math.floor(at / DAY_MS) * DAY_MS + DAY_MS;
+  }
+
+  return {
+    // Holds `chars` against both budgets. Resolves { exhausted } with which
+    // budget is spent, or { exhausted: null, settle } where settle(used)
+    // books what synthesis actually used (0 when it failed).
+    async reserve(code, chars) {
+      const at = now();
+      const day = utcDay(at);
+      const codeKey = code ? accessCodeKey(code) : null;
+      const reason = await store.reserve(day, codeKey, chars, caps);
+      if (reason) {
+        const resets = resetsAt(at);
+        return { exhausted: { reason, resetsAt: resets, retryAfterMs: resets - at } };
+      }
+      let settled = false;
+      return {
+        exhausted: null,
+        async settle(used) {
+          if (settled || used === chars) return;
+          settled = true;
+          await store.add(day, codeKey, used - chars);
+        },
+      };
+    },
+
+    // For /api/health, which anyone can read: counts only, never code keys
+    async totals() {
+      const day = utcDay(now());
+      const totals = await store.get(day);
+      return {
+        day,
+        chars: totals.total,
+        limit: caps.daily || null,
+        perCodeLimit: caps.perCode || null,
+        codes: Object.keys(totals.codes).length,
+      };
+    },
+  };
+}
+
+export function createTtsBudgetGuard(env = process.env, providerId = "openai") {
+  const number = (value, fallback) => {
+    const n = Number(value);
+    return value === undefined || value === "" || !Number.isFinite(n) ? fallback : Math.max(0, n);
+  };
+  let store = createMemoryBudgetStore();
+  if (env.BLOB_READ_WRITE_TOKEN) {
+    const objects = createVercelBlobStore({ token: env.BLOB_READ_WRITE_TOKEN, prefix: `tts-budget/${providerId}` });
+    store = createObjectBudgetStore({ objects });
+  } else if (env.TTS_CACHE_DIR) {
+    store = createFileBudgetStore({ dir: path.join(env.TTS_CACHE_DIR, providerId) });
+  }
+  return createBudgetGuard({
+    store,
+    dailyChars: number(env.TTS_DAILY_CHAR_BUDGET, DEFAULT_DAILY_CHAR_BUDGET),
+    perCodeChars: number(env.TTS_CODE_DAILY_CHAR_BUDGET, DEFAULT_CODE_DAILY_CHAR_BUDGET),
+  });
+}
+
+let shared = null;
+
+// The guard for this deployment, created once per warm instance
+export function getBudgetGuard(providerId) {
+  if (!shared) shared = createTtsBudgetGuard(process.env, providerId);
+  return shared;
+}
+
+// The 503 body; /api/tts-batch sends it per line
+export function budgetExhaustedBody(exhausted) {
+  return {
+    error: "TTS budget exhausted",
+    code: "budget_exhausted",
+    reason: exhausted.reason,
+    resetsAt: new Date(exhausted.resetsAt).toISOString(),
+  };
+}
+
+export function sendBudgetExhausted(res, exhausted) {
+  res.setHeader("Retry-After", String(Math.max(1, Math.ceil(exhausted.retryAfterMs / 1000))));
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(503).json(budgetExhaustedBody(exhausted));
+}
@@ -0,0 +1,94 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  createBudgetGuard,
+  createFileBudgetStore,
+  createObjectBudgetStore,
+  createTtsBudgetGuard,
+  utcDay,
+} from "./budget.js";
+import { createMemoryObjectStore } from "./objectStore.js";
+
+describe("TTS budget guard", () => {
+  let dir;
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "tts-budget-"));
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("caps each access code and then the whole day", async () => {
+    let t = Date.parse("2026-10-19T15:00:00Z");
+    const guard = createBudgetGuard({ dailyChars: 100, perCodeChars: 60, now: () => t });
+    expect((await guard.reserve("alpha", 50)).exhausted).toBeNull();
+    expect((await guard.reserve("alpha", 10)).exhausted).toBeNull();
+    expect((await guard.reserve("alpha", 1)).exhausted).toEqual({
+      reason: "code",
+      resetsAt: Date.parse("2026-10-20T00:00:00Z"),
+      retryAfterMs: 9 * 60 * 60 * 1000,
+    });
+
+    expect((await guard.reserve("beta", 35)).exhausted).toBeNull();
+    expect((await guard.reserve("beta", 10)).exhausted?.reason).toBe("daily");
+    expect((await guard.reserve("", 5)).exhausted).toBeNull();
+
+    // Health gets counts only: no per-code keys anyone could brute-force
+    const totals = await guard.totals();
+    expect(totals).toEqual({ day: "2026-10-19", chars: 100, limit: 100, perCodeLimit: 60, codes: 2 });
+
+    // Midnight UTC starts a fresh day
+    t = Date.parse("2026-10-20T00:00:01Z");
+    expect((await guard.reserve("alpha", 60)).exhausted).toBeNull();
+    expect((await guard.totals()).chars).toBe(60);
+  });
+
+  it("reserves before synthesis so concurrent lines can't overshoot", async () => {
+    const guard = createBudgetGuard({ dailyChars: 100 });
+    const held = await Promise.all(Array.from({ length: 5 }, () => guard.reserve("alpha", 40)));
+    expect(held.filter((h) => !h.exhausted)).toHaveLength(2);
+
+    // A failed synthesis gives its characters back
+    await held[0].settle(0);
+    expect((await guard.totals()).chars).toBe(40);
+    expect((await guard.reserve("alpha", 60)).exhausted).toBeNull();
+  });
+
+  it("reads caps from the env and keeps totals on disk", async () => {
+    const env = { TTS_CACHE_DIR: dir, TTS_DAILY_CHAR_BUDGET: "oops" };
+    const guard = createTtsBudgetGuard(env, "openai");
+    expect((await guard.reserve("alpha", 200_000)).exhausted).toBeNull();
+    expect((await guard.reserve("beta", 60_000)).exhausted?.reason).toBe("daily");
+    expect(await guard.totals()).toMatchObject({ chars: 200_000, limit: 250_000, perCodeLimit: null });
+
+    // A cold start reads the same totals back
+    const store = createFileBudgetStore({ dir: path.join(dir, "openai") });
+    expect((await store.get(utcDay(Date.now()))).total).toBe(200_000);
+  });
+
+  it("shares totals between instances through an object store", async () => {
+    const objects = createMemoryObjectStore();
+    // Another instance writes between every read and write of this one, once
+    let raced = false;
+    const racing = {
+      ...objects,
+      async write(name, body, options) {
+        if (!raced && options.ifMatch) {
+          raced = true;
+          const other = JSON.stringify({ total: 30, codes: {} });
+          await objects.write(name, other, { contentType: "application/json" });
+        }
+        return objects.write(name, body, options);
+      },
+    };
+    const first = createBudgetGuard({ store: createObjectBudgetStore({ objects: racing }), dailyChars: 100 });
+    const second = createBudgetGuard({ store: createObjectBudgetStore({ objects }), dailyChars: 100 });
+    expect((await first.reserve("alpha", 20)).exhausted).toBeNull();
+    expect((await first.reserve("alpha", 20)).exhausted).toBeNull();
+    // The conflicting write was retried on top of the other instance's 30
+    expect((await second.totals()).chars).toBe(50);
+    expect((await second.reserve("beta", 60)).exhausted?.reason).toBe("daily");
+  });
+});
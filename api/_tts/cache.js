@@ -0,0 +1,214 @@
+// Server-side TTS cache. Clips are stored under the same SHA-256
+// "voice|speed|text" key the client and scripts/generate-audio.mjs use.
+//
+// Store shape (all async):
+//   get(key)           → { buffer, contentType, etag, expiresAt } or null when
+//                        missing or past its TTL
+//   set(key, { buffer, contentType }) → the stored entry
+//
+// The in-memory store lives as long as a warm instance. A durable store sits
+// behind it so clips outlive cold starts and reach every instance: a Vercel
+// Blob store when BLOB_READ_WRITE_TOKEN is set (see objectStore.js), otherwise
+// the filesystem under TTS_CACHE_DIR (e.g. a mounted volume when
+// self-hosting). Each provider gets its own prefix or subdirectory so
+// switching TTS_PROVIDER never serves another engine's audio.
+// TTS_CACHE_TTL_MS applies to all of them, TTS_CACHE_MAX_ENTRIES to memory and disk.
+
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createVercelBlobStore } from "./objectStore.js";
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+export function makeCacheKey(text, voice, speed) {
+  const raw = `${voice}|${speed.toFixed(2)}|${text}`;
+  return crypto.createHash("sha256").update(raw).digest("hex");
+}
+
+// Strong validator for the clip's bytes
+export function makeEtag(buffer) {
+  return `"${crypto.createHash("sha256").update(buffer).digest("hex").slice(0, 32)}"`;
+}
+
+function makeEntry({ buffer, contentType }, ttlMs, now) {
+  return { buffer, contentType, etag: makeEtag(buffer), expiresAt: now + ttlMs };
+}
+
+export function createMemoryCacheStore(options = {}) {
+  const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+  const maxEntries = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+  const now = options.now ?? (() => Date.now());
+  const entries = new Map();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return null;
+      }
+      // Most recently used last
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+
+    async set(key, clip) {
+      const entry = clip.etag && clip.expiresAt ? clip : makeEntry(clip, ttlMs, now());
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value);
+      return entry;
+    },
+  };
+}
+
+// One <key>.audio file per clip with a <key>.json beside it; the metadata
+// file's mtime is bumped on every hit, so eviction drops the least recently used.
+export function createFileCacheStore(options) {
+  const dir = options.dir;
+  const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+  const maxEntries = options.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+  const now = options.now ?? (() => Date.now());
+  const audioPath = (key) => path.join(dir, `${key}.audio`);
+  const metaPath = (key) => path.join(dir, `${key}.json`);
+
+  async function remove(key) {
+    await Promise.all([fs.rm(audioPath(key), { force: true }), fs.rm(metaPath(key), { force: true })]);
+  }
+
+  async function touch(key) {
+    const at = new Date(now());
+    await fs.utimes(metaPath(key), at, at).catch(() => {});
+  }
+
+  // Write to a temp file and rename, so a reader never sees half a clip
+  async function writeAtomic(file, data) {
+    const tmp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, file);
+  }
+
+  async function evict() {
+    const names = (await fs.readdir(dir)).filter((name) => name.endsWith(".json"));
+    if (names.length <= maxEntries) return;
+    const stats = await Promise.all(
+      names.map(async (name) => {
+        const stat = await fs.stat(path.join(dir, name)).catch(() => null);
+        return { key: name.slice(0, -".json".length), used: stat ? stat.mtimeMs : 0 };
+      }),
+    );
+    stats.sort((a, b) => a.used - b.used);
+    await Promise.all(stats.slice(0, names.length - maxEntries).map(({ key }) => remove(key)));
+  }
+
+  return {
+    async get(key) {
+      let meta;
+      try {
+        meta = JSON.parse(await fs.readFile(metaPath(key), "utf8"));
+      } catch {
+        return null;
+      }
+      if (!(meta.expiresAt > now())) {
+        await remove(key);
+        return null;
+      }
+      let buffer;
+      try {
+        buffer = await fs.readFile(audioPath(key));
+      } catch {
+        await remove(key);
+        return null;
+      }
+      await touch(key);
+      return { buffer, contentType: meta.contentType, etag: meta.etag, expiresAt: meta.expiresAt };
+    },
+
+    async set(key, clip) {
+      const entry = clip.etag && clip.expiresAt ? clip : makeEntry(clip, ttlMs, now());
+      await fs.mkdir(dir, { recursive: true });
+      // Audio first: metadata without audio is treated as a miss
+      await writeAtomic(audioPath(key), entry.buffer);
+      await writeAtomic(
+        metaPath(key),
+        JSON.stringify({ contentType: entry.contentType, etag: entry.etag, expiresAt: entry.expiresAt }),
+      );
+      await touch(key);
+      await evict();
+      return entry;
+    },
+  };
+}
+
+// Clips in an object store (objectStore.js), one object per clip. An object
+// expires TTL after it was written and is deleted when a read finds it
+// expired; there is no entry limit, the store's own quota applies.
+export function createObjectCacheStore(options) {
+  const objects = options.objects;
+  const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+  const now = options.now ?? (() => Date.now());
+
+  return {
+    async get(key) {
+      const object = await objects.read(key);
+      if (!object) return null;
+      const expiresAt = object.uploadedAt + ttlMs;
+      if (expiresAt <= now()) {
+        await objects.remove(key).catch(() => {});
+        return null;
+      }
+      return { buffer: object.body, contentType: object.contentType, etag: makeEtag(object.body), expiresAt };
+    },
+
+    async set(key, clip) {
+      const entry = clip.etag && clip.expiresAt ? clip : makeEntry(clip, ttlMs, now());
+      await objects.write(key, entry.buffer, { contentType: entry.contentType });
+      return entry;
+    },
+  };
+}
+
+// Memory in front of a slower durable store: hits there are copied up
+export function createTieredCacheStore(fast, durable) {
+  return {
+    async get(key) {
+      const hit = await fast.get(key);
+      if (hit) return hit;
+      const stored = await durable.get(key).catch((err) => {
+        // An unreachable store costs a synthesis, not the request
+        console.error(JSON.stringify({ event: "tts_cache_error", err: String(err), ts: Date.now() }));
+        return null;
+      });
+      if (stored) await fast.set(key, stored);
+      return stored;
+    },
+
+    async set(key, clip) {
+      const entry = await fast.set(key, clip);
+      try {
+        await durable.set(key, entry);
+      } catch (err) {
+        // A full or read-only disk only costs the durability
+        console.error(JSON.stringify({ event: "tts_cache_error", err: String(err), ts: Date.now() }));
+      }
+      return entry;
+    },
+  };
+}
+
+export function createTtsCacheStore(env = process.env, providerId = "openai") {
+  const ttlMs = Number(env.TTS_CACHE_TTL_MS || DEFAULT_CACHE_TTL_MS);
+  const maxEntries = Number(env.TTS_CACHE_MAX_ENTRIES || DEFAULT_CACHE_MAX_ENTRIES);
+  const memory = createMemoryCacheStore({ ttlMs, maxEntries });
+  if (env.BLOB_READ_WRITE_TOKEN) {
+    const objects = createVercelBlobStore({ token: env.BLOB_READ_WRITE_TOKEN, prefix: `tts-cache/${providerId}` });
+    return createTieredCacheStore(memory, createObjectCacheStore({ objects, ttlMs }));
+  }
+  if (!env.TTS_CACHE_DIR) return memory;
+  const dir = path.join(env.TTS_CACHE_DIR, providerId);
+  return createTieredCacheStore(memory, createFileCacheStore({ dir, ttlMs, maxEntries }));
+}
@@ -0,0 +1,131 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createFileCacheStore,
+  createMemoryCacheStore,
+  createObjectCacheStore,
+  createTieredCacheStore,
+  createTtsCacheStore,
+  makeCacheKey,
+  makeEtag,
+} from "./cache.js";
+import { createMemoryObjectStore } from "./objectStore.js";
+
+// A stand-in for the Vercel Blob SDK: private blobs in a Map
+const blobs = vi.hoisted(() => new Map());
+vi.mock("@vercel/blob", () => ({
+  BlobPreconditionFailedError: class extends Error {},
+  async get(pathname, options) {
+    const blob = blobs.get(pathname);
+    if (!blob || options.access !== "private") return null;
+    return {
+      statusCode: 200,
+      stream: new Response(blob.body).body,
+      blob: { contentType: blob.contentType, uploadedAt: new Date(blob.uploadedAt), etag: blob.etag },
+    };
+  },
+  async put(pathname, body, options) {
+    blobs.set(pathname, { body: Buffer.from(body), contentType: options.contentType, uploadedAt: Date.now(), etag: `"${blobs.size}"` });
+    return { etag: blobs.get(pathname).etag };
+  },
+  async del(pathname) {
+    blobs.delete(pathname);
+  },
+}));
+
+const clip = (text) => ({ buffer: Buffer.from(text), contentType: "audio/mpeg" });
+
+describe("TTS cache stores", () => {
+  let dir;
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "tts-cache-"));
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("keys clips like the client and the static files", () => {
+    expect(makeCacheKey("Keep going.", "echo", 1)).toMatch(/^[0-9a-f]{64}$/);
+    expect(makeCacheKey("Keep going.", "echo", 1)).toBe(makeCacheKey("Keep going.", "echo", 1.001));
+    expect(makeEtag(Buffer.from("a"))).not.toBe(makeEtag(Buffer.from("b")));
+  });
+
+  it("expires and evicts in memory", async () => {
+    let t = 0;
+    const store = createMemoryCacheStore({ ttlMs: 1000, maxEntries: 2, now: () => t });
+    const entry = await store.set("a", clip("a"));
+    expect(entry).toMatchObject({ contentType: "audio/mpeg", expiresAt: 1000, etag: makeEtag(Buffer.from("a")) });
+    await store.set("b", clip("b"));
+    await store.get("a"); // a is now the most recently used
+    await store.set("c", clip("c"));
+    expect(await store.get("b")).toBeNull();
+    expect((await store.get("a"))?.buffer.toString()).toBe("a");
+
+    t = 1000;
+    expect(await store.get("a")).toBeNull();
+  });
+
+  it("keeps clips on disk across instances", async () => {
+    let t = 0;
+    const first = createFileCacheStore({ dir, ttlMs: 1000, maxEntries: 10, now: () => t });
+    const stored = await first.set("a", clip("a"));
+
+    const second = createFileCacheStore({ dir, ttlMs: 1000, maxEntries: 10, now: () => t });
+    expect(await second.get("a")).toEqual(stored);
+
+    t = 1000;
+    expect(await second.get("a")).toBeNull();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("evicts the least recently used clips from disk", async () => {
+    let t = Date.now();
+    const store = createFileCacheStore({ dir, ttlMs: 60_000, maxEntries: 2, now: () => t });
+    await store.set("a", clip("a"));
+    t += 2000;
+    await store.set("b", clip("b"));
+    t += 2000;
+    await store.get("a");
+    t += 2000;
+    await store.set("c", clip("c"));
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("a")).not.toBeNull();
+    expect(await store.get("c")).not.toBeNull();
+  });
+
+  it("copies durable hits into memory", async () => {
+    const durable = createFileCacheStore({ dir });
+    await durable.set("a", clip("a"));
+    const memory = createMemoryCacheStore();
+    const tiered = createTieredCacheStore(memory, durable);
+    expect((await tiered.get("a"))?.buffer.toString()).toBe("a");
+    expect(await memory.get("a")).not.toBeNull();
+  });
+
+  it("keeps clips in an object store until they expire", async () => {
+    let t = 0;
+    const objects = createMemoryObjectStore({ now: () => t });
+    const first = createObjectCacheStore({ objects, ttlMs: 1000, now: () => t });
+    const stored = await first.set("a", clip("a"));
+
+    // Another instance sees the same clip
+    const second = createObjectCacheStore({ objects, ttlMs: 1000, now: () => t });
+    expect(await second.get("a")).toEqual(stored);
+
+    t = 1000;
+    expect(await second.get("a")).toBeNull();
+    expect(await objects.read("a")).toBeNull();
+  });
+
+  it("uses the Vercel Blob store when the project has one", async () => {
+    const env = { BLOB_READ_WRITE_TOKEN: "vercel_blob_rw_test" };
+    await createTtsCacheStore(env, "openai").set("a", clip("a"));
+    expect(blobs.get("tts-cache/openai/a")?.contentType).toBe("audio/mpeg");
+
+    // A cold instance reads it back from the blob store
+    expect((await createTtsCacheStore(env, "openai").get("a"))?.buffer.toString()).toBe("a");
+    expect(await createTtsCacheStore(env, "local").get("a")).toBeNull();
+  });
+});
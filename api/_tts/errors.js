@@ -0,0 +1,5 @@
+// Thrown by a provider's synthesize(); status is the HTTP status to answer
+// with and detail the upstream error text
+export function ttsError(message, status = 502, detail = "") {
+  return Object.assign(new Error(message), { status, detail });
+}
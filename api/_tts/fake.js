@@ -0,0 +1,67 @@
+// Deterministic stand-in for tests and offline development: each line is a
+// short WAV tone whose pitch follows the voice and whose length follows the
+// word count and speed. The same request always yields the same bytes.
+
+import { ttsError } from "./errors.js";
+
+const SAMPLE_RATE = 8000;
+const SECONDS_PER_WORD = 0.08;
+const MAX_SECONDS = 4;
+
+export const FAKE_VOICES = [
+  { id: "echo", label: "Echo (fake)", lang: "English", gender: "M", grade: "C" },
+  { id: "alloy", label: "Alloy (fake)", lang: "English", gender: "N", grade: "C" },
+];
+
+function toneFrequency(voice) {
+  let sum = 0;
+  for (const ch of voice) sum += ch.charCodeAt(0);
+  return 220 + (sum % 8) * 55;
+}
+
+export function encodeTone(frequency, seconds) {
+  const frames = Math.max(1, Math.round(SAMPLE_RATE * seconds));
+  const buffer = Buffer.alloc(44 + frames * 2);
+  buffer.write("RIFF", 0, "ascii");
+  buffer.writeUInt32LE(36 + frames * 2, 4);
+  buffer.write("WAVE", 8, "ascii");
+  buffer.write("fmt ", 12, "ascii");
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write("data", 36, "ascii");
+  buffer.writeUInt32LE(frames * 2, 40);
+  for (let i = 0; i < frames; i++) {
+    const sample = 0.3 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    buffer.writeInt16LE(Math.round(sample * 0x7fff), 44 + i * 2);
+  }
+  return buffer;
+}
+
+export function createFakeProvider(env) {
+  // FAKE_TTS_FAIL=1 makes every request fail, for exercising the fallbacks
+  const failing = env.FAKE_TTS_FAIL === "1";
+
+  return {
+    id: "fake",
+    voices: FAKE_VOICES,
+    defaultVoiceId: "echo",
+    speed: { min: 0.25, max: 4.0, step: 0.25, default: 1.0 },
+    format: { contentType: "audio/wav", extension: "wav" },
+
+    configError() {
+      return null;
+    },
+
+    async synthesize({ text, voice, speed }) {
+      if (failing) throw ttsError("Fake TTS failure", 503);
+      const words = text.split(/\s+/).filter(Boolean).length;
+      const seconds = Math.min(MAX_SECONDS, (0.2 + words * SECONDS_PER_WORD) / speed);
+      return { buffer: encodeTone(toneFrequency(voice), seconds), contentType: "audio/wav" };
+    },
+  };
+}
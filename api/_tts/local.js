@@ -0,0 +1,68 @@
+// A self-hosted engine behind an OpenAI-compatible /v1/audio/speech endpoint
+// (e.g. Kokoro-FastAPI or openedai-speech), for running without OpenAI.
+//
+//   LOCAL_TTS_URL      full speech endpoint URL (required)
+//   LOCAL_TTS_MODEL    model name sent along (default "tts-1")
+//   LOCAL_TTS_VOICES   comma-separated voice ids; the first is the default
+//   LOCAL_TTS_API_KEY  sent as a bearer token when set
+
+import { ttsError } from "./errors.js";
+
+const DEFAULT_LOCAL_VOICES = "echo,alloy,fable,onyx,shimmer";
+
+function parseVoices(list) {
+  const ids = String(list || DEFAULT_LOCAL_VOICES)
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return ids.map((id) => ({
+    id,
+    label: id.charAt(0).toUpperCase() + id.slice(1).replace(/_/g, " "),
+    lang: "English",
+    gender: "N",
+    grade: "B",
+  }));
+}
+
+export function createLocalProvider(env) {
+  const url = env.LOCAL_TTS_URL || "";
+  const model = env.LOCAL_TTS_MODEL || "tts-1";
+  const apiKey = env.LOCAL_TTS_API_KEY || "";
+  const voices = parseVoices(env.LOCAL_TTS_VOICES);
+
+  return {
+    id: "local",
+    voices,
+    defaultVoiceId: voices[0]?.id || "echo",
+    // What most OpenAI-compatible engines accept
+    speed: { min: 0.5, max: 2.0, step: 0.25, default: 1.0 },
+    format: { contentType: "audio/mpeg", extension: "mp3" },
+
+    configError() {
+      return url ? null : "LOCAL_TTS_URL is not set";
+    },
+
+    async synthesize({ text, voice, speed }) {
+      const headers = { "Content-Type": "application/json" };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+      let localRes;
+      try {
+        localRes = await fetch(url, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ model, input: text, voice, speed, response_format: "mp3" }),
+        });
+      } catch (err) {
+        throw ttsError("Local TTS engine unreachable", 502, String(err));
+      }
+
+      if (!localRes.ok) {
+        const detail = await localRes.text();
+        throw ttsError("Local TTS request failed", localRes.status, detail.slice(0, 800));
+      }
+
+      const contentType = localRes.headers.get("content-type") || "audio/mpeg";
+      return { buffer: Buffer.from(await localRes.arrayBuffer()), contentType };
+    },
+  };
+}
@@ -0,0 +1,84 @@
+// Object storage for the server state that has to outlive an instance and be
+// shared between instances: the TTS clip cache and the daily budget totals.
+// On Vercel TTS_CACHE_DIR is each instance's own /tmp, so a deployment links
+// a Vercel Blob store instead (Vercel sets BLOB_READ_WRITE_TOKEN when it is
+// connected to the project).
+//
+// Object store shape (async):
+//   read(name)                → { body, contentType, uploadedAt, etag } or null
+//   write(name, body, { contentType, ifMatch }) → { etag }; with ifMatch it
+//                               rejects with err.conflict when the object changed
+//   remove(name)
+// Names are relative to the store's prefix.
+
+import crypto from "node:crypto";
+
+// Blobs are private: clips are only handed out through /api/tts
+export function createVercelBlobStore({ token, prefix }) {
+  let sdk = null;
+  // Loaded on first use, so deployments without a blob store never import it
+  const load = () => (sdk ??= import("@vercel/blob"));
+  const pathname = (name) => `${prefix}/${name}`;
+
+  return {
+    async read(name) {
+      const { get } = await load();
+      const result = await get(pathname(name), { access: "private", token, useCache: false });
+      if (!result || result.statusCode !== 200) return null;
+      return {
+        body: Buffer.from(await new Response(result.stream).arrayBuffer()),
+        contentType: result.blob.contentType,
+        uploadedAt: result.blob.uploadedAt.getTime(),
+        etag: result.blob.etag,
+      };
+    },
+
+    async write(name, body, options = {}) {
+      const { put, BlobPreconditionFailedError } = await load();
+      try {
+        const result = await put(pathname(name), body, {
+          access: "private",
+          token,
+          contentType: options.contentType,
+          addRandomSuffix: false,
+          allowOverwrite: true,
+          ifMatch: options.ifMatch,
+        });
+        return { etag: result.etag };
+      } catch (err) {
+        if (err instanceof BlobPreconditionFailedError) err.conflict = true;
+        throw err;
+      }
+    },
+
+    async remove(name) {
+      const { del } = await load();
+      await del(pathname(name), { token });
+    },
+  };
+}
+
+// Same shape in memory, for tests
+export function createMemoryObjectStore(options = {}) {
+  const now = options.now ?? (() => Date.now());
+  const objects = new Map();
+  return {
+    async read(name) {
+      const object = objects.get(name);
+      return object ? { ...object, body: Buffer.from(object.body) } : null;
+    },
+
+    async write(name, body, { contentType = "application/octet-stream", ifMatch } = {}) {
+      if (ifMatch && objects.get(name)?.etag !== ifMatch) {
+        throw Object.assign(new Error("Object changed since it was read"), { conflict: true });
+      }
+      const etag = `"${crypto.randomUUID()}"`;
+      objects.set(name, { body: Buffer.from(body), contentType, uploadedAt: now(), etag });
+      return { etag };
+    },
+
+    async remove(name) {
+      objects.delete(name);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { ttsError } from "./errors.js";
+
+const OPENAI_TTS_URL = "https://api.openai.com/v1/audio/speech";
+
+export const OPENAI_VOICES = [
+  { id: "echo", label: "Echo", lang: "English", gender: "M", grade: "A" },
+  { id: "alloy", label: "Alloy", lang: "English", gender: "N", grade: "A" },
+  { id: "fable", label: "Fable", lang: "English", gender: "M", grade: "A" },
+  { id: "onyx", label: "Onyx", lang: "English", gender: "M", grade: "A" },
+  { id: "shimmer", label: "Shimmer", lang: "English", gender: "F", grade: "A" },
+];
+
+export function createOpenAiProvider(env) {
+  const apiKey = env.OPENAI_API_KEY || "";
+
+  return {
+    id: "openai",
+    voices: OPENAI_VOICES,
+    defaultVoiceId: "echo",
+    speed: { min: 0.25, max: 4.0, step: 0.25, default: 1.0 },
+    format: { contentType: "audio/mpeg", extension: "mp3" },
+
+    configError() {
+      return apiKey ? null : "OPENAI_API_KEY is not set";
+    },
+
+    async synthesize({ text, voice, speed }) {
+      const openaiRes = await fetch(OPENAI_TTS_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model: "tts-1", input: text, voice, speed, response_format: "mp3" }),
+      });
+
+      if (!openaiRes.ok) {
+        const detail = await openaiRes.text();
+        throw ttsError("OpenAI request failed", openaiRes.status, detail.slice(0, 800));
+      }
+
+      const contentType = openaiRes.headers.get("content-type") || "audio/mpeg";
+      return { buffer: Buffer.from(await openaiRes.arrayBuffer()), contentType };
+    },
+  };
+}
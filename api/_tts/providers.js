@@ -0,0 +1,47 @@
+// TTS provider layer. A provider covers synthesis, the voices it offers,
+// its speed limits and its output format; api/tts.js, api/voices.js and
+// _config.js only talk to the active one.
+//
+// TTS_PROVIDER picks it: "openai" (default), "local" (a self-hosted engine
+// with an OpenAI-compatible speech endpoint) or "fake" (deterministic tones,
+// for tests and offline development).
+//
+// Provider shape:
+//   id              "openai" | "local" | "fake"
+//   voices          [{ id, label, lang, gender, grade }]
+//   defaultVoiceId  one of voices
+//   speed           { min, max, step, default }
+//   format          { contentType, extension } of what synthesize() returns
+//   configError()   why the provider can't run (e.g. a missing key), or null
+//   synthesize({ text, voice, speed }) → Promise<{ buffer, contentType }>,
+//                   rejecting with a ttsError() (errors.js) on failure
+
+import { createFakeProvider } from "./fake.js";
+import { createLocalProvider } from "./local.js";
+import { createOpenAiProvider } from "./openai.js";
+
+export const DEFAULT_PROVIDER_ID = "openai";
+
+const PROVIDERS = {
+  openai: createOpenAiProvider,
+  local: createLocalProvider,
+  fake: createFakeProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS);
+
+// An unknown TTS_PROVIDER falls back to the default so a typo doesn't take
+// speech down; /api/health reports which provider is active.
+export function createTtsProvider(env = process.env) {
+  const id = String(env.TTS_PROVIDER || DEFAULT_PROVIDER_ID).trim().toLowerCase();
+  const create = PROVIDERS[id] || PROVIDERS[DEFAULT_PROVIDER_ID];
+  return create(env);
+}
+
+let active = null;
+
+// The provider for this deployment, created once per warm instance
+export function getTtsProvider() {
+  if (!active) active = createTtsProvider();
+  return active;
+}
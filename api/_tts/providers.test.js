@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createTtsProvider } from "./providers.js";
+
+describe("TTS providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("picks the provider from TTS_PROVIDER", () => {
+    expect(createTtsProvider({}).id).toBe("openai");
+    expect(createTtsProvider({ TTS_PROVIDER: "Fake" }).id).toBe("fake");
+    expect(createTtsProvider({ TTS_PROVIDER: "nope" }).id).toBe("openai");
+    expect(createTtsProvider({}).configError()).toBe("OPENAI_API_KEY is not set");
+    expect(createTtsProvider({ TTS_PROVIDER: "local" }).configError()).toBe("LOCAL_TTS_URL is not set");
+  });
+
+  it("fakes speech deterministically", async () => {
+    const fake = createTtsProvider({ TTS_PROVIDER: "fake" });
+    const a = await fake.synthesize({ text: "Keep going.", voice: "echo", speed: 1 });
+    const b = await fake.synthesize({ text: "Keep going.", voice: "echo", speed: 1 });
+    expect(a.contentType).toBe("audio/wav");
+    expect(a.buffer.subarray(0, 4).toString("ascii")).toBe("RIFF");
+    expect(a.buffer.equals(b.buffer)).toBe(true);
+
+    const longer = await fake.synthesize({ text: "Keep going, you are doing well.", voice: "echo", speed: 1 });
+    const faster = await fake.synthesize({ text: "Keep going.", voice: "echo", speed: 2 });
+    expect(longer.buffer.length).toBeGreaterThan(a.buffer.length);
+    expect(faster.buffer.length).toBeLessThan(a.buffer.length);
+
+    const failing = createTtsProvider({ TTS_PROVIDER: "fake", FAKE_TTS_FAIL: "1" });
+    await expect(failing.synthesize({ text: "Hi", voice: "echo", speed: 1 })).rejects.toMatchObject({ status: 503 });
+  });
+
+  it("sends an OpenAI-compatible request to the local engine", async () => {
+    const fetchMock = vi.fn(async () => new Response(new Uint8Array([1, 2, 3]), { headers: { "content-type": "audio/mpeg" } }));
+    vi.stubGlobal("fetch", fetchMock);
+    const local = createTtsProvider({
+      TTS_PROVIDER: "local",
+      LOCAL_TTS_URL: "http://localhost:8880/v1/audio/speech",
+      LOCAL_TTS_VOICES: "af_heart, am_adam",
+    });
+    expect(local.voices.map((v) => v.id)).toEqual(["af_heart", "am_adam"]);
+    expect(local.defaultVoiceId).toBe("af_heart");
+
+    const result = await local.synthesize({ text: "Rest.", voice: "am_adam", speed: 1.5 });
+    expect(result.buffer).toEqual(Buffer.from([1, 2, 3]));
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:8880/v1/audio/speech");
+    expect(JSON.parse(init.body)).toMatchObject({ input: "Rest.", voice: "am_adam", speed: 1.5 });
+
+    fetchMock.mockResolvedValueOnce(new Response("model not loaded", { status: 500 }));
+    await expect(local.synthesize({ text: "Rest.", voice: "am_adam", speed: 1 })).rejects.toMatchObject({
+      status: 500,
+      detail: "model not loaded",
+    });
+  });
+});
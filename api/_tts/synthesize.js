@@ -0,0 +1,80 @@
+// One line through the server cache, the budget guard and the provider.
+// Shared by /api/tts and /api/tts-batch so both validate, cache, count and
+// log a line the same way.
+
+import { CURATED_VOICES, DEFAULT_VOICE_ID, SPEED_MAX, SPEED_MIN } from "../_config.js";
+import { getBudgetGuard } from "./budget.js";
+import { createTtsCacheStore, makeCacheKey } from "./cache.js";
+import { ttsError } from "./errors.js";
+
+export const MAX_TEXT_CHARS = Number(process.env.MAX_TEXT_CHARS || 4096);
+
+const VALID_VOICE_IDS = new Set(CURATED_VOICES.map((v) => v.id));
+
+// Created once per warm instance
+let cacheStore = null;
+export function getCacheStore(provider) {
+  if (!cacheStore) cacheStore = createTtsCacheStore(process.env, provider.id);
+  return cacheStore;
+}
+
+function clamp(n, min, max) {
+  const x = Number.isFinite(n) ? n : min;
+  return Math.max(min, Math.min(max, x));
+}
+
+// The trimmed text, or the 400 message explaining why it can't be spoken
+export function parseText(value) {
+  const text = typeof value === "string" ? value.trim() : "";
+  if (!text) return { error: "text is required" };
+  if (text.length > MAX_TEXT_CHARS) return { error: `text exceeds ${MAX_TEXT_CHARS} characters` };
+  return { text };
+}
+
+// Unknown voices get the default; speeds are clamped to the provider's range
+export function parseVoice(body) {
+  const requested = typeof body.voice === "string" ? body.voice : DEFAULT_VOICE_ID;
+  const voice = VALID_VOICE_IDS.has(requested) ? requested : DEFAULT_VOICE_ID;
+  return { voice, speed: clamp(Number(body.speed), SPEED_MIN, SPEED_MAX) };
+}
+
+function log(fields) {
+  console.log(JSON.stringify({ event: "tts", ...fields, ts: Date.now() }));
+}
+
+// Resolves { entry, cacheStatus } with the cache entry for the clip. Rejects
+// with a ttsError: the provider's failure, or 503 with `exhausted` set when
+// the line would go over the daily budget.
+export async function synthesizeLine(provider, { text, voice, speed, code }) {
+  const cacheKey = makeCacheKey(text, voice, speed);
+  const store = getCacheStore(provider);
+  const cached = await store.get(cacheKey);
+  if (cached) {
+    log({ cache: "HIT", provider: provider.id, chars: text.length, voice });
+    return { entry: cached, cacheStatus: "HIT" };
+  }
+
+  // Only synthesis costs money, so the budget is checked after the cache
+  const held = await getBudgetGuard(provider.id).reserve(code, text.length);
+  if (held.exhausted) {
+    log({ cache: "BUDGET", provider: provider.id, chars: text.length, reason: held.exhausted.reason });
+    const err = ttsError("TTS budget exhausted", 503);
+    err.exhausted = held.exhausted;
+    throw err;
+  }
+
+  let result;
+  try {
+    result = await provider.synthesize({ text, voice, speed });
+  } catch (err) {
+    await held.settle(0);
+    const status = Number.isInteger(err?.status) ? err.status : 502;
+    log({ cache: "ERROR", provider: provider.id, chars: text.length, voice, status });
+    throw ttsError(err?.message || "TTS request failed", status, err?.detail || "");
+  }
+
+  await held.settle(text.length);
+  const entry = await store.set(cacheKey, result);
+  log({ cache: "MISS", provider: provider.id, chars: text.length, voice });
+  return { entry, cacheStatus: "MISS" };
+}
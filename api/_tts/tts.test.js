@@ -0,0 +1,175 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Route handlers against the fake provider. _config.js reads the provider at
+// import time, so the env is set before the handlers are loaded.
+let tts;
+let ttsBatch;
+let voices;
+let health;
+
+function mockRes() {
+  const res = { statusCode: 200, headers: {}, body: undefined };
+  res.setHeader = (name, value) => {
+    res.headers[name.toLowerCase()] = value;
+  };
+  res.status = (code) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body) => {
+    res.body = body;
+    return res;
+  };
+  res.send = (body) => {
+    res.body = body;
+    return res;
+  };
+  res.write = (chunk) => {
+    res.body = (res.body ?? "") + chunk;
+  };
+  res.end = () => res;
+  return res;
+}
+
+function post(body, headers = {}) {
+  return { method: "POST", headers, body };
+}
+
+describe("api/tts with the fake provider", () => {
+  beforeAll(async () => {
+    vi.stubEnv("TTS_PROVIDER", "fake");
+    vi.stubEnv("ACCESS_CODE", "");
+    vi.stubEnv("TTS_CACHE_DIR", "");
+    vi.stubEnv("TTS_DAILY_CHAR_BUDGET", "100");
+    vi.resetModules();
+    tts = (await import("../tts.js")).default;
+    ttsBatch = (await import("../tts-batch.js")).default;
+    voices = (await import("../voices.js")).default;
+    health = (await import("../health.js")).default;
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("lists the provider's voices", () => {
+    const res = mockRes();
+    voices({ method: "GET", headers: {} }, res);
+    expect(res.body.provider).toBe("fake");
+    expect(res.body.voices.map((v) => v.id)).toEqual(["echo", "alloy"]);
+    expect(res.body.defaultVoiceId).toBe("echo");
+  });
+
+  it("synthesizes once and serves repeats from the cache", async () => {
+    const first = mockRes();
+    await tts(post({ text: "Halfway there.", voice: "alloy", speed: 1 }), first);
+    expect(first.statusCode).toBe(200);
+    expect(first.headers["content-type"]).toBe("audio/wav");
+    expect(first.headers["x-cache"]).toBe("MISS");
+
+    const second = mockRes();
+    await tts(post({ text: "Halfway there.", voice: "alloy", speed: 1 }), second);
+    expect(second.headers["x-cache"]).toBe("HIT");
+    expect(second.body.equals(first.body)).toBe(true);
+  });
+
+  it("serves GET requests with validators so browsers and the CDN can reuse them", async () => {
+    const query = { text: "Round 2 of 8.", voice: "echo", speed: "1.00" };
+    const first = mockRes();
+    await tts({ method: "GET", headers: {}, query }, first);
+    expect(first.statusCode).toBe(200);
+    expect(first.headers.etag).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(first.headers["cache-control"]).toMatch(/^public, max-age=\d+, s-maxage=\d+$/);
+
+    const revalidated = mockRes();
+    await tts({ method: "GET", headers: { "if-none-match": first.headers.etag }, query }, revalidated);
+    expect(revalidated.statusCode).toBe(304);
+    expect(revalidated.body).toBeUndefined();
+  });
+
+  it("rejects bad requests", async () => {
+    const empty = mockRes();
+    await tts(post({ text: "  " }), empty);
+    expect(empty.statusCode).toBe(400);
+    expect(empty.headers["cache-control"]).toBe("no-store");
+
+    const put = mockRes();
+    await tts({ method: "PUT", headers: {} }, put);
+    expect(put.statusCode).toBe(405);
+  });
+
+  it("answers a batch with one record per line", async () => {
+    const res = mockRes();
+    const lines = [
+      { key: "mid", text: "Halfway there." },
+      { key: "go", text: "Keep going." },
+      { key: "blank", text: " " },
+      { key: "long", text: "x".repeat(5000) },
+    ];
+    await ttsBatch(post({ lines, voice: "alloy", speed: 1 }), res);
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toBe("application/x-ndjson");
+    const records = Object.fromEntries(
+      res.body.trim().split("\n").map((line) => {
+        const record = JSON.parse(line);
+        return [record.key, record];
+      }),
+    );
+    expect(Object.keys(records).sort()).toEqual(["blank", "go", "long", "mid"]);
+    expect(records.mid).toMatchObject({ status: 200, cache: "HIT", contentType: "audio/wav" });
+    expect(records.go).toMatchObject({ status: 200, cache: "MISS" });
+    expect(Buffer.from(records.go.audio, "base64").subarray(0, 4).toString()).toBe("RIFF");
+    expect(records.blank).toMatchObject({ status: 400, error: "text is required" });
+    expect(records.long.error).toMatch(/exceeds \d+ characters/);
+
+    const tooMany = mockRes();
+    await ttsBatch(post({ lines: Array.from({ length: 33 }, (_, i) => ({ key: `${i}`, text: "Hi." })) }), tooMany);
+    expect(tooMany.statusCode).toBe(400);
+  });
+
+  it("answers 503 budget exhausted once the day's characters are spent", async () => {
+    const res = mockRes();
+    await tts(post({ text: "x".repeat(90), voice: "echo", speed: 1 }), res);
+    expect(res.statusCode).toBe(503);
+    expect(res.body).toMatchObject({ code: "budget_exhausted", reason: "daily" });
+    expect(Number(res.headers["retry-after"])).toBeGreaterThan(0);
+
+    // Clips already in the cache cost nothing and keep playing
+    const cached = mockRes();
+    await tts(post({ text: "Halfway there.", voice: "alloy", speed: 1 }), cached);
+    expect(cached.headers["x-cache"]).toBe("HIT");
+  });
+
+  it("reports unexpected failures as a generic 500", async () => {
+    const provider = (await import("./providers.js")).getTtsProvider();
+    const store = (await import("./synthesize.js")).getCacheStore(provider);
+    const spy = vi.spyOn(store, "get").mockRejectedValue(new Error("disk on fire"));
+    const res = mockRes();
+    await ttsBatch(post({ lines: [{ key: "a", text: "Almost done." }] }), res);
+    spy.mockRestore();
+    expect(JSON.parse(res.body)).toEqual({ key: "a", status: 500, error: "TTS request failed" });
+  });
+
+  it("still answers health when the budget totals can't be read", async () => {
+    const provider = (await import("./providers.js")).getTtsProvider();
+    const guard = (await import("./budget.js")).getBudgetGuard(provider.id);
+    const spy = vi.spyOn(guard, "totals").mockRejectedValue(new Error("blob store down"));
+    const res = mockRes();
+    await health({ method: "GET", headers: {} }, res);
+    spy.mockRestore();
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ ok: true, provider: "fake", budget: null });
+  });
+
+  it("counts every batch line against the /api/tts rate limit", async () => {
+    const lines = Array.from({ length: 32 }, (_, i) => ({ key: `${i}`, text: "Halfway there." }));
+    const statuses = [];
+    for (let i = 0; i < 4; i++) {
+      const res = mockRes();
+      await ttsBatch({ ...post({ lines, voice: "alloy", speed: 1 }), socket: { remoteAddress: "9.9.9.9" } }, res);
+      statuses.push(res.statusCode);
+    }
+    // 120 a minute per IP: three batches of 32 fit, the fourth doesn't
+    expect(statuses).toEqual([200, 200, 200, 429]);
+  });
+});
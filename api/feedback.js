@@ -1,4 +1,5 @@
 import { createClient } from "@supabase/supabase-js";
+import { checkAccessCode, enforceRateLimit } from "./_rateLimit.js";
 
 function parseJsonBody(req) {
   if (typeof req.body === "object" && req.body !== null) return req.body;
@@ -44,11 +45,12 @@ export default async function handler(req, res) {
     res.setHeader("Allow", "POST");
     return res.status(405).end();
   }
+  if (!(await enforceRateLimit("feedback", req, res))) return;
 
   const ACCESS_CODE = process.env.ACCESS_CODE || "";
   const gateEnabled = process.env.ACCESS_CODE_GATE !== "OFF";
-  if (gateEnabled && ACCESS_CODE && req.headers["x-access-code"] !== ACCESS_CODE) {
-    return res.status(401).end();
+  if (gateEnabled && ACCESS_CODE && !(await checkAccessCode(req, res, ACCESS_CODE, () => res.status(401).end()))) {
+    return;
   }
 
   const body = parseJsonBody(req) || {};
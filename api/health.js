@@ -1,9 +1,26 @@
-export default function handler(_req, res) {
+import { getBudgetGuard } from "./_tts/budget.js";
+import { getTtsProvider } from "./_tts/providers.js";
+
+// Characters synthesized today against the daily budgets, or null when the
+// budget store can't be read — health still answers then
+async function budgetTotals(providerId) {
+  try {
+    return await getBudgetGuard(providerId).totals();
+  } catch (err) {
+    console.error(JSON.stringify({ event: "health_budget_error", err: String(err), ts: Date.now() }));
+    return null;
+  }
+}
+
+export default async function handler(_req, res) {
+  const provider = getTtsProvider();
   res.setHeader("Cache-Control", "no-store");
   res.status(200).json({
     ok: true,
-    provider: "openai",
+    provider: provider.id,
     hasKey: Boolean(process.env.OPENAI_API_KEY),
+    configured: provider.configError() === null,
     gateEnabled: process.env.ACCESS_CODE_GATE !== "OFF",
+    budget: await budgetTotals(provider.id),
   });
 }
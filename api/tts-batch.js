@@ -0,0 +1,103 @@
+// Many lines in one request, for session prefetch: POST { lines: [{ key, text }],
+// voice, speed } answers with newline-delimited JSON (application/x-ndjson),
+// one record per line as soon as it is ready, in any order:
+//   { key, status: 200, cache, contentType, etag, audio }   audio is base64
+//   { key, status, error, ... }                            same body /api/tts would send
+// Each line goes through the same cache, budget and MAX_TEXT_CHARS check as
+// /api/tts, and counts as one /api/tts request against its rate limits. Lines
+// are synthesized as sent; the client pads short ones first.
+
+import { budgetExhaustedBody } from "./_tts/budget.js";
+import { checkAccessCode, enforceRateLimit } from "./_rateLimit.js";
+import { getTtsProvider } from "./_tts/providers.js";
+import { parseText, parseVoice, synthesizeLine } from "./_tts/synthesize.js";
+
+// Mirrored in src/ttsBatch.ts
+export const MAX_BATCH_LINES = 32;
+// Lines synthesized at the same time
+const BATCH_CONCURRENCY = 4;
+
+function parseJsonBody(req) {
+  if (typeof req.body === "object" && req.body !== null) return req.body;
+  if (typeof req.body === "string") {
+    try {
+      return JSON.parse(req.body);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+async function lineResult(provider, line, voice, speed, code) {
+  const key = typeof line?.key === "string" ? line.key : "";
+  const parsed = parseText(line?.text);
+  if (parsed.error) return { key, status: 400, error: parsed.error };
+  try {
+    const { entry, cacheStatus } = await synthesizeLine(provider, { text: parsed.text, voice, speed, code });
+    return {
+      key,
+      status: 200,
+      cache: cacheStatus,
+      contentType: entry.contentType,
+      etag: entry.etag,
+      audio: entry.buffer.toString("base64"),
+    };
+  } catch (err) {
+    if (err.exhausted) return { key, status: 503, ...budgetExhaustedBody(err.exhausted) };
+    if (Number.isInteger(err?.status)) return { key, status: err.status, error: err.message, detail: err.detail };
+    // Not a ttsError: a bug or a store failure, nothing to pass on to the client
+    console.error(JSON.stringify({ event: "tts_batch_error", err: String(err), ts: Date.now() }));
+    return { key, status: 500, error: "TTS request failed" };
+  }
+}
+
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+  res.setHeader("Cache-Control", "no-store");
+  const body = parseJsonBody(req) || {};
+  const lines = Array.isArray(body.lines) ? body.lines : [];
+  // Every line is a /api/tts request as far as the limits go
+  const cost = Math.max(1, Math.min(lines.length, MAX_BATCH_LINES));
+  if (!(await enforceRateLimit("tts", req, res, { cost }))) return;
+
+  // Access code gate — same as /api/tts
+  const ACCESS_CODE = process.env.ACCESS_CODE || "";
+  const gateEnabled = process.env.ACCESS_CODE_GATE !== "OFF";
+  if (gateEnabled && ACCESS_CODE) {
+    const valid = await checkAccessCode(req, res, ACCESS_CODE, () =>
+      res.status(401).json({ error: "Invalid or missing access code" }),
+    );
+    if (!valid) return;
+  }
+
+  const provider = getTtsProvider();
+  const configError = provider.configError();
+  if (configError) {
+    return res.status(500).json({ error: configError });
+  }
+
+  if (!lines.length) {
+    return res.status(400).json({ error: "lines is required" });
+  }
+  if (lines.length > MAX_BATCH_LINES) {
+    return res.status(400).json({ error: `lines exceeds ${MAX_BATCH_LINES} entries` });
+  }
+  const { voice, speed } = parseVoice(body);
+  const code = String(req.headers["x-access-code"] || "");
+
+  res.setHeader("Content-Type", "application/x-ndjson");
+  res.status(200);
+  let next = 0;
+  async function worker() {
+    while (next < lines.length) {
+      const line = lines[next++];
+      res.write(`${JSON.stringify(await lineResult(provider, line, voice, speed, code))}\n`);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, lines.length) }, worker));
+  return res.end();
+}
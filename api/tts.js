@@ -1,48 +1,7 @@
-import crypto from "node:crypto";
-import {
-  CURATED_VOICES,
-  DEFAULT_VOICE_ID,
-  SPEED_MAX,
-  SPEED_MIN,
-} from "./_config.js";
-
-const VALID_VOICE_IDS = new Set(CURATED_VOICES.map((v) => v.id));
-
-const OPENAI_TTS_URL = "https://api.openai.com/v1/audio/speech";
-const MAX_TEXT_CHARS = Number(process.env.MAX_TEXT_CHARS || 4096);
-const CACHE_TTL_MS = Number(process.env.TTS_CACHE_TTL_MS || 7 * 24 * 60 * 60 * 1000);
-const CACHE_MAX_ENTRIES = Number(process.env.TTS_CACHE_MAX_ENTRIES || 500);
-
-const cache = new Map();
-
-function clamp(n, min, max) {
-  const x = Number.isFinite(n) ? n : min;
-  return Math.max(min, Math.min(max, x));
-}
-
-function getCache(key) {
-  const entry = cache.get(key);
-  if (!entry) return null;
-  if (entry.expiresAt <= Date.now()) {
-    cache.delete(key);
-    return null;
-  }
-  cache.delete(key);
-  cache.set(key, entry);
-  return entry;
-}
-
-function setCache(key, entry) {
-  cache.set(key, entry);
-  if (cache.size <= CACHE_MAX_ENTRIES) return;
-  const firstKey = cache.keys().next().value;
-  if (firstKey) cache.delete(firstKey);
-}
-
-function makeCacheKey(text, voice, speed) {
-  const raw = `${voice}|${speed.toFixed(2)}|${text}`;
-  return crypto.createHash("sha256").update(raw).digest("hex");
-}
+import { sendBudgetExhausted } from "./_tts/budget.js";
+import { checkAccessCode, enforceRateLimit } from "./_rateLimit.js";
+import { getTtsProvider } from "./_tts/providers.js";
+import { parseText, parseVoice, synthesizeLine } from "./_tts/synthesize.js";
 
 function parseJsonBody(req) {
   if (typeof req.body === "object" && req.body !== null) return req.body;
@@ -56,79 +15,70 @@ function parseJsonBody(req) {
   return null;
 }
 
+// GET carries the line in the query string so browsers and the CDN can cache
+// the clip by URL; POST (for long text) takes a JSON body
+function parseParams(req) {
+  if (req.method === "POST") return parseJsonBody(req) || {};
+  if (req.query) return req.query;
+  return Object.fromEntries(new URL(req.url || "/", "http://localhost").searchParams);
+}
+
+// Clips for the same input are interchangeable until the entry expires, so
+// caches may keep them that long; If-None-Match revalidates for free.
+function sendClip(req, res, entry, cacheStatus) {
+  const maxAge = Math.max(0, Math.floor((entry.expiresAt - Date.now()) / 1000));
+  res.setHeader("Cache-Control", `public, max-age=${maxAge}, s-maxage=${maxAge}`);
+  res.setHeader("ETag", entry.etag);
+  res.setHeader("X-Cache", cacheStatus);
+  const ifNoneMatch = req.headers["if-none-match"] || "";
+  if (ifNoneMatch.split(",").some((tag) => tag.trim() === entry.etag || tag.trim() === "*")) {
+    return res.status(304).end();
+  }
+  res.setHeader("Content-Type", entry.contentType);
+  return res.status(200).send(entry.buffer);
+}
+
 export default async function handler(req, res) {
-  if (req.method !== "POST") {
-    res.setHeader("Allow", "POST");
+  if (req.method !== "POST" && req.method !== "GET") {
+    res.setHeader("Allow", "GET, POST");
     return res.status(405).json({ error: "Method not allowed" });
   }
+  // Errors are never cached; clips set their own Cache-Control in sendClip
+  res.setHeader("Cache-Control", "no-store");
+  if (!(await enforceRateLimit("tts", req, res))) return;
 
-  // Access code gate — protect against unauthorized OpenAI spend
+  // Access code gate — protect against unauthorized TTS spend
   const ACCESS_CODE = process.env.ACCESS_CODE || "";
   const gateEnabled = process.env.ACCESS_CODE_GATE !== "OFF";
   if (gateEnabled && ACCESS_CODE) {
-    const provided = req.headers["x-access-code"] || "";
-    if (provided !== ACCESS_CODE) {
-      return res.status(401).json({ error: "Invalid or missing access code" });
-    }
+    const valid = await checkAccessCode(req, res, ACCESS_CODE, () =>
+      res.status(401).json({ error: "Invalid or missing access code" }),
+    );
+    if (!valid) return;
   }
 
-  const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
-  if (!OPENAI_API_KEY) {
-    return res.status(500).json({ error: "OPENAI_API_KEY is not set" });
+  const provider = getTtsProvider();
+  const configError = provider.configError();
+  if (configError) {
+    return res.status(500).json({ error: configError });
   }
 
-  const body = parseJsonBody(req) || {};
-  const text = typeof body.text === "string" ? body.text.trim() : "";
-  if (!text) {
-    return res.status(400).json({ error: "text is required" });
+  const body = parseParams(req);
+  const parsed = parseText(body.text);
+  if (parsed.error) {
+    return res.status(400).json({ error: parsed.error });
   }
-  if (text.length > MAX_TEXT_CHARS) {
-    return res.status(400).json({ error: `text exceeds ${MAX_TEXT_CHARS} characters` });
-  }
-
-  const requestedVoice = typeof body.voice === "string" ? body.voice : DEFAULT_VOICE_ID;
-  const voice = VALID_VOICE_IDS.has(requestedVoice) ? requestedVoice : DEFAULT_VOICE_ID;
-  const speed = clamp(Number(body.speed), SPEED_MIN, SPEED_MAX);
-
-  const cacheKey = makeCacheKey(text, voice, speed);
-  const cached = getCache(cacheKey);
-  if (cached) {
-    console.log(JSON.stringify({ event: "tts", cache: "HIT", chars: text.length, voice, ts: Date.now() }));
-    res.setHeader("Content-Type", cached.contentType);
-    res.setHeader("X-Cache", "HIT");
-    return res.status(200).send(cached.buffer);
+  const { voice, speed } = parseVoice(body);
+  const code = String(req.headers["x-access-code"] || "");
+
+  try {
+    const { entry, cacheStatus } = await synthesizeLine(provider, { text: parsed.text, voice, speed, code });
+    return sendClip(req, res, entry, cacheStatus);
+  } catch (err) {
+    if (err.exhausted) return sendBudgetExhausted(res, err.exhausted);
+    if (Number.isInteger(err?.status)) return res.status(err.status).json({ error: err.message, detail: err.detail });
+    // Not a ttsError: a bug or a store failure, nothing to pass on to the client
+    console.error(JSON.stringify({ event: "tts_error", err: String(err), ts: Date.now() }));
+    return res.status(500).json({ error: "TTS request failed" });
   }
-
-  const payload = {
-    model: "tts-1",
-    input: text,
-    voice: voice,
-    speed: speed,
-    response_format: "mp3",
-  };
-
-  const openaiRes = await fetch(OPENAI_TTS_URL, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!openaiRes.ok) {
-    const detail = await openaiRes.text();
-    console.log(JSON.stringify({ event: "tts", cache: "ERROR", chars: text.length, voice, status: openaiRes.status, ts: Date.now() }));
-    return res.status(openaiRes.status).json({ error: "OpenAI request failed", detail: detail.slice(0, 800) });
-  }
-
-  const contentType = openaiRes.headers.get("content-type") || "audio/mpeg";
-  const arrayBuffer = await openaiRes.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-
-  setCache(cacheKey, { buffer, contentType, expiresAt: Date.now() + CACHE_TTL_MS });
-  console.log(JSON.stringify({ event: "tts", cache: "MISS", chars: text.length, voice, ts: Date.now() }));
-  res.setHeader("Content-Type", contentType);
-  res.setHeader("X-Cache", "MISS");
-  return res.status(200).send(buffer);
 }
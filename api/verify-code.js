@@ -1,4 +1,6 @@
-export default function handler(req, res) {
+import { checkAccessCode, enforceRateLimit } from "./_rateLimit.js";
+
+export default async function handler(req, res) {
   if (req.method !== "POST") {
     res.setHeader("Allow", "POST");
     return res.status(405).json({ error: "Method not allowed" });
@@ -15,10 +17,12 @@ export default function handler(req, res) {
     return res.status(200).json({ ok: true });
   }
 
-  const provided = req.headers["x-access-code"] || "";
-  if (provided !== ACCESS_CODE) {
-    return res.status(401).json({ error: "Invalid access code" });
-  }
+  if (!(await enforceRateLimit("verify-code", req, res))) return;
+
+  const valid = await checkAccessCode(req, res, ACCESS_CODE, () =>
+    res.status(401).json({ error: "Invalid access code" }),
+  );
+  if (!valid) return;
 
   return res.status(200).json({ ok: true });
 }
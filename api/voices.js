@@ -6,10 +6,12 @@
   SPEED_MIN,
   SPEED_STEP,
 } from "./_config.js";
+import { getTtsProvider } from "./_tts/providers.js";
 
 export default function handler(_req, res) {
   res.setHeader("Cache-Control", "no-store");
   res.status(200).json({
+    provider: getTtsProvider().id,
     defaultVoiceId: DEFAULT_VOICE_ID,
     speed: { min: SPEED_MIN, max: SPEED_MAX, step: SPEED_STEP, recommended: SPEED_DEFAULT },
     voices: CURATED_VOICES,
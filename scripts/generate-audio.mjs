@@ -5,8 +5,10 @@
  * Usage:
  *   OPENAI_API_KEY=sk-... node scripts/generate-audio.mjs
  *
- * Outputs ~116 MP3 files into public/audio/{voice}-{speed}/
- * plus a manifest.json mapping text → hash.
+ * Outputs ~220 MP3 files into public/audio/{voice}-{speed}/
+ * plus a manifest.json mapping text → hash, and refreshes
+ * public/audio/index.json (the list of generated sets). Clips that already
+ * exist are skipped, so after adding lines a run only pays for the new ones.
  */
 
 import crypto from "node:crypto";
@@ -146,6 +148,17 @@ function padShortUtterance(text) {
   return result;
 }
 
+const MILESTONE_BANK = [
+  "25 percent done. Your knee is warming up and responding - great pace.",
+  "Halfway there. This is where real recovery happens - stay steady.",
+  "Three quarters done. You're pushing through the toughest part - incredible work.",
+  "Ninety percent done. This final stretch is where your knee gains the most - finish strong.",
+  "Nice work so far. Keep your breathing slow and your movements steady.",
+  "Check your form. Smooth, controlled movements - that's how the knee heals.",
+  "You're doing great. Stay with it, every rep counts today.",
+  "Almost there. Dig in and finish this session strong.",
+];
+
 const START_BANK = [
   "Ok, let's get started. Let's make this effort count.",
   "Ok, it is knee healing time, let's get started.",
@@ -188,11 +201,24 @@ function computeMilestones(totalSeconds) {
   ];
 }
 
+// Number words for time announcements — see numberWord in src/timeAnnouncements.ts
+const ANNOUNCE_MAX_MINUTES = 60;
+const ONES = [
+  "", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen",
+];
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty"];
+
+function numberWord(n) {
+  const word = n < 20 ? ONES[n] : TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : "");
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
 // ---------------------------------------------------------------------------
 // Collect all unique texts
 // ---------------------------------------------------------------------------
 
-function collectAllTexts() {
+export function collectAllTexts() {
   const activity = "physio";
   const textSet = new Map(); // text → description (for manifest)
 
@@ -206,15 +232,10 @@ function collectAllTexts() {
     textSet.set(padShortUtterance(CONGRATS_BANK[i]), `congrats-${i}`);
   }
 
-  // Milestone texts (same for all durations)
-  const milestoneTexts = [
-    "25 percent done. Your knee is warming up and responding - great pace.",
-    "Halfway there. This is where real recovery happens - stay steady.",
-    "Three quarters done. You're pushing through the toughest part - incredible work.",
-    "Ninety percent done. This final stretch is where your knee gains the most - finish strong.",
-  ];
-  for (const mt of milestoneTexts) {
-    textSet.set(padShortUtterance(mt), "milestone");
+  // Milestone bank (same for all durations). Custom milestone text typed by
+  // the user can't be known here and is fetched from the API instead.
+  for (let i = 0; i < MILESTONE_BANK.length; i++) {
+    textSet.set(padShortUtterance(MILESTONE_BANK[i]), `milestone-${i}`);
   }
 
   // All motivation lines
@@ -223,14 +244,40 @@ function collectAllTexts() {
     textSet.set(padShortUtterance(line), `motivation-${i}`);
   }
 
+  // Rep cadence phase cues (spoken unpadded — see PHASE_LINES in src/cadence.ts)
+  textSet.set("Bend and hold.", "phase-hold");
+  textSet.set("Release.", "phase-release");
+
+  // Interval announcements for the default 8-round workout (spoken unpadded —
+  // see buildRoundLine in src/ttsUtils.ts); other round counts use the API
+  textSet.set("Rest.", "interval-rest");
+  for (let round = 2; round <= 8; round++) {
+    textSet.set(`Round ${round} of 8.`, `interval-round-${round}`);
+  }
+
+  // Prep guidance and countdown numbers (see src/countdown.ts); the numbers
+  // and "Go!" are spoken unpadded
+  textSet.set(
+    padShortUtterance("Get into position. Sit tall with your leg supported, relax your shoulders, and breathe out slowly."),
+    "prep-guidance",
+  );
+  const COUNT_LINES = ["One.", "Two.", "Three.", "Four.", "Five.", "Six.", "Seven.", "Eight.", "Nine.", "Ten."];
+  COUNT_LINES.forEach((line, i) => textSet.set(line, `count-${i + 1}`));
+  textSet.set("Go!", "count-go");
+
+  // Time announcement clips, joined on the client into "Five minutes left." and
+  // the like (see src/timeAnnouncements.ts); all spoken unpadded
+  for (let n = 1; n <= ANNOUNCE_MAX_MINUTES; n++) textSet.set(numberWord(n), `number-${n}`);
+  for (const word of ["minute", "minutes", "left.", "done."]) textSet.set(word, `time-${word.replace(".", "")}`);
+
   return textSet;
 }
 
 // ---------------------------------------------------------------------------
-// Cache key = SHA-256 of "voice|speed|text" (same as api/tts.js)
+// Cache key = SHA-256 of "voice|speed|text" (same as api/_tts/cache.js)
 // ---------------------------------------------------------------------------
 
-function makeCacheKey(text, voice, speed) {
+export function makeCacheKey(text, voice, speed) {
   const raw = `${voice}|${speed.toFixed(2)}|${text}`;
   return crypto.createHash("sha256").update(raw).digest("hex");
 }
@@ -265,6 +312,31 @@ async function generateAudio(text, voice, speed, apiKey) {
   return Buffer.from(await res.arrayBuffer());
 }
 
+// ---------------------------------------------------------------------------
+// Set index: public/audio/index.json lists every voice/speed set so the
+// client can steer users to fully pre-generated combinations
+// (see src/staticAudio.ts)
+// ---------------------------------------------------------------------------
+
+export function audioIndex(audioRoot) {
+  const sets = [];
+  for (const dir of fs.readdirSync(audioRoot).sort()) {
+    const manifestPath = path.join(audioRoot, dir, "manifest.json");
+    const match = /^(.+)-(\d+\.\d{2})$/.exec(dir);
+    if (!match || !fs.existsSync(manifestPath)) continue;
+    const clips = Object.keys(JSON.parse(fs.readFileSync(manifestPath, "utf8"))).length;
+    sets.push({ voice: match[1], speed: Number(match[2]), clips });
+  }
+  return { sets };
+}
+
+function writeAudioIndex() {
+  const audioRoot = path.join(ROOT, "public", "audio");
+  const indexPath = path.join(audioRoot, "index.json");
+  fs.writeFileSync(indexPath, JSON.stringify(audioIndex(audioRoot), null, 2) + "\n");
+  return indexPath;
+}
+
 // ---------------------------------------------------------------------------
 // Main
 // ---------------------------------------------------------------------------
@@ -332,6 +404,8 @@ async function main() {
   console.log(`  Total chars sent to API: ${totalChars}`);
   console.log(`  Estimated cost: $${((totalChars / 1_000_000) * 15).toFixed(4)}`);
   console.log(`  Manifest: ${manifestPath}`);
+  console.log(`  Set index: ${writeAudioIndex()}`);
 }
 
-main();
+// Only when run as a script; the tests import the text list
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) main();
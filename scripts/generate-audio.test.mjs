@@ -0,0 +1,42 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { PHASE_LINES } from "../src/cadence";
+import { COUNT_LINES, GO_LINE, PREP_GUIDANCE_LINE } from "../src/countdown";
+import { coverageLines } from "../src/staticAudio";
+import { timeAnnouncementClipTexts } from "../src/timeAnnouncements";
+import { padShortUtterance } from "../src/ttsUtils";
+import { audioIndex, collectAllTexts, makeCacheKey } from "./generate-audio.mjs";
+
+const AUDIO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "public", "audio");
+
+function readJson(file) {
+  return JSON.parse(fs.readFileSync(path.join(AUDIO_ROOT, file), "utf8"));
+}
+
+// The generator re-implements the app's line lists; these keep the two in step
+describe("generate-audio", () => {
+  const texts = collectAllTexts();
+
+  it("generates the countdown and phase clips the app speaks unpadded", () => {
+    for (const line of [...COUNT_LINES, GO_LINE, PHASE_LINES.hold, PHASE_LINES.release]) {
+      expect(texts.has(line), line).toBe(true);
+    }
+    expect(texts.has(padShortUtterance(PREP_GUIDANCE_LINE))).toBe(true);
+  });
+
+  it("generates every clip time announcements are stitched from", () => {
+    for (const text of timeAnnouncementClipTexts()) expect(texts.has(text), text).toBe(true);
+  });
+
+  it("generates every line static coverage is measured against", () => {
+    for (const line of coverageLines("physio")) expect(texts.has(line), line).toBe(true);
+  });
+
+  it("ships an index that matches the set manifests, with no clips the generator dropped", () => {
+    expect(readJson("index.json")).toEqual(audioIndex(AUDIO_ROOT));
+    const hashes = new Set([...texts.keys()].map((text) => makeCacheKey(text, "echo", 1)));
+    for (const hash of Object.keys(readJson("echo-1.00/manifest.json"))) expect(hashes.has(hash), hash).toBe(true);
+  });
+});
@@ -3,30 +3,182 @@
 // Features:
 // - Single timer at a time
 // - Duration set in whole minutes only
-// - Speaks a motivational line every 30 seconds
+// - Speaks a motivational line every 30 seconds (configurable)
 // - Speaks the user's name once at the start
 // - Congratulates the user at the end
-// - Milestone callouts at 25%, 50%, 75%, 90%
+// - Milestone callouts at 25%, 50%, 75%, 90% — or a user-defined schedule
+// - Multi-exercise routines with rest segments and spoken transitions
+// - Rep-and-hold cadence mode with voice or tone cues per rep
+// - Interval mode: rounds of work and rest with spoken round announcements
+// - Named presets saved locally; the last-used one restores on launch
+// - A session interrupted by a reload or crash can be resumed where it stopped
+// - Coaching cadence (15s/30s/60s) with optional jitter and quiet windows
+// - Spoken prep guidance and "3, 2, 1, go"; optional last-10-seconds countdown
+// - Installable PWA: app shell and static coaching audio cached for offline use
+// - Falls back to the device's own speech voice when cloud coaching keeps failing
+// - Synthesized lines are kept on the device (IndexedDB) across reloads
+// - Static clips are looked up in each set's manifest, so missing ones go straight to the API
+// - Other speeds can time-stretch the pre-generated clips instead of paying for new audio
+// - Lines queue by priority (milestones before motivation) instead of cutting each other off
+// - Background music: bundled tracks or your own uploads, shuffle/loop and mix sliders
+// - One Web Audio mixer: voice/music/cue buses, master limiter, loudness-matched voice clips
+// - Lock-screen and headset controls (Media Session): time left, pause/resume/stop
+// - Optional "Five minutes left" / "done" announcements stitched from static number clips
 // ---------------------------------------------------------------
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { trackEvent } from "./analytics";
 import {
-  DEFAULT_MINUTES,
   MOTIVATION_BANK,
   buildCongratsLine,
-  buildMotivationLine,
-  buildPrefetchLines,
   buildStartLine,
   clampFloat,
   clampInt,
+  DEFAULT_MILESTONE_SPECS,
+  MILESTONES_MAX,
+  MILESTONE_BANK,
+  MILESTONE_TEXT_MAX,
   computeMilestones,
+  createMilestoneSpec,
   formatMMSS,
   padShortUtterance,
+  normalizeMilestoneSpec,
   shuffleArray,
+  type MilestoneSpec,
   type PrefetchLine,
 } from "./ttsUtils";
+import {
+  buildSessionLines,
+  createSessionEngine,
+  type SessionEvent,
+  type SessionListener,
+  type SessionPlan,
+  type SessionState,
+} from "./sessionEngine";
+import {
+  SESSION_RECOVERY_VERSION,
+  buildResumePrompt,
+  clearSavedSession,
+  isSavedSessionStale,
+  loadSavedSession,
+  persistSavedSession,
+  savedSessionCompletionPct,
+  type SavedSession,
+} from "./sessionRecovery";
+import {
+  ROUTINE_MAX_SEGMENTS,
+  SEGMENT_MAX_SECONDS,
+  SEGMENT_MIN_SECONDS,
+  createSegment,
+  normalizeSegment,
+  routineTotalSeconds,
+  segmentAt,
+  type RoutineSegment,
+} from "./routine";
+import {
+  cadenceAt,
+  cadenceTotalSeconds,
+  normalizeCadence,
+  type CadenceConfig,
+  type PhaseCueStyle,
+} from "./cadence";
+import {
+  intervalAt,
+  intervalRounds,
+  intervalTotalSeconds,
+  normalizeIntervals,
+  type IntervalConfig,
+} from "./intervals";
+import { GO_LINE, buildCountdownPrefetchLines } from "./countdown";
+import { createSpeechQueue, type SpeakItem, type SpeechKind } from "./speechQueue";
+import {
+  ANNOUNCE_EVERY_OPTIONS,
+  TIME_ANNOUNCEMENT_MODES,
+  encodeWav,
+  stitchClips,
+  type TimeAnnouncementMode,
+  type TimeAnnouncementSettings,
+} from "./timeAnnouncements";
+import {
+  createAudioCache,
+  createMemoryAudioCacheStore,
+  formatBytes,
+  openIndexedDbAudioCacheStore,
+  ttsCacheKey,
+  type AudioCache,
+  type AudioCacheStats,
+} from "./audioCache";
+import {
+  coverageLines,
+  coveragePct,
+  createStaticAudioIndex,
+  describeCoverage,
+  describeSpeedChange,
+  SPEED_MODES,
+  type SpeedMode,
+  type StaticAudioSet,
+} from "./staticAudio";
+import { base64ToBytes, chunkBatchLines, isBatchClip, readBatchResults, type TtsBatchLine } from "./ttsBatch";
+import {
+  budgetExhaustedUntil,
+  describeSpeechTier,
+  deviceSpeechRate,
+  nextSpeechTier,
+  pickLocalVoice,
+  selectableLocalVoices,
+  type SpeechTier,
+} from "./speechFallback";
+import {
+  describeOfflineStatus,
+  registerServiceWorker,
+  requestAudioPrecache,
+  type PrecacheProgress,
+} from "./offline";
+import {
+  COACHING_INTERVAL_OPTIONS,
+  COACHING_JITTER_OPTIONS,
+  QUIET_WINDOWS_MAX,
+  normalizeCoaching,
+  type CoachingCadence,
+} from "./coaching";
+import {
+  PRESET_NAME_MAX,
+  defaultPresetSettings,
+  deletePreset,
+  lastUsedPreset,
+  loadPresetStore,
+  markPresetUsed,
+  persistPresetStore,
+  savePreset,
+  type Preset,
+  type PresetSettings,
+  type PresetStore,
+  type TimerMode,
+} from "./presets";
+import { createMixer, type DuckingSettings, type Mixer } from "./mixer";
+import { bindMediaSessionActions, updateMediaSession, type MediaSessionHandlers } from "./mediaSession";
+import {
+  DUCK_DEPTH_MAX_DB,
+  DUCK_RAMP_RANGE,
+  MUSIC_LEVEL_STEP,
+  MUSIC_OFF,
+  RESTORE_RAMP_RANGE,
+  createMemoryMusicStore,
+  createUserTrack,
+  duckedLevel,
+  isUserTrackId,
+  musicDucking,
+  nextTrackId,
+  openIndexedDbMusicStore,
+  resolveTrackId,
+  validateUpload,
+  type MusicSettings,
+  type MusicStore,
+  type MusicTrack,
+  type UserTrack,
+} from "./music";
 import backMusicUrl from "./assets/backmusic-x.mp3";
+import originalMusicUrl from "./assets/backmusic.mp3";
 import {
   cameraErrorMessage,
   createRecorder,
@@ -35,26 +187,39 @@ import {
   requestCamera,
 } from "./cameraUtils";
 
-type TtsMode = "kokoro";
+// Audio for one line; playbackRate is not 1 when a static clip is time-stretched
+type TtsClip = { blob: Blob; playbackRate: number };
 
 const DEFAULT_VOICE_ID = "echo";
-const SPEED_DEFAULT = 1;
+// Longest /api/tts GET URL; longer lines are POSTed
+const TTS_GET_URL_MAX = 2000;
+// Error message for a line /api/tts won't synthesize until its budget resets
+const TTS_BUDGET_EXHAUSTED = "TTS budget exhausted";
 const SPEED_MIN = 0.8;
 const SPEED_MAX = 1.2;
 const SPEED_STEP = 0.05;
-const DUCK_VOLUME = 0.05;
-const NORMAL_VOLUME = 0.4;
+// Bundled background tracks; uploads join them in the music picker
+const BUNDLED_TRACKS: (MusicTrack & { url: string })[] = [
+  { id: "default", label: "Default mix", url: backMusicUrl },
+  { id: "original", label: "Original mix", url: originalMusicUrl },
+];
+// Display refresh rate — timing itself comes from the wall clock
+const TICK_MS = 250;
 
 // Access code key in localStorage
 const ACCESS_CODE_KEY = "knee-timer-access-code";
 
-// Browser-compatible SHA-256 hash (matches api/tts.js cache key format)
-async function sha256Hex(input: string): Promise<string> {
-  const encoded = new TextEncoder().encode(input);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", encoded);
-  return Array.from(new Uint8Array(hashBuffer))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
+// For the static audio index: null when there is no such file (a 404, or the
+// dev server's HTML fallback), a rejection when the network failed
+async function fetchJson(url: string): Promise<unknown | null> {
+  const res = await fetch(url);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`${url} failed (${res.status})`);
+  try {
+    return await res.json();
+  } catch {
+    return null;
+  }
 }
 
 // iOS requires audio elements to be created and "unlocked" during user gesture for full volume playback.
@@ -70,15 +235,36 @@ function getSharedTtsAudio(): HTMLAudioElement {
   return sharedTtsAudio;
 }
 
+// One mixer for the page's lifetime: a media element can only ever be
+// attached to one AudioContext, and the shared TTS element is. Created on
+// first use inside a user gesture, since iOS only starts a context from one.
+let sharedMixer: Mixer | null = null;
+
+function getMixer(ducking: DuckingSettings): Mixer | null {
+  if (sharedMixer) return sharedMixer;
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return null;
+  sharedMixer = createMixer(new AudioContextClass(), ducking);
+  sharedMixer.connect(getSharedTtsAudio(), "voice");
+  return sharedMixer;
+}
+
 // ---- Circular Progress Ring Component ----
+// The optional inner ring shows progress through the current routine segment.
+// With rounds (work periods as fractions of the session) the outer ring is
+// split into one arc per round, and rests show up as gaps.
 function ProgressRing({
   progress,
+  segmentProgress,
+  rounds,
   size = 280,
   strokeWidth = 8,
   isRunning,
   isFinished,
 }: {
   progress: number;
+  segmentProgress?: number;
+  rounds?: { start: number; end: number }[];
   size?: number;
   strokeWidth?: number;
   isRunning: boolean;
@@ -87,10 +273,14 @@ function ProgressRing({
   const radius = (size - strokeWidth) / 2;
   const circumference = 2 * Math.PI * radius;
   const offset = circumference * (1 - progress);
+  const innerRadius = radius - strokeWidth * 2.5;
+  const innerCircumference = 2 * Math.PI * innerRadius;
 
   const strokeColor = isFinished
     ? "var(--color-warmsuccess)"
     : "var(--color-warmgold)";
+  // Keep a visible gap between rounds even when there is no rest
+  const roundGap = rounds && rounds.length > 1 ? strokeWidth * 1.5 : 0;
 
   return (
     <svg
@@ -98,49 +288,656 @@ function ProgressRing({
       height={size}
       className={`-rotate-90 ${isRunning && !isFinished ? "animate-breathe-ring" : ""}`}
     >
-      {/* Track */}
-      <circle
-        cx={size / 2}
-        cy={size / 2}
-        r={radius}
-        className="progress-ring-track"
-        strokeWidth={strokeWidth}
-      />
-      {/* Fill */}
-      <circle
-        cx={size / 2}
-        cy={size / 2}
-        r={radius}
-        className="progress-ring-fill"
-        strokeWidth={strokeWidth + 1}
-        stroke={strokeColor}
-        strokeDasharray={circumference}
-        strokeDashoffset={offset}
-      />
+      {rounds ? (
+        rounds.map((round, i) => {
+          const length = Math.max(0, (round.end - round.start) * circumference - roundGap);
+          const filled = Math.min(length, Math.max(0, (progress - round.start) * circumference));
+          return (
+            <g key={i}>
+              <circle
+                cx={size / 2}
+                cy={size / 2}
+                r={radius}
+                className="progress-ring-track"
+                strokeWidth={strokeWidth}
+                strokeDasharray={`${length} ${circumference}`}
+                strokeDashoffset={-round.start * circumference}
+              />
+              {filled > 0 && (
+                <circle
+                  cx={size / 2}
+                  cy={size / 2}
+                  r={radius}
+                  className="progress-ring-fill"
+                  strokeWidth={strokeWidth + 1}
+                  stroke={strokeColor}
+                  strokeDasharray={`${filled} ${circumference}`}
+                  strokeDashoffset={-round.start * circumference}
+                />
+              )}
+            </g>
+          );
+        })
+      ) : (
+        <>
+          {/* Track */}
+          <circle
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            className="progress-ring-track"
+            strokeWidth={strokeWidth}
+          />
+          {/* Fill */}
+          <circle
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            className="progress-ring-fill"
+            strokeWidth={strokeWidth + 1}
+            stroke={strokeColor}
+            strokeDasharray={circumference}
+            strokeDashoffset={offset}
+          />
+        </>
+      )}
+      {segmentProgress != null && !isFinished && (
+        <>
+          <circle
+            cx={size / 2}
+            cy={size / 2}
+            r={innerRadius}
+            className="progress-ring-track"
+            strokeWidth={strokeWidth / 2}
+          />
+          <circle
+            cx={size / 2}
+            cy={size / 2}
+            r={innerRadius}
+            className="progress-ring-fill"
+            strokeWidth={strokeWidth / 2}
+            stroke="var(--color-warmamber)"
+            strokeDasharray={innerCircumference}
+            strokeDashoffset={innerCircumference * (1 - segmentProgress)}
+          />
+        </>
+      )}
     </svg>
   );
 }
 
+// ---- Cadence Settings Component ----
+const CADENCE_FIELDS = [
+  { key: "reps", label: "Reps", min: 1, max: 50 },
+  { key: "holdSeconds", label: "Hold (s)", min: 1, max: 60 },
+  { key: "releaseSeconds", label: "Release (s)", min: 1, max: 60 },
+  { key: "sets", label: "Sets", min: 1, max: 10 },
+  { key: "setRestSeconds", label: "Set rest (s)", min: 0, max: 300 },
+] as const;
+
+function CadenceSettings({
+  cadence,
+  onChange,
+  cueStyle,
+  onCueStyleChange,
+}: {
+  cadence: CadenceConfig;
+  onChange: (cadence: CadenceConfig) => void;
+  cueStyle: PhaseCueStyle;
+  onCueStyleChange: (style: PhaseCueStyle) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+        {CADENCE_FIELDS.map((f) => (
+          <label key={f.key}>
+            <div className="text-xs text-warmmuted mb-1">{f.label}</div>
+            <input
+              type="number"
+              min={f.min}
+              max={f.max}
+              step={1}
+              inputMode="numeric"
+              className="input-warm w-full text-sm"
+              value={cadence[f.key]}
+              onChange={(e) => onChange({ ...cadence, [f.key]: parseInt(e.target.value, 10) || 0 })}
+              onBlur={() => onChange(normalizeCadence(cadence))}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-warmmuted">Rep cues</span>
+        <div className="flex rounded-xl overflow-hidden border border-warmborder">
+          {([
+            { val: "voice", label: "Voice" },
+            { val: "tone", label: "Tone" },
+          ] as const).map((opt) => (
+            <button
+              key={opt.val}
+              className={`wait-btn !px-3 ${cueStyle === opt.val ? "active" : ""}`}
+              onClick={() => onCueStyleChange(opt.val)}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <span className="ml-auto text-xs text-warmmuted">Total {formatMMSS(cadenceTotalSeconds(cadence))}</span>
+      </div>
+    </div>
+  );
+}
+
+// ---- Interval Settings Component ----
+const INTERVAL_FIELDS = [
+  { key: "rounds", label: "Rounds", min: 1, max: 30 },
+  { key: "workSeconds", label: "Work (s)", min: 5, max: 600 },
+  { key: "restSeconds", label: "Rest (s)", min: 0, max: 300 },
+] as const;
+
+function IntervalSettings({
+  intervals,
+  onChange,
+}: {
+  intervals: IntervalConfig;
+  onChange: (intervals: IntervalConfig) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {INTERVAL_FIELDS.map((f) => (
+          <label key={f.key}>
+            <div className="text-xs text-warmmuted mb-1">{f.label}</div>
+            <input
+              type="number"
+              min={f.min}
+              max={f.max}
+              step={f.key === "rounds" ? 1 : 5}
+              inputMode="numeric"
+              className="input-warm w-full text-sm"
+              value={intervals[f.key]}
+              onChange={(e) => onChange({ ...intervals, [f.key]: parseInt(e.target.value, 10) || 0 })}
+              onBlur={() => onChange(normalizeIntervals(intervals))}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="text-right text-xs text-warmmuted">Total {formatMMSS(intervalTotalSeconds(intervals))}</div>
+    </div>
+  );
+}
+
+// ---- Milestone Editor Component ----
+function MilestoneEditor({
+  milestones,
+  onChange,
+}: {
+  milestones: MilestoneSpec[];
+  onChange: (milestones: MilestoneSpec[]) => void;
+}) {
+  function update(index: number, patch: Partial<MilestoneSpec>) {
+    onChange(milestones.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+  }
+
+  return (
+    <div className="space-y-2">
+      {milestones.map((m, i) => {
+        const custom = !MILESTONE_BANK.includes(m.text);
+        return (
+          <div key={m.id} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={m.unit === "percent" ? 99 : 3600}
+                step={1}
+                inputMode="numeric"
+                className="input-warm w-16 text-sm"
+                value={m.value}
+                onChange={(e) => update(i, { value: parseInt(e.target.value, 10) || 0 })}
+                onBlur={() => update(i, { value: normalizeMilestoneSpec(m).value })}
+                aria-label={`Milestone ${i + 1} time`}
+              />
+              <select
+                className="select-warm text-sm"
+                value={m.unit}
+                onChange={(e) => update(i, { unit: e.target.value === "seconds" ? "seconds" : "percent" })}
+                aria-label={`Milestone ${i + 1} unit`}
+              >
+                <option value="percent">%</option>
+                <option value="seconds">sec</option>
+              </select>
+              <select
+                className="select-warm flex-1 min-w-0 text-sm"
+                value={custom ? "" : m.text}
+                onChange={(e) => update(i, { text: e.target.value })}
+                aria-label={`Milestone ${i + 1} text`}
+              >
+                {MILESTONE_BANK.map((line) => (
+                  <option key={line} value={line}>{line}</option>
+                ))}
+                <option value="">Custom text&hellip;</option>
+              </select>
+              <button
+                className="btn-ghost !px-2 !py-1 text-xs"
+                onClick={() => onChange(milestones.filter((_, j) => j !== i))}
+                aria-label="Remove milestone"
+              >
+                &times;
+              </button>
+            </div>
+            {custom && (
+              <input
+                type="text"
+                className="input-warm w-full text-sm"
+                placeholder="What should the coach say?"
+                value={m.text}
+                maxLength={MILESTONE_TEXT_MAX}
+                onChange={(e) => update(i, { text: e.target.value })}
+                aria-label={`Milestone ${i + 1} custom text`}
+              />
+            )}
+          </div>
+        );
+      })}
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          className="btn-secondary text-xs"
+          onClick={() => onChange([...milestones, createMilestoneSpec("percent", 50, MILESTONE_BANK[4])])}
+          disabled={milestones.length >= MILESTONES_MAX}
+        >
+          + Milestone
+        </button>
+        <button className="btn-ghost text-xs" onClick={() => onChange(DEFAULT_MILESTONE_SPECS)}>
+          Defaults
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ---- Coaching Settings Component ----
+// Quiet windows are edited in whole minutes of the session.
+function CoachingSettings({
+  coaching,
+  onChange,
+  disabled,
+}: {
+  coaching: CoachingCadence;
+  onChange: (coaching: CoachingCadence) => void;
+  disabled: boolean;
+}) {
+  function updateWindow(index: number, edge: "from" | "to", minutes: number) {
+    onChange({
+      ...coaching,
+      quietWindows: coaching.quietWindows.map((w, i) => (i === index ? { ...w, [edge]: Math.max(0, minutes) * 60 } : w)),
+    });
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-xs text-warmmuted">Every</span>
+        <div className="flex rounded-xl overflow-hidden border border-warmborder">
+          {COACHING_INTERVAL_OPTIONS.map((sec) => (
+            <button
+              key={sec}
+              className={`wait-btn !px-3 ${coaching.intervalSeconds === sec ? "active" : ""}`}
+              onClick={() => onChange({ ...coaching, intervalSeconds: sec })}
+              disabled={disabled}
+            >
+              {sec}s
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-warmmuted">Vary</span>
+        <div className="flex rounded-xl overflow-hidden border border-warmborder">
+          {COACHING_JITTER_OPTIONS.map((sec) => (
+            <button
+              key={sec}
+              className={`wait-btn !px-3 ${coaching.jitterSeconds === sec ? "active" : ""}`}
+              onClick={() => onChange({ ...coaching, jitterSeconds: sec })}
+              disabled={disabled}
+            >
+              {sec ? `±${sec}s` : "Off"}
+            </button>
+          ))}
+        </div>
+      </div>
+      {coaching.quietWindows.map((w, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <span className="text-xs text-warmmuted">Quiet from</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            inputMode="numeric"
+            className="input-warm w-16 text-sm"
+            value={Math.round(w.from / 60)}
+            onChange={(e) => updateWindow(i, "from", parseInt(e.target.value, 10) || 0)}
+            disabled={disabled}
+            aria-label={`Quiet window ${i + 1} start (minutes)`}
+          />
+          <span className="text-xs text-warmmuted">to</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            inputMode="numeric"
+            className="input-warm w-16 text-sm"
+            value={Math.round(w.to / 60)}
+            onChange={(e) => updateWindow(i, "to", parseInt(e.target.value, 10) || 0)}
+            disabled={disabled}
+            aria-label={`Quiet window ${i + 1} end (minutes)`}
+          />
+          <span className="text-xs text-warmmuted">min</span>
+          <button
+            className="btn-ghost !px-2 !py-1 text-xs"
+            onClick={() => onChange({ ...coaching, quietWindows: coaching.quietWindows.filter((_, j) => j !== i) })}
+            aria-label="Remove quiet window"
+          >
+            &times;
+          </button>
+        </div>
+      ))}
+      <button
+        className="btn-secondary text-xs"
+        onClick={() => {
+          const last = coaching.quietWindows[coaching.quietWindows.length - 1];
+          const from = last ? last.to : 0;
+          onChange({ ...coaching, quietWindows: [...coaching.quietWindows, { from, to: from + 60 }] });
+        }}
+        disabled={disabled || coaching.quietWindows.length >= QUIET_WINDOWS_MAX}
+      >
+        + Quiet window
+      </button>
+    </div>
+  );
+}
+
+// ---- Music Settings Component ----
+// Level is shown in percent, duck depth in dB below that level.
+function MusicSettingsPanel({
+  music,
+  onChange,
+  tracks,
+  onUpload,
+  onRemove,
+  error,
+}: {
+  music: MusicSettings;
+  onChange: (music: MusicSettings) => void;
+  tracks: MusicTrack[];
+  onUpload: (file: File) => void;
+  onRemove: (id: string) => void;
+  error: string;
+}) {
+  const off = music.trackId === MUSIC_OFF;
+  const sliders = [
+    {
+      label: "Level",
+      value: music.level,
+      min: 0,
+      max: 1,
+      step: MUSIC_LEVEL_STEP,
+      text: `${Math.round(music.level * 100)}%`,
+      set: (v: number) => onChange({ ...music, level: v }),
+    },
+    {
+      label: "Dip under voice",
+      value: music.duckDepthDb,
+      min: 0,
+      max: DUCK_DEPTH_MAX_DB,
+      step: 1,
+      text: `${music.duckDepthDb} dB`,
+      set: (v: number) => onChange({ ...music, duckDepthDb: v }),
+    },
+    {
+      label: "Dip time",
+      value: music.duckRampMs,
+      ...DUCK_RAMP_RANGE,
+      step: 10,
+      text: `${music.duckRampMs} ms`,
+      set: (v: number) => onChange({ ...music, duckRampMs: v }),
+    },
+    {
+      label: "Return time",
+      value: music.restoreRampMs,
+      ...RESTORE_RAMP_RANGE,
+      step: 10,
+      text: `${music.restoreRampMs} ms`,
+      set: (v: number) => onChange({ ...music, restoreRampMs: v }),
+    },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <select
+          className="select-warm flex-1 min-w-0 text-sm"
+          value={music.trackId}
+          onChange={(e) => onChange({ ...music, trackId: e.target.value })}
+          aria-label="Background track"
+        >
+          <option value={MUSIC_OFF}>No music</option>
+          {tracks.map((t) => (
+            <option key={t.id} value={t.id}>{t.label}</option>
+          ))}
+        </select>
+        {isUserTrackId(music.trackId) && (
+          <button className="btn-ghost !px-2 !py-1 text-xs" onClick={() => onRemove(music.trackId)}>
+            Remove
+          </button>
+        )}
+        <label className="btn-secondary text-xs cursor-pointer">
+          + Your own
+          <input
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onUpload(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {error && <div className="text-xs text-warmred">{error}</div>}
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-warmgold rounded"
+            checked={music.loop}
+            onChange={(e) => onChange({ ...music, loop: e.target.checked })}
+            disabled={off}
+          />
+          <span className="text-sm text-warmmuted">Repeat track</span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-warmgold rounded"
+            checked={music.shuffle}
+            onChange={(e) => onChange({ ...music, shuffle: e.target.checked })}
+            disabled={off || music.loop}
+          />
+          <span className="text-sm text-warmmuted">Shuffle</span>
+        </label>
+      </div>
+      {sliders.map((s) => (
+        <label key={s.label} className="flex items-center gap-2">
+          <span className="w-28 text-xs text-warmmuted">{s.label}</span>
+          <input
+            type="range"
+            className="flex-1 accent-warmgold"
+            min={s.min}
+            max={s.max}
+            step={s.step}
+            value={s.value}
+            onChange={(e) => s.set(parseFloat(e.target.value))}
+            disabled={off}
+            aria-label={`Music ${s.label.toLowerCase()}`}
+          />
+          <span className="w-14 text-xs text-warmmuted tabular-nums text-right">{s.text}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// ---- Routine Builder Component ----
+function RoutineBuilder({
+  segments,
+  onChange,
+}: {
+  segments: RoutineSegment[];
+  onChange: (segments: RoutineSegment[]) => void;
+}) {
+  function update(index: number, patch: Partial<RoutineSegment>) {
+    onChange(segments.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  }
+
+  function move(index: number, delta: number) {
+    const target = index + delta;
+    if (target < 0 || target >= segments.length) return;
+    const next = segments.slice();
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  }
+
+  function remove(index: number) {
+    if (segments.length <= 1) return;
+    onChange(segments.filter((_, i) => i !== index));
+  }
+
+  function add(kind: RoutineSegment["kind"]) {
+    if (segments.length >= ROUTINE_MAX_SEGMENTS) return;
+    onChange([...segments, createSegment(kind)]);
+  }
+
+  return (
+    <div className="space-y-2">
+      {segments.map((segment, i) => (
+        <div key={segment.id} className="flex items-center gap-2">
+          <span className="w-5 text-xs text-warmmuted tabular-nums">{i + 1}</span>
+          {segment.kind === "rest" ? (
+            <span className="flex-1 text-sm text-warmmuted italic">Rest</span>
+          ) : (
+            <input
+              type="text"
+              className="input-warm flex-1 min-w-0 text-sm"
+              value={segment.name}
+              maxLength={40}
+              onChange={(e) => update(i, { name: e.target.value })}
+              onBlur={() => update(i, normalizeSegment(segment))}
+              aria-label={`Exercise ${i + 1} name`}
+            />
+          )}
+          <input
+            type="number"
+            min={SEGMENT_MIN_SECONDS}
+            max={SEGMENT_MAX_SECONDS}
+            step={5}
+            inputMode="numeric"
+            className="input-warm w-20 text-sm"
+            value={segment.seconds}
+            onChange={(e) => update(i, { seconds: parseInt(e.target.value, 10) || 0 })}
+            onBlur={() => update(i, normalizeSegment(segment))}
+            aria-label={`Segment ${i + 1} seconds`}
+          />
+          <span className="w-12 text-xs text-warmmuted tabular-nums">{formatMMSS(segment.seconds)}</span>
+          <button className="btn-ghost !px-2 !py-1 text-xs" onClick={() => move(i, -1)} disabled={i === 0} aria-label="Move up">
+            &uarr;
+          </button>
+          <button className="btn-ghost !px-2 !py-1 text-xs" onClick={() => move(i, 1)} disabled={i === segments.length - 1} aria-label="Move down">
+            &darr;
+          </button>
+          <button className="btn-ghost !px-2 !py-1 text-xs" onClick={() => remove(i)} disabled={segments.length <= 1} aria-label="Remove">
+            &times;
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2 pt-1">
+        <button className="btn-secondary text-xs" onClick={() => add("exercise")} disabled={segments.length >= ROUTINE_MAX_SEGMENTS}>
+          + Exercise
+        </button>
+        <button className="btn-secondary text-xs" onClick={() => add("rest")} disabled={segments.length >= ROUTINE_MAX_SEGMENTS}>
+          + Rest
+        </button>
+        <span className="ml-auto text-xs text-warmmuted">Total {formatMMSS(routineTotalSeconds(segments))}</span>
+      </div>
+    </div>
+  );
+}
+
 export default function App() {
-  const [minutesInput, setMinutesInput] = useState<string>(String(DEFAULT_MINUTES));
-  const [durationMinutes, setDurationMinutes] = useState<number>(DEFAULT_MINUTES);
-  const [secondsLeft, setSecondsLeft] = useState<number>(DEFAULT_MINUTES * 60);
-  const [isRunning, setIsRunning] = useState<boolean>(false);
-  const [isFinished, setIsFinished] = useState<boolean>(false);
+  // Saved presets; the last-used one seeds the initial settings below
+  const [presetStore, setPresetStore] = useState<PresetStore>(() => loadPresetStore(localStorage));
+  const [launchPreset] = useState<Preset | null>(() => lastUsedPreset(presetStore));
+  const launch = launchPreset?.settings ?? defaultPresetSettings();
+  const [presetName, setPresetName] = useState<string>(launchPreset?.name ?? "");
+
+  const [minutesInput, setMinutesInput] = useState<string>(String(launch.durationMinutes));
+  const [durationMinutes, setDurationMinutes] = useState<number>(launch.durationMinutes);
+
+  // Single block vs. multi-exercise routine vs. rep-and-hold cadence vs. intervals
+  const [timerMode, setTimerMode] = useState<TimerMode>(launch.timerMode);
+  const [routine, setRoutine] = useState<RoutineSegment[]>(launch.routine);
+  // Segments of the session in progress (null for a single block)
+  const [activeSegments, setActiveSegments] = useState<RoutineSegment[] | null>(null);
+  const [cadence, setCadence] = useState<CadenceConfig>(launch.cadence);
+  const [phaseCueStyle, setPhaseCueStyle] = useState<PhaseCueStyle>(launch.phaseCueStyle);
+  // Cadence of the session in progress (null outside reps mode)
+  const [activeCadence, setActiveCadence] = useState<CadenceConfig | null>(null);
+  const [intervals, setIntervals] = useState<IntervalConfig>(launch.intervals);
+  // Rounds of the session in progress (null outside interval mode)
+  const [activeIntervals, setActiveIntervals] = useState<IntervalConfig | null>(null);
+  // Milestone schedule for single and routine sessions
+  const [milestoneSpecs, setMilestoneSpecs] = useState<MilestoneSpec[]>(launch.milestones);
+  const [showMilestones, setShowMilestones] = useState<boolean>(false);
+  // How often motivation lines play, how much they wander, and where they don't
+  const [coaching, setCoaching] = useState<CoachingCadence>(launch.coaching);
+  const [endCountdown, setEndCountdown] = useState<boolean>(launch.endCountdown);
+  const [timeAnnouncements, setTimeAnnouncements] = useState<TimeAnnouncementSettings>(launch.timeAnnouncements);
+  const [secondsLeft, setSecondsLeft] = useState<number>(launch.durationMinutes * 60);
+
+  // Session lifecycle lives in the headless engine; React mirrors its state
+  const [engine] = useState(() => createSessionEngine());
+  const [sessionState, setSessionState] = useState<SessionState>("idle");
+  const isRunning = sessionState === "running";
+  const isFinished = sessionState === "finished";
 
   // Wait time before timer starts
-  const [waitSeconds, setWaitSeconds] = useState<number>(0);
-  const [isWaiting, setIsWaiting] = useState<boolean>(false);
+  const [waitSeconds, setWaitSeconds] = useState<number>(launch.prepSeconds);
+  const isWaiting = sessionState === "prep";
   const [waitSecondsLeft, setWaitSecondsLeft] = useState<number>(0);
 
+  // A session left running by a reload or crash, offered for resume
+  const [pendingResume, setPendingResume] = useState<SavedSession | null>(() => {
+    const saved = loadSavedSession(localStorage);
+    return saved && !isSavedSessionStale(saved, Date.now()) ? saved : null;
+  });
+
   // Access code gate
   const [gateEnabled, setGateEnabled] = useState<boolean | null>(null); // null = checking
   const [accessCode, setAccessCode] = useState<string>(() => localStorage.getItem(ACCESS_CODE_KEY) || "");
   const [accessCodeInput, setAccessCodeInput] = useState<string>("");
   const [accessCodeError, setAccessCodeError] = useState<string>("");
 
-  // TTS muted banner (shown when both static + API fail)
-  const [ttsMuted, setTtsMuted] = useState<boolean>(false);
+  // Which speech tier is active: cloud voice, device voice after repeated
+  // cloud failures, or muted when neither works (shown in a banner)
+  const [speechTier, setSpeechTier] = useState<SpeechTier>("cloud");
+  const speechTierRef = useRef<SpeechTier>("cloud");
+  // speechSynthesis voices and the one the user prefers for the fallback
+  const [localVoices, setLocalVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [localVoiceURI, setLocalVoiceURI] = useState<string>(launch.localVoiceURI);
+
+  // Offline support: connection state and how much coaching audio is cached
+  const [online, setOnline] = useState<boolean>(() => navigator.onLine);
+  const [swControlled, setSwControlled] = useState<boolean>(() => !!navigator.serviceWorker?.controller);
+  const [precache, setPrecache] = useState<PrecacheProgress | null>(null);
 
   // Privacy modal
   const [showPrivacy, setShowPrivacy] = useState<boolean>(false);
@@ -158,40 +955,58 @@ export default function App() {
   const [activity] = useState<string>("physio");
 
   // Speech settings
-  const [speechEnabled, setSpeechEnabled] = useState<boolean>(true);
-  const [speechSpeed, setSpeechSpeed] = useState<number>(SPEED_DEFAULT);
+  const [speechEnabled, setSpeechEnabled] = useState<boolean>(launch.speechEnabled);
+  const [speechSpeed, setSpeechSpeed] = useState<number>(launch.speechSpeed);
+  const [speedMode, setSpeedMode] = useState<SpeedMode>(launch.speedMode);
+  const speedModeRef = useRef<SpeedMode>(speedMode);
   const [speechVolume] = useState<number>(1);
-  const [voiceId, setVoiceId] = useState<string>(DEFAULT_VOICE_ID);
+  const [voiceId, setVoiceId] = useState<string>(launch.voiceId);
+  const [voices, setVoices] = useState<{ id: string; label?: string }[]>([]);
   const [speedRange, setSpeedRange] = useState({ min: SPEED_MIN, max: SPEED_MAX, step: SPEED_STEP });
-  const [ttsMode, setTtsMode] = useState<TtsMode>("kokoro");
   const ttsNoteRef = useRef<string>("");
 
   const intervalRef = useRef<number | null>(null);
-  const waitIntervalRef = useRef<number | null>(null);
-  const lastSpokenRef = useRef<number | string | null>(null);
+  const sessionEventRef = useRef<SessionListener>(() => {});
+  // Lines play one at a time through the queue; the ref points at the latest
+  // render's speaker like sessionEventRef does for the engine
+  const speakItemRef = useRef<SpeakItem>(async () => false);
+  const mediaActionsRef = useRef<MediaSessionHandlers>({ play() {}, pause() {}, stop() {} });
+  const [speechQueue] = useState(() => createSpeechQueue((item, expired) => speakItemRef.current(item, expired)));
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioUrlRef = useRef<string | null>(null);
-  const ttsCacheRef = useRef<Map<string, Blob>>(new Map());
-  const ttsInFlightRef = useRef<Map<string, Promise<Blob>>>(new Map());
+  const ttsCacheRef = useRef<Map<string, TtsClip>>(new Map());
+  const ttsInFlightRef = useRef<Map<string, Promise<TtsClip>>>(new Map());
+  // Lines from /api/tts, kept across reloads (see audioCache.ts)
+  const audioCacheRef = useRef<AudioCache | null>(null);
+  const [audioCacheStats, setAudioCacheStats] = useState<AudioCacheStats>({ entries: 0, bytes: 0 });
+  // Which lines have a static clip, per voice/speed manifest
+  const [staticIndex] = useState(() => createStaticAudioIndex(fetchJson));
+  const [staticSets, setStaticSets] = useState<StaticAudioSet[]>([]);
+  const [staticCoverageNote, setStaticCoverageNote] = useState<string>("");
   const prefetchIdRef = useRef<number>(0);
   const shuffledBankRef = useRef<string[]>(MOTIVATION_BANK);
   const speechEnabledRef = useRef<boolean>(speechEnabled);
-  const ttsModeRef = useRef<TtsMode>(ttsMode);
   const backgroundAudioRef = useRef<HTMLAudioElement | null>(null);
-  // Web Audio API for iOS-compatible volume control
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const bgGainNodeRef = useRef<GainNode | null>(null);
-  const bgSourceConnectedRef = useRef<boolean>(false);
+  // The music element's node on the mixer's music bus
+  const musicSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const [music, setMusic] = useState<MusicSettings>(launch.music);
+  const musicRef = useRef<MusicSettings>(music);
+  const [userTracks, setUserTracks] = useState<UserTrack[]>([]);
+  const [musicError, setMusicError] = useState<string>("");
+  const musicStoreRef = useRef<MusicStore | null>(null);
+  // Object URLs of the uploaded tracks, in the order they were added
+  const userTrackUrlsRef = useRef<Map<string, string>>(new Map());
+  const currentTrackIdRef = useRef<string>(MUSIC_OFF);
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
-  const isRunningRef = useRef<boolean>(false);
-  const secondsLeftRef = useRef<number>(0);
   const analyticsOpenFiredRef = useRef<boolean>(false);
   const sessionIdRef = useRef<string | null>(null);
+  const sessionStartedAtRef = useRef<number>(0);
+  const sessionPlanRef = useRef<SessionPlan | null>(null);
 
   // Camera (dev-only)
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
   const [isRecording, setIsRecording] = useState(false);
-  const [autoRecord, setAutoRecord] = useState(true);
+  const [autoRecord, setAutoRecord] = useState(launch.autoRecord);
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
   const [cameraError, setCameraError] = useState("");
   const [showCamera, setShowCamera] = useState(false);
@@ -201,22 +1016,45 @@ export default function App() {
   const previewRef = useRef<HTMLVideoElement>(null);
   const [playbackUrl, setPlaybackUrl] = useState<string>("");
 
-  const totalSeconds = useMemo(() => durationMinutes * 60, [durationMinutes]);
+  const totalSeconds = useMemo(
+    () => (activeCadence
+      ? cadenceTotalSeconds(activeCadence)
+      : activeIntervals
+        ? intervalTotalSeconds(activeIntervals)
+        : activeSegments ? routineTotalSeconds(activeSegments) : durationMinutes * 60),
+    [activeCadence, activeIntervals, activeSegments, durationMinutes],
+  );
   const progress = useMemo(() => {
     const done = totalSeconds - secondsLeft;
     return totalSeconds === 0 ? 0 : Math.min(1, Math.max(0, done / totalSeconds));
   }, [secondsLeft, totalSeconds]);
-
-  const milestones = useMemo(() => computeMilestones(totalSeconds), [totalSeconds]);
-
-  // Refs for values that need to be current inside interval callbacks (avoids stale closure)
-  const totalSecondsRef = useRef<number>(totalSeconds);
-  const milestonesRef = useRef<ReturnType<typeof computeMilestones>>(milestones);
-
-  useEffect(() => {
-    totalSecondsRef.current = totalSeconds;
-    milestonesRef.current = milestones;
-  }, [totalSeconds, milestones]);
+  const segmentPosition = useMemo(
+    () => (activeSegments && activeSegments.length > 1 ? segmentAt(activeSegments, totalSeconds - secondsLeft) : null),
+    [activeSegments, secondsLeft, totalSeconds],
+  );
+  const cadencePosition = useMemo(
+    () => (activeCadence ? cadenceAt(activeCadence, totalSeconds - secondsLeft) : null),
+    [activeCadence, secondsLeft, totalSeconds],
+  );
+  const intervalPosition = useMemo(
+    () => (activeIntervals ? intervalAt(activeIntervals, totalSeconds - secondsLeft) : null),
+    [activeIntervals, secondsLeft, totalSeconds],
+  );
+  // What the lock screen shows under the time left
+  const mediaDetail = segmentPosition
+    ? segmentPosition.segment.name
+    : intervalPosition && activeIntervals
+      ? `Round ${intervalPosition.round} of ${activeIntervals.rounds} · ${intervalPosition.kind === "rest" ? "Rest" : "Work"}`
+      : cadencePosition && activeCadence
+        ? `Set ${cadencePosition.set} of ${activeCadence.sets}`
+        : "";
+  // Work period of each round as fractions of the session, for the ring
+  const roundArcs = useMemo(() => {
+    const config = activeIntervals ?? (timerMode === "intervals" ? normalizeIntervals(intervals) : null);
+    if (!config || config.rounds < 2) return undefined;
+    const total = intervalTotalSeconds(config);
+    return intervalRounds(config).map((r) => ({ start: r.start / total, end: r.workEnd / total }));
+  }, [activeIntervals, intervals, timerMode]);
 
   useEffect(() => {
     let cancelled = false;
@@ -225,18 +1063,20 @@ export default function App() {
         const res = await fetch("/api/voices");
         if (!res.ok) throw new Error(`voice load failed: ${res.status}`);
         const data = (await res.json()) as {
-          voices: { id: string }[];
+          voices: { id: string; label?: string }[];
           defaultVoiceId: string;
           speed: { min: number; max: number; step: number; recommended: number };
         };
         if (cancelled) return;
         const voices = Array.isArray(data.voices) ? data.voices : [];
+        setVoices(voices);
         if (data.speed) {
           const min = data.speed.min ?? SPEED_MIN;
           const max = data.speed.max ?? SPEED_MAX;
           const step = data.speed.step ?? SPEED_STEP;
           setSpeedRange({ min, max, step });
-          if (typeof data.speed.recommended === "number") {
+          // A restored preset keeps its own speed
+          if (typeof data.speed.recommended === "number" && !launchPreset) {
             setSpeechSpeed(clampFloat(data.speed.recommended, min, max));
           }
         }
@@ -245,26 +1085,23 @@ export default function App() {
             ? data.defaultVoiceId
             : voices[0]?.id || DEFAULT_VOICE_ID;
         setVoiceId((prev) => prev || nextVoice);
-        setTtsMode("kokoro");
         ttsNoteRef.current = "";
       } catch {
         if (cancelled) return;
         setSpeechEnabled(false);
-        ttsNoteRef.current = "OpenAI TTS unavailable.";
+        ttsNoteRef.current = "Voice coaching unavailable.";
       }
     }
     loadVoices();
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [launchPreset]);
 
   useEffect(() => {
     return () => {
       if (intervalRef.current != null) window.clearInterval(intervalRef.current);
       intervalRef.current = null;
-      if (waitIntervalRef.current != null) window.clearInterval(waitIntervalRef.current);
-      waitIntervalRef.current = null;
       stopAudio();
       stopBackgroundMusic();
     };
@@ -279,16 +1116,119 @@ export default function App() {
   }, [speechEnabled]);
 
   useEffect(() => {
-    ttsModeRef.current = ttsMode;
-  }, [ttsMode]);
+    speedModeRef.current = speedMode;
+  }, [speedMode]);
+
+  useEffect(() => {
+    musicRef.current = music;
+    sharedMixer?.setDucking(musicDucking(music));
+  }, [music]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls = userTrackUrlsRef.current;
+    void (async () => {
+      const store = (await openIndexedDbMusicStore()) ?? createMemoryMusicStore();
+      if (cancelled) return;
+      musicStoreRef.current = store;
+      const tracks = await store.list().catch(() => []);
+      for (const track of tracks) {
+        const blob = await store.get(track.id).catch(() => null);
+        if (blob && !urls.has(track.id)) urls.set(track.id, URL.createObjectURL(blob));
+      }
+      if (!cancelled) setUserTracks(tracks.filter((t) => urls.has(t.id)));
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    // An IndexedDB that fails to open gets the in-memory store, like a missing one
+    openIndexedDbAudioCacheStore()
+      .catch(() => null)
+      .then((store) => {
+        if (cancelled) return;
+        const cache = createAudioCache(store ?? createMemoryAudioCacheStore(), {
+          estimate: async () => (navigator.storage?.estimate ? await navigator.storage.estimate() : null),
+        });
+        audioCacheRef.current = cache;
+        void cache
+          .stats()
+          .then(setAudioCacheStats)
+          .catch(() => {});
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Static coverage of the chosen voice/speed, so the UI can point at a fully
+  // pre-generated combination
+  useEffect(() => {
+    let cancelled = false;
+    const speed = clampFloat(speechSpeed, speedRange.min, speedRange.max);
+    void (async () => {
+      const lines = coverageLines(activity);
+      try {
+        const [coverage, sets] = await Promise.all([
+          staticIndex.coverage(voiceId, speed, lines, speedMode),
+          staticIndex.sets().catch(() => []),
+        ]);
+        const complete = coveragePct(coverage) === 100 ? null : await staticIndex.completeSet(voiceId, lines);
+        if (cancelled) return;
+        setStaticSets(sets);
+        setStaticCoverageNote(describeCoverage(coverage, voiceId, speed, complete));
+      } catch {
+        // Couldn't work it out (e.g. offline): no note beats a wrong one
+        if (!cancelled) setStaticCoverageNote("");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [voiceId, speechSpeed, speedMode, speedRange, activity, staticIndex]);
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!("speechSynthesis" in window)) return;
+    const synth = window.speechSynthesis;
+    const load = () => setLocalVoices(synth.getVoices());
+    load();
+    synth.addEventListener("voiceschanged", load);
+    return () => synth.removeEventListener("voiceschanged", load);
+  }, []);
 
+  // The service worker is only built for production; dev keeps plain network loads
   useEffect(() => {
-    isRunningRef.current = isRunning;
-  }, [isRunning]);
+    if (!import.meta.env.PROD) return;
+    const unregister = registerServiceWorker(setPrecache);
+    // An updated worker starts with empty caches for the audio sets that changed
+    const handleControllerChange = () => {
+      setSwControlled(true);
+      requestAudioPrecache();
+    };
+    navigator.serviceWorker?.addEventListener("controllerchange", handleControllerChange);
+    return () => {
+      unregister();
+      navigator.serviceWorker?.removeEventListener("controllerchange", handleControllerChange);
+    };
+  }, []);
 
   useEffect(() => {
-    secondsLeftRef.current = secondsLeft;
-  }, [secondsLeft]);
+    const handleOnline = () => {
+      setOnline(true);
+      requestAudioPrecache();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
 
   // Check gate status from server on startup.
   // If a code is already stored, re-validate it in parallel — changing ACCESS_CODE
@@ -303,8 +1243,9 @@ export default function App() {
     Promise.all([healthPromise, verifyPromise])
       .then(([healthData, verifyRes]) => {
         const gateOn = healthData.gateEnabled ?? true;
-        if (gateOn && storedCode && verifyRes && !verifyRes.ok) {
-          // Stored code rejected by server — revoke it and show the gate
+        if (gateOn && storedCode && verifyRes?.status === 401) {
+          // Stored code rejected by server — revoke it and show the gate.
+          // A 429 (rate limited) says nothing about the code, so it is kept.
           localStorage.removeItem(ACCESS_CODE_KEY);
           setAccessCode("");
         }
@@ -322,21 +1263,90 @@ export default function App() {
     }
   }, [accessCode, gateEnabled]);
 
-  // session_abandon on tab/browser close while timer is running
+  // session_interrupt on tab/browser close mid-session. The session stays
+  // saved, so the next launch either resumes it (session_resume) or gives
+  // it up (session_abandon) under the same sessionId.
   useEffect(() => {
     const handleBeforeUnload = () => {
-      if (!isRunningRef.current) return;
-      const elapsed = totalSecondsRef.current - secondsLeftRef.current;
-      if (elapsed <= 0) return;
-      trackEvent("session_abandon", {
-        durationMin: totalSecondsRef.current / 60,
-        completionPct: Math.round((elapsed / totalSecondsRef.current) * 100),
+      const snap = engine.getSnapshot();
+      if ((snap.state !== "running" && snap.state !== "paused") || snap.elapsed <= 0) return;
+      trackEvent("session_interrupt", {
+        durationMin: snap.totalSeconds / 60,
+        completionPct: Math.round((snap.elapsed / snap.totalSeconds) * 100),
       }, sessionIdRef.current ?? undefined);
     };
     window.addEventListener("beforeunload", handleBeforeUnload);
     return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [engine]);
+
+  // A saved session too old to offer is closed out as abandoned
+  useEffect(() => {
+    const saved = loadSavedSession(localStorage);
+    if (!saved || !isSavedSessionStale(saved, Date.now())) return;
+    trackEvent("session_abandon", {
+      durationMin: saved.totalSeconds / 60,
+      completionPct: savedSessionCompletionPct(saved),
+    }, saved.sessionId);
+    clearSavedSession(localStorage);
   }, []);
 
+  // Subscribe once; the ref always points at the latest render's handler
+  // so session events never see stale state.
+  useEffect(() => {
+    sessionEventRef.current = handleSessionEvent;
+  });
+
+  useEffect(() => engine.subscribe((e) => sessionEventRef.current(e)), [engine]);
+
+  // Lock-screen and headset buttons, bound once like the engine listener
+  useEffect(() => {
+    mediaActionsRef.current = {
+      play: () => {
+        if (engine.getSnapshot().state === "paused") resume();
+      },
+      pause: () => {
+        if (engine.getSnapshot().state === "running") pause();
+      },
+      stop: () => {
+        const state = engine.getSnapshot().state;
+        if (state === "prep" || state === "running" || state === "paused") stopAndClear();
+      },
+    };
+  });
+
+  useEffect(
+    () =>
+      bindMediaSessionActions({
+        play: () => mediaActionsRef.current.play(),
+        pause: () => mediaActionsRef.current.pause(),
+        stop: () => mediaActionsRef.current.stop(),
+      }),
+    [],
+  );
+
+  useEffect(() => {
+    updateMediaSession({ state: sessionState, detail: mediaDetail, secondsLeft, totalSeconds, prepSecondsLeft: waitSecondsLeft });
+  }, [sessionState, mediaDetail, secondsLeft, totalSeconds, waitSecondsLeft]);
+
+  useEffect(() => {
+    speakItemRef.current = (item, expired) => speakLine(item.text, !item.raw, expired, item.parts);
+  });
+
+  // Queue state from the console while developing: window.speechQueue.getState()
+  useEffect(() => {
+    if (!import.meta.env.DEV) return;
+    (window as Window & { speechQueue?: typeof speechQueue }).speechQueue = speechQueue;
+  }, [speechQueue]);
+
+  // Catch up as soon as the page is visible again (screen unlock, tab switch)
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") engine.tick();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [engine]);
+
   // Screen wake lock — keep display on while timer or prep countdown is active
   useEffect(() => {
     const active = isRunning || isWaiting;
@@ -393,6 +1403,7 @@ export default function App() {
   }, [cameraStream, recordedBlob]);
 
   function stopAudio() {
+    if ("speechSynthesis" in window) window.speechSynthesis.cancel();
     if (audioRef.current) {
       audioRef.current.pause();
       // Don't destroy the shared audio element, just clear the reference
@@ -405,109 +1416,164 @@ export default function App() {
   }
 
   function stopSpeech() {
+    speechQueue.clear();
     stopAudio();
   }
 
-  function startBackgroundMusic() {
-    // If the pipeline was pre-built by unlockAudio() (wait-time path),
-    // the audio is playing silently at gain 0 — raise gain after resume.
-    if (backgroundAudioRef.current && bgGainNodeRef.current && audioContextRef.current) {
-      const ctx = audioContextRef.current;
-      const gain = bgGainNodeRef.current;
-      const audio = backgroundAudioRef.current;
-      // Ensure context is running FIRST, then raise gain and ensure playback
-      ctx.resume().then(() => {
-        gain.gain.setValueAtTime(NORMAL_VOLUME, ctx.currentTime);
-        audio.play().catch(() => {});
-      });
+  function musicTrackIds() {
+    return [...BUNDLED_TRACKS.map((t) => t.id), ...userTrackUrlsRef.current.keys()];
+  }
+
+  function musicTrackUrl(id: string) {
+    return BUNDLED_TRACKS.find((t) => t.id === id)?.url ?? userTrackUrlsRef.current.get(id) ?? null;
+  }
+
+  // The element for the chosen track, or null with music off. It is created
+  // during the user gesture; later tracks swap its src, which iOS allows once
+  // the element has played.
+  function createMusicElement() {
+    const settings = musicRef.current;
+    const trackId = resolveTrackId(musicTrackIds(), settings.trackId);
+    const url = musicTrackUrl(trackId);
+    if (!url) return null;
+    const audio = new Audio(url);
+    audio.loop = settings.loop;
+    audio.crossOrigin = "anonymous";
+    currentTrackIdRef.current = trackId;
+    audio.onended = () => {
+      const next = nextTrackId(musicTrackIds(), currentTrackIdRef.current, musicRef.current.shuffle);
+      const nextUrl = musicTrackUrl(next);
+      if (!nextUrl || backgroundAudioRef.current !== audio) return;
+      currentTrackIdRef.current = next;
+      audio.src = nextUrl;
+      audio.play().catch(() => {});
+    };
+    return audio;
+  }
+
+  async function addMusicTrack(file: File) {
+    const store = musicStoreRef.current;
+    const problem = validateUpload(file, userTracks.length);
+    if (problem || !store) {
+      setMusicError(problem ?? "Music storage isn't ready yet — try again in a moment.");
       return;
     }
-
-    // Otherwise create everything from scratch (no-wait path, user gesture context)
-    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-    if (!AudioContextClass) {
-      // Fallback for browsers without Web Audio API
-      const audio = new Audio(backMusicUrl);
-      audio.loop = true;
-      audio.volume = NORMAL_VOLUME;
-      audio.play();
-      backgroundAudioRef.current = audio;
+    const track = createUserTrack(file, Date.now());
+    try {
+      await store.put(track, file);
+    } catch {
+      setMusicError("Couldn't save that file — your device may be out of storage.");
       return;
     }
+    userTrackUrlsRef.current.set(track.id, URL.createObjectURL(file));
+    setUserTracks((prev) => [...prev, track]);
+    setMusic((m) => ({ ...m, trackId: track.id }));
+    setMusicError("");
+  }
 
-    const ctx = new AudioContextClass();
-    audioContextRef.current = ctx;
-
-    const audio = new Audio(backMusicUrl);
-    audio.loop = true;
-    audio.crossOrigin = "anonymous";
-    backgroundAudioRef.current = audio;
+  async function removeMusicTrack(id: string) {
+    await musicStoreRef.current?.remove(id).catch(() => {});
+    const url = userTrackUrlsRef.current.get(id);
+    if (url) URL.revokeObjectURL(url);
+    userTrackUrlsRef.current.delete(id);
+    setUserTracks((prev) => prev.filter((t) => t.id !== id));
+    setMusic((m) => (m.trackId === id ? { ...m, trackId: BUNDLED_TRACKS[0].id } : m));
+  }
 
-    // Connect through Web Audio API gain node
-    const source = ctx.createMediaElementSource(audio);
-    const gainNode = ctx.createGain();
-    gainNode.gain.value = NORMAL_VOLUME;
-    bgGainNodeRef.current = gainNode;
+  // The mixer with the current ducking settings; null without Web Audio
+  function ensureMixer() {
+    const mixer = getMixer(musicDucking(musicRef.current));
+    mixer?.setDucking(musicDucking(musicRef.current));
+    return mixer;
+  }
 
-    source.connect(gainNode);
-    gainNode.connect(ctx.destination);
-    bgSourceConnectedRef.current = true;
+  // The music element on the mixer's music bus, created on first use
+  function prepareBackgroundMusic(mixer: Mixer) {
+    if (backgroundAudioRef.current) return backgroundAudioRef.current;
+    const audio = createMusicElement();
+    backgroundAudioRef.current = audio;
+    if (audio) musicSourceRef.current = mixer.connect(audio, "music");
+    return audio;
+  }
 
-    // Resume context (required for iOS after user gesture)
-    ctx.resume().then(() => {
+  function startBackgroundMusic() {
+    const mixer = ensureMixer();
+    if (!mixer) {
+      // Fallback for browsers without Web Audio API
+      const audio = backgroundAudioRef.current ?? createMusicElement();
+      if (!audio) return;
+      audio.volume = musicRef.current.level;
       audio.play().catch(() => {});
+      backgroundAudioRef.current = audio;
+      return;
+    }
+
+    // If unlockAudio() pre-built the pipeline (wait-time path) the music is
+    // playing silently at level 0. Ensure the context is running FIRST
+    // (required for iOS), then raise the level and ensure playback.
+    const audio = prepareBackgroundMusic(mixer);
+    mixer.resume().then(() => {
+      mixer.setMusicLevel(musicRef.current.level);
+      audio?.play().catch(() => {});
     });
   }
 
+  // The mixer stays up: the shared TTS element is attached to its context
   function stopBackgroundMusic() {
     if (backgroundAudioRef.current) {
       backgroundAudioRef.current.pause();
       backgroundAudioRef.current.currentTime = 0;
       backgroundAudioRef.current = null;
     }
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-    bgGainNodeRef.current = null;
-    bgSourceConnectedRef.current = false;
+    musicSourceRef.current?.disconnect();
+    musicSourceRef.current = null;
   }
 
+  // Per-line ducking, for speech the sidechain can't hear (the device voice)
+  // or before the sidechain worklet has loaded
   function duckBackgroundMusic() {
-    const gain = bgGainNodeRef.current;
-    if (gain && audioContextRef.current) {
-      // Use Web Audio API's built-in ramping for smooth transitions
-      gain.gain.cancelScheduledValues(audioContextRef.current.currentTime);
-      gain.gain.setValueAtTime(gain.gain.value, audioContextRef.current.currentTime);
-      gain.gain.linearRampToValueAtTime(DUCK_VOLUME, audioContextRef.current.currentTime + 0.1);
+    if (sharedMixer) {
+      sharedMixer.duck(true);
     } else if (backgroundAudioRef.current) {
       // Fallback for non-Web Audio path
-      backgroundAudioRef.current.volume = DUCK_VOLUME;
+      backgroundAudioRef.current.volume = duckedLevel(musicRef.current);
     }
   }
 
   function restoreBackgroundMusic() {
-    const gain = bgGainNodeRef.current;
-    if (gain && audioContextRef.current) {
-      gain.gain.cancelScheduledValues(audioContextRef.current.currentTime);
-      gain.gain.setValueAtTime(gain.gain.value, audioContextRef.current.currentTime);
-      gain.gain.linearRampToValueAtTime(NORMAL_VOLUME, audioContextRef.current.currentTime + 0.15);
+    if (sharedMixer) {
+      sharedMixer.duck(false);
     } else if (backgroundAudioRef.current) {
-      backgroundAudioRef.current.volume = NORMAL_VOLUME;
+      backgroundAudioRef.current.volume = musicRef.current.level;
     }
   }
 
-  async function playBlob(blob: Blob): Promise<void> {
+  // False when expired() turned true before the clip started (the line was
+  // cleared by Pause, Stop or Speech off while the music ducked)
+  async function playBlob(blob: Blob, playbackRate = 1, expired: () => boolean = () => false): Promise<boolean> {
     stopAudio();
+    // Through the mixer: loudness-matched, and ducking the music by itself
+    const mixer = sharedMixer;
+    if (mixer) {
+      void mixer.resume();
+      mixer.setClipGain(await mixer.normalizeClip(blob));
+      if (expired()) return false;
+    }
     const url = URL.createObjectURL(blob);
     audioUrlRef.current = url;
     // Reuse shared audio element for iOS compatibility (must be created during user gesture)
     const audio = getSharedTtsAudio();
     audio.src = url;
     audio.volume = clampFloat(speechVolume, 0, 1);
+    // Time-stretched clips: change the tempo, keep the voice's pitch. Loading a
+    // new src resets playbackRate to the default, so set both.
+    audio.defaultPlaybackRate = playbackRate;
+    audio.playbackRate = playbackRate;
+    audio.preservesPitch = true;
+    (audio as HTMLAudioElement & { webkitPreservesPitch?: boolean }).webkitPreservesPitch = true;
     audioRef.current = audio;
 
-    return new Promise<void>((resolve, reject) => {
+    return new Promise<boolean>((resolve, reject) => {
       audio.onended = () => {
         if (audioRef.current === audio) audioRef.current = null;
         if (audioUrlRef.current === url) {
@@ -515,7 +1581,7 @@ export default function App() {
           audioUrlRef.current = null;
         }
         restoreBackgroundMusic();
-        resolve();
+        resolve(true);
       };
       audio.onerror = () => {
         if (audioUrlRef.current === url) {
@@ -523,67 +1589,112 @@ export default function App() {
           audioUrlRef.current = null;
         }
         restoreBackgroundMusic();
-        resolve(); // treat playback error as "speech finished"
+        resolve(true); // treat playback error as "speech finished"
       };
+      if (mixer?.sidechain()) {
+        audio.play().catch(reject);
+        return;
+      }
       // Duck first, then wait for the ramp to complete before playing TTS
       duckBackgroundMusic();
       setTimeout(() => {
+        if (expired()) {
+          restoreBackgroundMusic();
+          resolve(false);
+          return;
+        }
         audio.play().catch(reject);
-      }, 120);
+      }, musicRef.current.duckRampMs + 20);
     });
   }
 
-  function makeClientCacheKey(text: string, voice: string, speed: number) {
-    return `${voice}|${speed.toFixed(2)}|${text}`;
+  function makeClientCacheKey(text: string, voice: string, speed: number, mode: SpeedMode) {
+    return `${voice}|${speed.toFixed(2)}|${mode}|${text}`;
   }
 
-  async function fetchTtsBlob(text: string, voice: string, speed: number) {
-    // Try static pre-generated audio first (zero API cost)
-    try {
-      const hash = await sha256Hex(`${voice}|${speed.toFixed(2)}|${text}`);
-      const staticUrl = `/audio/${voice}-${speed.toFixed(2)}/${hash}.mp3`;
-      const staticRes = await fetch(staticUrl);
-      if (staticRes.ok) {
-        return await staticRes.blob();
+  async function fetchTtsClip(text: string, voice: string, speed: number, hash: string): Promise<TtsClip> {
+    // Static pre-generated audio first (zero API cost) — only when a set's
+    // manifest lists the line, at this speed or (time-stretched) another one
+    const source = await staticIndex.source(voice, speed, text, speedModeRef.current);
+    if (source) {
+      try {
+        const staticRes = await fetch(source.url);
+        if (staticRes.ok) {
+          return { blob: await staticRes.blob(), playbackRate: source.playbackRate };
+        }
+      } catch {
+        // Static fetch failed — fall through to API
       }
-    } catch {
-      // Static fetch failed — fall through to API
     }
 
-    // Fall back to /api/tts
-    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    // Fall back to /api/tts, unless today's budget is spent
+    if (Date.now() < ttsBudgetUntilRef.current) throw new Error(TTS_BUDGET_EXHAUSTED);
+    const headers: Record<string, string> = {};
     const code = localStorage.getItem(ACCESS_CODE_KEY);
     if (code) {
       headers["x-access-code"] = code;
     }
-    const res = await fetch("/api/tts", {
-      method: "POST",
-      headers,
-      body: JSON.stringify({ text, voice, speed }),
-    });
+    // GET so the browser and CDN can reuse the clip; POST for text too long for a URL
+    const url = `/api/tts?${new URLSearchParams({ text, voice, speed: speed.toFixed(2) })}`;
+    const res =
+      url.length <= TTS_GET_URL_MAX
+        ? await fetch(url, { headers })
+        : await fetch("/api/tts", {
+            method: "POST",
+            headers: { ...headers, "Content-Type": "application/json" },
+            body: JSON.stringify({ text, voice, speed }),
+          });
     if (!res.ok) {
       const detail = await res.text();
+      const until = budgetExhaustedUntil(res.status, detail, Date.now());
+      if (until) {
+        ttsBudgetUntilRef.current = until;
+        throw new Error(TTS_BUDGET_EXHAUSTED);
+      }
       throw new Error(detail || `TTS failed (${res.status})`);
     }
-    return await res.blob();
+    const blob = await res.blob();
+    keepClipOnDevice(hash, blob);
+    return { blob, playbackRate: 1 };
+  }
+
+  // Keeps a synthesized clip on the device so the next load doesn't pay for it
+  // again. A full or failing store only costs the copy on disk.
+  function keepClipOnDevice(hash: string, blob: Blob) {
+    const cache = audioCacheRef.current;
+    if (!cache) return;
+    void cache
+      .put(hash, blob)
+      .then(() => cache.stats())
+      .then(setAudioCacheStats)
+      .catch(() => {});
   }
 
-  async function getTtsBlob(text: string, voice: string, speed: number) {
-    const key = makeClientCacheKey(text, voice, speed);
+  // Keeps the most recent 200 clips in memory
+  function rememberTtsClip(key: string, clip: TtsClip) {
+    ttsCacheRef.current.set(key, clip);
+    if (ttsCacheRef.current.size > 200) {
+      const firstKey = ttsCacheRef.current.keys().next().value;
+      if (firstKey) ttsCacheRef.current.delete(firstKey);
+    }
+  }
+
+  async function getTtsClip(text: string, voice: string, speed: number) {
+    const key = makeClientCacheKey(text, voice, speed, speedModeRef.current);
     const cached = ttsCacheRef.current.get(key);
     if (cached) return cached;
     const inFlight = ttsInFlightRef.current.get(key);
     if (inFlight) return await inFlight;
 
-    const request = fetchTtsBlob(text, voice, speed)
-      .then((blob) => {
+    const request = (async () => {
+      const hash = await ttsCacheKey(text, voice, speed);
+      const stored = await audioCacheRef.current?.get(hash);
+      return stored ? { blob: stored, playbackRate: 1 } : await fetchTtsClip(text, voice, speed, hash);
+    })()
+      .then((clip) => {
         ttsInFlightRef.current.delete(key);
-        ttsCacheRef.current.set(key, blob);
-        if (ttsCacheRef.current.size > 200) {
-          const firstKey = ttsCacheRef.current.keys().next().value;
-          if (firstKey) ttsCacheRef.current.delete(firstKey);
-        }
-        return blob;
+        rememberTtsClip(key, clip);
+        return clip;
       })
       .catch((err) => {
         ttsInFlightRef.current.delete(key);
@@ -594,6 +1705,50 @@ export default function App() {
     return await request;
   }
 
+  // A line stitched from static clips (see timeAnnouncements.ts). Null unless
+  // every part is pre-generated for this voice: stitching API clips would cost
+  // a call per word and sound worse than synthesizing the whole line once.
+  async function getComposedClip(parts: string[], voice: string, speed: number): Promise<TtsClip | null> {
+    const mixer = sharedMixer;
+    if (!mixer || parts.length === 0) return null;
+    const mode = speedModeRef.current;
+    const key = makeClientCacheKey(`composed:${parts.join("|")}`, voice, speed, mode);
+    const cached = ttsCacheRef.current.get(key);
+    if (cached) return cached;
+    const sources = await Promise.all(parts.map((part) => staticIndex.source(voice, speed, part, mode)));
+    if (sources.some((source) => !source)) return null;
+    try {
+      const clips = await Promise.all(parts.map((part) => getTtsClip(part, voice, speed)));
+      const decoded = await Promise.all(
+        clips.map(async (clip) => {
+          const buffer = await mixer.ctx.decodeAudioData(await clip.blob.arrayBuffer());
+          const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+          return { channels, sampleRate: buffer.sampleRate };
+        }),
+      );
+      const blob = new Blob([encodeWav(stitchClips(decoded))], { type: "audio/wav" });
+      // Parts from one set share its playback rate
+      const clip = { blob, playbackRate: clips[0].playbackRate };
+      ttsCacheRef.current.set(key, clip);
+      return clip;
+    } catch {
+      // Undecodable part — speak the whole line instead
+      return null;
+    }
+  }
+
+  async function clearCachedAudio() {
+    ttsCacheRef.current.clear();
+    const cache = audioCacheRef.current;
+    if (!cache) return;
+    try {
+      await cache.clear();
+      setAudioCacheStats(await cache.stats());
+    } catch {
+      // Storage refused; the stats stay as they were
+    }
+  }
+
   function cancelPrefetch() {
     prefetchIdRef.current += 1;
   }
@@ -670,14 +1825,43 @@ export default function App() {
     setPlaybackUrl((prev) => { if (prev) URL.revokeObjectURL(prev); return ""; });
   }, []);
 
+  // The lines the session's own schedule will speak (same seed, bank and
+  // mode as the engine); rep phase cues only when they are spoken
+  function buildSessionPrefetchLines(plan: SessionPlan | null) {
+    return plan ? buildSessionLines(plan, { phaseCues: phaseCueStyle !== "tone" }) : [];
+  }
+
+  // Readies a session's lines before they are due. Composed lines, lines on
+  // disk and static clips are handled here; the ones only the API can make
+  // go to /api/tts-batch together, alongside the static downloads.
   async function prefetchLines(lines: PrefetchLine[], voice: string, speed: number) {
     const prefetchId = ++prefetchIdRef.current;
+    const cancelled = () =>
+      prefetchIdRef.current !== prefetchId || !speechEnabledRef.current || speechTierRef.current !== "cloud";
+    const staticLines: string[] = [];
+    const apiLines: TtsBatchLine[] = [];
     for (const line of lines) {
-      if (prefetchIdRef.current !== prefetchId) return;
-      if (!speechEnabledRef.current || ttsModeRef.current !== "kokoro") return;
-      const text = padShortUtterance(line.text);
+      if (cancelled()) return;
+      const text = line.raw ? line.text : padShortUtterance(line.text);
+      try {
+        if (line.parts && (await getComposedClip(line.parts, voice, speed))) continue;
+        if (ttsCacheRef.current.has(makeClientCacheKey(text, voice, speed, speedModeRef.current))) continue;
+        // Already on disk: nothing to download, and reading it back is fast enough at play time
+        if (await audioCacheRef.current?.has(await ttsCacheKey(text, voice, speed))) continue;
+        if (await staticIndex.source(voice, speed, text, speedModeRef.current)) staticLines.push(text);
+        else apiLines.push({ key: line.key, text });
+      } catch {
+        // Prefetch errors are not fatal - audio will be fetched on-demand
+      }
+    }
+    await Promise.all([prefetchBatch(apiLines, voice, speed, cancelled), prefetchOneByOne(staticLines, voice, speed, cancelled)]);
+  }
+
+  async function prefetchOneByOne(texts: string[], voice: string, speed: number, cancelled: () => boolean) {
+    for (const text of texts) {
+      if (cancelled()) return;
       try {
-        await getTtsBlob(text, voice, speed);
+        await getTtsClip(text, voice, speed);
       } catch {
         // Prefetch errors are not fatal - audio will be fetched on-demand
         // Don't disable TTS for transient network issues
@@ -686,31 +1870,172 @@ export default function App() {
     }
   }
 
-  async function speakKokoro(text: string) {
-    const padded = padShortUtterance(text);
+  // Clips are kept (in memory and on disk) as their records stream in. Lines
+  // a batch didn't answer, or all of them when the request itself fails, are
+  // fetched one by one; lines the server refused are left for play time.
+  async function prefetchBatch(lines: TtsBatchLine[], voice: string, speed: number, cancelled: () => boolean) {
+    for (const chunk of chunkBatchLines(lines)) {
+      if (cancelled() || Date.now() < ttsBudgetUntilRef.current) return;
+      const unanswered = new Map(chunk.map((line) => [line.key, line]));
+      try {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        const code = localStorage.getItem(ACCESS_CODE_KEY);
+        if (code) headers["x-access-code"] = code;
+        const res = await fetch("/api/tts-batch", {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ lines: chunk, voice, speed }),
+        });
+        // Over the rate limit: one request per line would only make it worse
+        if (res.status === 429) return;
+        if (!res.ok || !res.body) throw new Error(`TTS batch failed (${res.status})`);
+        for await (const result of readBatchResults(res.body)) {
+          if (cancelled()) return;
+          const line = unanswered.get(result.key);
+          if (!line) continue;
+          unanswered.delete(result.key);
+          if (!isBatchClip(result)) {
+            const until = budgetExhaustedUntil(result.status, JSON.stringify(result), Date.now());
+            if (until) ttsBudgetUntilRef.current = until;
+            continue;
+          }
+          const blob = new Blob([base64ToBytes(result.audio)], { type: result.contentType });
+          rememberTtsClip(makeClientCacheKey(line.text, voice, speed, speedModeRef.current), { blob, playbackRate: 1 });
+          keepClipOnDevice(await ttsCacheKey(line.text, voice, speed), blob);
+        }
+      } catch {
+        // Not fatal: whatever is left is fetched below, or on demand
+      }
+      await prefetchOneByOne(
+        Array.from(unanswered.values(), (line) => line.text),
+        voice,
+        speed,
+        cancelled,
+      );
+    }
+  }
+
+  // False when the audio arrived after the line stopped being relevant
+  async function speakCloud(text: string, pad = true, expired: () => boolean = () => false, parts?: string[]) {
+    const padded = pad ? padShortUtterance(text) : text;
     const speed = clampFloat(speechSpeed, speedRange.min, speedRange.max);
-    const blob = await getTtsBlob(padded, voiceId, speed);
-    await playBlob(blob);
+    const composed = parts ? await getComposedClip(parts, voiceId, speed) : null;
+    const clip = composed ?? (await getTtsClip(padded, voiceId, speed));
+    if (expired()) return false;
+    return playBlob(clip.blob, clip.playbackRate, expired);
+  }
+
+  // Speaks with the browser's built-in voice, ducking the music like playBlob
+  // (and like it, resolves false when expired() turned true during the duck)
+  function speakDevice(text: string, expired: () => boolean = () => false) {
+    const synth = "speechSynthesis" in window ? window.speechSynthesis : null;
+    const voice = synth && pickLocalVoice(synth.getVoices(), localVoiceURI);
+    if (!synth || !voice) return Promise.reject(new Error("No device voice"));
+    stopAudio();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+    utterance.rate = deviceSpeechRate(clampFloat(speechSpeed, speedRange.min, speedRange.max));
+    utterance.volume = clampFloat(speechVolume, 0, 1);
+
+    return new Promise<boolean>((resolve, reject) => {
+      utterance.onend = () => {
+        restoreBackgroundMusic();
+        resolve(true);
+      };
+      utterance.onerror = (e) => {
+        restoreBackgroundMusic();
+        // Cut off by the next line or a pause — not a failure
+        if (e.error === "interrupted" || e.error === "canceled") resolve(true);
+        else reject(new Error(e.error));
+      };
+      duckBackgroundMusic();
+      setTimeout(() => {
+        if (expired()) {
+          restoreBackgroundMusic();
+          resolve(false);
+          return;
+        }
+        synth.speak(utterance);
+      }, musicRef.current.duckRampMs + 20);
+    });
   }
 
   const ttsFailCountRef = useRef<number>(0);
+  // Until when /api/tts is over its daily budget (ms); 0 while it isn't
+  const ttsBudgetUntilRef = useRef<number>(0);
+
+  function changeSpeechTier(tier: SpeechTier) {
+    speechTierRef.current = tier;
+    setSpeechTier(tier);
+    ttsFailCountRef.current = 0;
+    if (tier === "muted") {
+      setSpeechEnabled(false);
+      ttsNoteRef.current = "Voice coaching temporarily unavailable.";
+    }
+  }
 
-  function speakWithSettings(text: string) {
-    if (!speechEnabled) return;
-    void (async () => {
+  // Counts a consecutive failure; after SPEECH_FAILURE_LIMIT the tier steps
+  // down. Returns true when that step was to the device voice.
+  function recordSpeechFailure() {
+    ttsFailCountRef.current += 1;
+    const deviceAvailable = "speechSynthesis" in window && window.speechSynthesis.getVoices().length > 0;
+    const next = nextSpeechTier(speechTierRef.current, ttsFailCountRef.current, deviceAvailable);
+    if (next === speechTierRef.current) return false;
+    changeSpeechTier(next);
+    return next === "device";
+  }
+
+  // Speaks one line on the active tier. The line that makes the cloud tier
+  // give up is spoken straight away on the device voice, as is a line the
+  // cloud can't afford while the TTS budget is spent (without giving up the
+  // tier: static clips still play). Resolves false when nothing was played
+  // (muted, or expired() turned true while loading); rejects when the line
+  // could not be spoken.
+  async function speakLine(text: string, pad = true, expired: () => boolean = () => false, parts?: string[]) {
+    let onDevice = speechTierRef.current === "device";
+    if (speechTierRef.current === "cloud") {
       try {
-        await speakKokoro(text);
-        ttsFailCountRef.current = 0; // Reset on success
-      } catch {
-        ttsFailCountRef.current += 1;
-        // Only disable TTS after 3 consecutive failures
-        if (ttsFailCountRef.current >= 3) {
-          setSpeechEnabled(false);
-          setTtsMuted(true);
-          ttsNoteRef.current = "Voice coaching temporarily unavailable.";
-        }
+        const spoken = await speakCloud(text, pad, expired, parts);
+        ttsFailCountRef.current = 0;
+        return spoken;
+      } catch (err) {
+        onDevice = (err instanceof Error && err.message === TTS_BUDGET_EXHAUSTED) || recordSpeechFailure();
+        if (!onDevice) throw err;
       }
-    })();
+    }
+    if (!onDevice || expired()) return false;
+    try {
+      // Padding only helps the cloud model; the device voice reads the line as is
+      const spoken = await speakDevice(text, expired);
+      ttsFailCountRef.current = 0;
+      return spoken;
+    } catch (err) {
+      recordSpeechFailure();
+      throw err;
+    }
+  }
+
+  // Queues a line; failures are counted towards the fallback in speakLine
+  function speakWithSettings(text: string, kind: SpeechKind, pad = true, parts?: string[]) {
+    if (!speechEnabled) return Promise.resolve("cleared" as const);
+    return speechQueue.enqueue({ text, kind, raw: !pad, parts });
+  }
+
+  // Short beep for rep cues in tone mode: high for "hold", low for "release"
+  function playPhaseTone(frequency: number) {
+    const mixer = sharedMixer;
+    if (!mixer) return;
+    const ctx = mixer.ctx;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.4, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.25);
+    osc.connect(gain);
+    gain.connect(mixer.buses.cues);
+    osc.start();
+    osc.stop(ctx.currentTime + 0.25);
   }
 
   function clearIntervalIfAny() {
@@ -718,43 +2043,88 @@ export default function App() {
     intervalRef.current = null;
   }
 
-  function clearWaitIntervalIfAny() {
-    if (waitIntervalRef.current != null) window.clearInterval(waitIntervalRef.current);
-    waitIntervalRef.current = null;
+  // Session time comes from the engine's wall clock; the interval only
+  // decides how often we look at it.
+  function startTicking() {
+    clearIntervalIfAny();
+    intervalRef.current = window.setInterval(() => engine.tick(), TICK_MS);
   }
 
-  function announce(currentSecondsLeft: number) {
-    if (!speechEnabled) return;
-
-    // Never speak at 0:00 (reserved for congratulations)
-    if (currentSecondsLeft === 0) return;
-
-    // Never speak at the very start (reserved for START_BANK message)
-    if (currentSecondsLeft === totalSecondsRef.current) return;
-
-    // Use refs to get current values (avoids stale closure in interval callbacks)
-    const ts = totalSecondsRef.current;
-    const ms = milestonesRef.current;
-    const elapsedSeconds = ts - currentSecondsLeft;
+  // Called on every tick, cue and pause so a reload loses at most a second
+  function persistActiveSession() {
+    const snap = engine.getSnapshot();
+    const plan = sessionPlanRef.current;
+    const sessionId = sessionIdRef.current;
+    if (!plan || !sessionId || (snap.state !== "running" && snap.state !== "paused")) return;
+    persistSavedSession(localStorage, {
+      version: SESSION_RECOVERY_VERSION,
+      sessionId,
+      startedAt: sessionStartedAtRef.current,
+      savedAt: Date.now(),
+      elapsed: snap.elapsed,
+      totalSeconds: snap.totalSeconds,
+      paused: snap.state === "paused",
+      spokenCues: snap.spokenCues,
+      plan,
+      timerMode,
+      phaseCueStyle,
+    });
+  }
 
-    // Milestones take precedence
-    for (const m of ms) {
-      if (elapsedSeconds === m.elapsed && lastSpokenRef.current !== m.key) {
-        lastSpokenRef.current = m.key;
-        speakWithSettings(m.text);
-        return;
-      }
+  function handleSessionEvent(e: SessionEvent) {
+    switch (e.type) {
+      case "state":
+        setSessionState(e.state);
+        if (e.state !== "prep" && e.state !== "running") clearIntervalIfAny();
+        if (e.state === "running" || e.state === "paused") persistActiveSession();
+        else clearSavedSession(localStorage);
+        break;
+      case "prepTick":
+        setWaitSecondsLeft(e.secondsLeft);
+        break;
+      case "started":
+        beginSession();
+        break;
+      case "tick":
+        setSecondsLeft(e.secondsLeft);
+        persistActiveSession();
+        break;
+      case "cue":
+        if (e.cue.kind === "phase" && phaseCueStyle === "tone") playPhaseTone(e.cue.key.startsWith("hold") ? 880 : 440);
+        else void speakWithSettings(e.text, e.cue.kind, !e.cue.raw, e.cue.parts);
+        persistActiveSession();
+        break;
+      case "milestone":
+        void speakWithSettings(e.milestone.text, "milestone");
+        persistActiveSession();
+        break;
+      case "finished":
+        finishSession(e.totalSeconds);
+        break;
+      case "abandoned":
+        if (e.elapsed > 0) {
+          trackEvent("session_abandon", {
+            durationMin: e.totalSeconds / 60,
+            completionPct: e.completionPct,
+            speechOn: speechEnabled,
+          }, sessionIdRef.current ?? undefined);
+        }
+        break;
     }
+  }
 
-    // Regular cadence: every 30 seconds
-    if (currentSecondsLeft % 30 !== 0) return;
-    if (lastSpokenRef.current === currentSecondsLeft) return;
-
-    lastSpokenRef.current = currentSecondsLeft;
-    const elapsed30 = Math.floor(elapsedSeconds / 30);
-    const bank = shuffledBankRef.current;
-    const base = bank[elapsed30 % bank.length];
-    speakWithSettings(buildMotivationLine(base, activity));
+  function finishSession(sessionSeconds: number) {
+    stopBackgroundMusic();
+    if (speechEnabled) {
+      void speakWithSettings(buildCongratsLine(), "end");
+    }
+    trackEvent("session_complete", {
+      durationMin: sessionSeconds / 60,
+      completionPct: 100,
+      speechOn: speechEnabledRef.current,
+    }, sessionIdRef.current ?? undefined);
+    // Stop camera recording when timer finishes
+    if (mediaRecorderRef.current?.state === "recording") stopRecording();
   }
 
   // Build full background music pipeline at gain 0 (silent) during a user
@@ -763,31 +2133,29 @@ export default function App() {
   // Audio is routed through Web Audio gain node at 0 — NOT native volume
   // (which is read-only on iOS). startBackgroundMusic() raises the gain.
   function unlockAudio() {
-    // 1. Build full background music pipeline at gain 0 (silent)
-    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-    if (AudioContextClass) {
-      const ctx = new AudioContextClass();
-      audioContextRef.current = ctx;
-
-      const audio = new Audio(backMusicUrl);
-      audio.loop = true;
-      audio.crossOrigin = "anonymous";
-      backgroundAudioRef.current = audio;
-
-      const source = ctx.createMediaElementSource(audio);
-      const gainNode = ctx.createGain();
-      gainNode.gain.value = 0; // silent — routed through Web Audio, not native volume
-      bgGainNodeRef.current = gainNode;
-
-      source.connect(gainNode);
-      gainNode.connect(ctx.destination);
-      bgSourceConnectedRef.current = true;
+    // 1. Build full background music pipeline at level 0 (silent). The
+    // mixer (and with it the shared TTS element) is created here on the
+    // first session; later sessions get a fresh music element for the
+    // current track.
+    const mixer = ensureMixer();
+    if (mixer) {
+      stopBackgroundMusic();
+      mixer.setMusicLevel(0); // silent — routed through Web Audio, not native volume
+      mixer.duck(false);
+      const audio = prepareBackgroundMusic(mixer);
 
       // Start playing silently to unlock the Audio element for later use
-      ctx.resume().then(() => { audio.play().catch(() => {}); });
+      mixer.resume().then(() => { audio?.play().catch(() => {}); });
+    }
+
+    // 2. iOS only lets speechSynthesis talk after a gesture-initiated utterance
+    if ("speechSynthesis" in window) {
+      const silent = new SpeechSynthesisUtterance(" ");
+      silent.volume = 0;
+      window.speechSynthesis.speak(silent);
     }
 
-    // 2. Unlock the shared TTS audio element with a silent play
+    // 3. Unlock the shared TTS audio element with a silent play
     const ttsAudio = getSharedTtsAudio();
     ttsAudio.src = "data:audio/wav;base64,UklGRiQAAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABAAZGF0YQAAAAA=";
     ttsAudio.volume = 0;
@@ -798,50 +2166,112 @@ export default function App() {
     }).catch(() => {});
   }
 
-  function startTimer() {
-    const mins = clampInt(parseInt(minutesInput, 10), 1, 15);
-    const startSeconds = mins * 60;
+  function plannedSegments() {
+    return timerMode === "routine" ? routine.map(normalizeSegment) : null;
+  }
 
-    // Update refs synchronously BEFORE any announce calls (avoids stale closure)
-    totalSecondsRef.current = startSeconds;
-    milestonesRef.current = computeMilestones(startSeconds);
+  function plannedCadence() {
+    return timerMode === "reps" ? normalizeCadence(cadence) : null;
+  }
 
-    setDurationMinutes(mins);
+  function plannedIntervals() {
+    return timerMode === "intervals" ? normalizeIntervals(intervals) : null;
+  }
+
+  function updatePresetStore(next: PresetStore) {
+    setPresetStore(next);
+    persistPresetStore(localStorage, next);
+  }
+
+  function currentPresetSettings(): PresetSettings {
+    return {
+      timerMode,
+      durationMinutes: clampInt(parseInt(minutesInput, 10), 1, 15),
+      prepSeconds: waitSeconds,
+      speechEnabled,
+      voiceId,
+      speechSpeed: clampFloat(speechSpeed, speedRange.min, speedRange.max),
+      speedMode,
+      music,
+      autoRecord,
+      routine: routine.map(normalizeSegment),
+      cadence: normalizeCadence(cadence),
+      phaseCueStyle,
+      intervals: normalizeIntervals(intervals),
+      milestones: milestoneSpecs.map(normalizeMilestoneSpec),
+      coaching: normalizeCoaching(coaching),
+      endCountdown,
+      timeAnnouncements,
+      localVoiceURI,
+    };
+  }
+
+  function handleSavePreset() {
+    if (!presetName.trim()) return;
+    const { store, preset } = savePreset(presetStore, presetName, currentPresetSettings(), Date.now());
+    updatePresetStore(store);
+    setPresetName(preset.name);
+  }
+
+  function applyPreset(preset: Preset) {
+    const p = preset.settings;
+    setTimerMode(p.timerMode);
+    setMinutesInput(String(p.durationMinutes));
+    setDurationMinutes(p.durationMinutes);
+    setSecondsLeft(p.durationMinutes * 60);
+    setWaitSeconds(p.prepSeconds);
+    setSpeechEnabled(p.speechEnabled);
+    setVoiceId(p.voiceId);
+    setSpeechSpeed(clampFloat(p.speechSpeed, speedRange.min, speedRange.max));
+    setSpeedMode(p.speedMode);
+    setMusic(p.music);
+    setAutoRecord(p.autoRecord);
+    setRoutine(p.routine);
+    setCadence(p.cadence);
+    setPhaseCueStyle(p.phaseCueStyle);
+    setIntervals(p.intervals);
+    setMilestoneSpecs(p.milestones);
+    setCoaching(p.coaching);
+    setEndCountdown(p.endCountdown);
+    setTimeAnnouncements(p.timeAnnouncements);
+    setLocalVoiceURI(p.localVoiceURI);
+    setPresetName(preset.name);
+    updatePresetStore(markPresetUsed(presetStore, preset.id));
+  }
+
+  function handleDeletePreset(id: string) {
+    updatePresetStore(deletePreset(presetStore, id));
+    setPresetName("");
+  }
+
+  // Runs when the engine leaves prep (or immediately when there is none).
+  function beginSession() {
+    const { totalSeconds: startSeconds } = engine.getSnapshot();
     setSecondsLeft(startSeconds);
-    setIsFinished(false);
-    setIsRunning(true);
     sessionIdRef.current = crypto.randomUUID();
+    sessionStartedAtRef.current = Date.now();
     trackEvent("session_start", {
-      durationMin: mins,
+      durationMin: startSeconds / 60,
       prepTimeSec: waitSeconds,
       speechOn: speechEnabled,
       cameraOn: !!cameraStream,
     }, sessionIdRef.current);
 
-    lastSpokenRef.current = null;
     stopSpeech();
     cancelPrefetch();
 
-    if (speechEnabled && ttsMode === "kokoro") {
-      const lines = buildPrefetchLines(startSeconds, activity, shuffledBankRef.current);
+    if (speechEnabled) {
+      const lines = buildSessionPrefetchLines(sessionPlanRef.current);
       void prefetchLines(lines, voiceId, clampFloat(speechSpeed, speedRange.min, speedRange.max));
-    }
 
-    if (speechEnabled) {
-      void (async () => {
-        try {
-          await speakKokoro(buildStartLine());
-          ttsFailCountRef.current = 0;
-        } catch {
-          ttsFailCountRef.current += 1;
-          if (ttsFailCountRef.current >= 3) {
-            setSpeechEnabled(false);
-            setTtsMuted(true);
-            ttsNoteRef.current = "Voice coaching temporarily unavailable.";
-          }
-        }
-        startBackgroundMusic();
-      })();
+      // After a prep countdown "Go!" lands on zero, ahead of the start line
+      const counted = (sessionPlanRef.current?.prepSeconds ?? 0) > 0;
+      // "Go!" outranks the start line, so it plays first
+      if (counted) void speakWithSettings(GO_LINE, "count", false);
+      // Music follows the start line, unless Pause or Stop cleared it first
+      void speakWithSettings(buildStartLine(), "start").then((outcome) => {
+        if (outcome !== "cleared" && engine.getSnapshot().state === "running") startBackgroundMusic();
+      });
     } else {
       startBackgroundMusic();
     }
@@ -850,164 +2280,168 @@ export default function App() {
     if (autoRecord && cameraStream && !isRecording) {
       startRecording();
     }
-
-    // start boundary
-    announce(startSeconds);
-
-    clearIntervalIfAny();
-    intervalRef.current = window.setInterval(() => {
-      setSecondsLeft((prev) => {
-        const next = prev - 1;
-
-        if (next <= 0) {
-          stopBackgroundMusic();
-          if (speechEnabled) {
-            speakWithSettings(buildCongratsLine());
-          }
-          clearIntervalIfAny();
-          setIsRunning(false);
-          setIsFinished(true);
-          trackEvent("session_complete", {
-            durationMin: totalSecondsRef.current / 60,
-            completionPct: 100,
-            speechOn: speechEnabledRef.current,
-          }, sessionIdRef.current ?? undefined);
-          // Stop camera recording when timer finishes
-          if (mediaRecorderRef.current?.state === "recording") stopRecording();
-          return 0;
-        }
-
-        announce(next);
-        return next;
-      });
-    }, 1000);
   }
 
   function start() {
+    // Starting fresh gives up the session that was offered for resume
+    if (pendingResume) discardSavedSession(pendingResume);
+    sessionIdRef.current = null;
+
+    // A new session gives the cloud voice another chance
+    if (speechTierRef.current === "device") changeSpeechTier("cloud");
+
     // Shuffle motivation bank once per session so each run has a unique order
     shuffledBankRef.current = shuffleArray(MOTIVATION_BANK);
 
     // Silently unlock AudioContext and TTS audio element while we still have
-    // user-gesture context. startTimer() fires from setTimeout inside
-    // setInterval which is no longer a gesture, so browsers would block
-    // AudioContext creation and audio.play() without this.
+    // user-gesture context. When there is a prep countdown the session begins
+    // from an interval tick, which is no longer a gesture, so browsers would
+    // block AudioContext creation and audio.play() without this.
     unlockAudio();
 
-    if (waitSeconds === 0) {
-      startTimer();
-      return;
-    }
+    const mins = clampInt(parseInt(minutesInput, 10), 1, 15);
+    const segments = plannedSegments();
+    const reps = plannedCadence();
+    const rounds = plannedIntervals();
+    const sessionSeconds = reps
+      ? cadenceTotalSeconds(reps)
+      : rounds ? intervalTotalSeconds(rounds) : segments ? routineTotalSeconds(segments) : mins * 60;
+    setDurationMinutes(mins);
+    setActiveSegments(segments);
+    setActiveCadence(reps);
+    setActiveIntervals(rounds);
+    if (segments) setRoutine(segments);
+    if (reps) setCadence(reps);
+    if (rounds) setIntervals(rounds);
+    setSecondsLeft(sessionSeconds);
+
+    const plan: SessionPlan = {
+      totalSeconds: sessionSeconds,
+      segments: segments ?? undefined,
+      cadence: reps ?? undefined,
+      intervals: rounds ?? undefined,
+      milestones: reps || rounds ? undefined : computeMilestones(sessionSeconds, milestoneSpecs),
+      // A fresh seed per session; kept in the plan so a resumed session jitters the same way
+      coaching: { ...normalizeCoaching(coaching), seed: crypto.getRandomValues(new Uint32Array(1))[0] },
+      prepSeconds: waitSeconds,
+      endCountdown,
+      timeAnnouncements,
+      motivationBank: shuffledBankRef.current,
+      activity,
+    };
+    sessionPlanRef.current = plan;
 
     // Prefetch TTS lines during the wait so audio blobs are cached and ready
-    if (speechEnabled && ttsMode === "kokoro") {
-      const mins = clampInt(parseInt(minutesInput, 10), 1, 15);
-      const lines = buildPrefetchLines(mins * 60, activity, shuffledBankRef.current);
+    if (waitSeconds > 0 && speechEnabled) {
+      // Prep guidance and the count first: they are needed right away
+      const lines = [
+        ...buildCountdownPrefetchLines({ prepSeconds: waitSeconds }),
+        ...buildSessionPrefetchLines(plan),
+      ];
       void prefetchLines(lines, voiceId, clampFloat(speechSpeed, speedRange.min, speedRange.max));
     }
 
-    // Start wait countdown
-    setIsWaiting(true);
-    setWaitSecondsLeft(waitSeconds);
-
-    clearWaitIntervalIfAny();
-    waitIntervalRef.current = window.setInterval(() => {
-      setWaitSecondsLeft((prev) => {
-        const next = prev - 1;
-        if (next <= 0) {
-          clearWaitIntervalIfAny();
-          setIsWaiting(false);
-          // Use setTimeout to ensure state flush before starting timer
-          setTimeout(() => startTimer(), 0);
-          return 0;
-        }
-        return next;
-      });
-    }, 1000);
+    engine.start(plan);
+    startTicking();
+  }
+
+  // Picks up a session saved before a reload. The engine comes back paused
+  // at the saved position; a session that was running continues right away
+  // (this runs from the Resume tap, so audio can start).
+  function resumeSavedSession(saved: SavedSession) {
+    setPendingResume(null);
+    // The Resume tap is the gesture; like beginSession, unlock the audio
+    // pipeline now or iOS keeps the TTS clips and the music silent
+    unlockAudio();
+    const { plan } = saved;
+    sessionIdRef.current = saved.sessionId;
+    sessionStartedAtRef.current = saved.startedAt;
+    sessionPlanRef.current = plan;
+    shuffledBankRef.current = plan.motivationBank?.length ? plan.motivationBank : MOTIVATION_BANK;
+
+    setTimerMode(saved.timerMode);
+    setPhaseCueStyle(saved.phaseCueStyle);
+    setActiveSegments(plan.segments ?? null);
+    setActiveCadence(plan.cadence ?? null);
+    setActiveIntervals(plan.intervals ?? null);
+    if (!plan.segments && !plan.cadence && !plan.intervals) {
+      setDurationMinutes(Math.max(1, Math.round(plan.totalSeconds / 60)));
+    }
+
+    engine.restore(plan, { elapsed: saved.elapsed, spokenCues: saved.spokenCues });
+    const snap = engine.getSnapshot();
+    setSecondsLeft(snap.secondsLeft);
+    trackEvent("session_resume", {
+      durationMin: snap.totalSeconds / 60,
+      completionPct: savedSessionCompletionPct(saved),
+      speechOn: speechEnabled,
+    }, saved.sessionId);
+
+    if (saved.paused) return;
+
+    if (speechEnabled) {
+      const lines = buildSessionPrefetchLines(plan);
+      void prefetchLines(lines, voiceId, clampFloat(speechSpeed, speedRange.min, speedRange.max));
+    }
+    startBackgroundMusic();
+    engine.resume();
+    startTicking();
+  }
+
+  function discardSavedSession(saved: SavedSession) {
+    setPendingResume(null);
+    clearSavedSession(localStorage);
+    trackEvent("session_abandon", {
+      durationMin: saved.totalSeconds / 60,
+      completionPct: savedSessionCompletionPct(saved),
+    }, saved.sessionId);
   }
 
   function pause() {
-    setIsRunning(false);
-    clearIntervalIfAny();
+    engine.pause();
     stopSpeech();
     backgroundAudioRef.current?.pause();
   }
 
   function resume() {
-    if (secondsLeft <= 0) return;
-    setIsRunning(true);
+    if (engine.getSnapshot().state !== "paused") return;
 
-    if (speechEnabled && ttsMode === "kokoro") {
-      const lines = buildPrefetchLines(totalSeconds, activity, shuffledBankRef.current);
+    if (speechEnabled) {
+      const lines = buildSessionPrefetchLines(sessionPlanRef.current);
       void prefetchLines(lines, voiceId, clampFloat(speechSpeed, speedRange.min, speedRange.max));
     }
 
-    // Resume AudioContext for iOS, then play audio
-    if (audioContextRef.current) {
-      audioContextRef.current.resume().then(() => {
+    // Resume AudioContext for iOS, then play audio. A session restored
+    // after a reload has no music pipeline yet.
+    if (!backgroundAudioRef.current) {
+      startBackgroundMusic();
+    } else if (sharedMixer) {
+      sharedMixer.resume().then(() => {
         backgroundAudioRef.current?.play();
       });
     } else {
       backgroundAudioRef.current?.play();
     }
 
-    announce(secondsLeft);
-
-    clearIntervalIfAny();
-    intervalRef.current = window.setInterval(() => {
-      setSecondsLeft((prev) => {
-        const next = prev - 1;
-
-        if (next <= 0) {
-          stopBackgroundMusic();
-          if (speechEnabled) {
-            speakWithSettings(buildCongratsLine());
-          }
-          clearIntervalIfAny();
-          setIsRunning(false);
-          setIsFinished(true);
-          trackEvent("session_complete", {
-            durationMin: totalSecondsRef.current / 60,
-            completionPct: 100,
-            speechOn: speechEnabledRef.current,
-          }, sessionIdRef.current ?? undefined);
-          // Stop camera recording when timer finishes
-          if (mediaRecorderRef.current?.state === "recording") stopRecording();
-          return 0;
-        }
-
-        announce(next);
-        return next;
-      });
-    }, 1000);
+    engine.resume();
+    startTicking();
   }
 
   function reset() {
-    clearWaitIntervalIfAny();
-    setIsWaiting(false);
-    setWaitSecondsLeft(0);
     pause();
-    setIsFinished(false);
-    setSecondsLeft(durationMinutes * 60);
-    lastSpokenRef.current = null;
+    engine.reset();
+    setWaitSecondsLeft(0);
+    setSecondsLeft(totalSeconds);
     cancelPrefetch();
   }
 
   function stopAndClear() {
-    clearWaitIntervalIfAny();
-    setIsWaiting(false);
+    // Emits "abandoned" (analytics) before we return to idle
+    engine.abandon();
+    engine.reset();
     setWaitSecondsLeft(0);
-    pause();
-    if (secondsLeft < durationMinutes * 60) {
-      const elapsed = durationMinutes * 60 - secondsLeft;
-      trackEvent("session_abandon", {
-        durationMin: durationMinutes,
-        completionPct: Math.round((elapsed / (durationMinutes * 60)) * 100),
-        speechOn: speechEnabled,
-      }, sessionIdRef.current ?? undefined);
-    }
-    setIsFinished(false);
-    setSecondsLeft(durationMinutes * 60);
-    lastSpokenRef.current = null;
+    stopSpeech();
+    setSecondsLeft(totalSeconds);
     cancelPrefetch();
     stopBackgroundMusic();
     // Stop camera recording on manual stop
@@ -1015,8 +2449,8 @@ export default function App() {
   }
 
   // Status helpers for UI
-  const isPaused = !isRunning && !isWaiting && !isFinished && secondsLeft > 0 && secondsLeft !== totalSeconds;
-  const isReady = !isRunning && !isWaiting && !isFinished && secondsLeft === totalSeconds;
+  const isPaused = sessionState === "paused";
+  const isReady = sessionState === "idle";
 
   // Motivational subtitle that changes with state
   const motivationalSubtitle = isWaiting
@@ -1030,6 +2464,9 @@ export default function App() {
           : "Every session brings you closer to freedom of movement.";
 
   const percentComplete = Math.round(progress * 100);
+  const offlineBadge = describeOfflineStatus({ online, controlled: swControlled, precache });
+  const pickerVoices = selectableLocalVoices(localVoices);
+  const speechBanner = describeSpeechTier(speechTier, pickLocalVoice(localVoices, localVoiceURI)?.name);
 
   const [accessCodeLoading, setAccessCodeLoading] = useState(false);
 
@@ -1051,6 +2488,9 @@ export default function App() {
           localStorage.setItem(ACCESS_CODE_KEY, code);
           trackEvent("new_user");
           setAccessCode(code);
+        } else if (res.status === 429) {
+          const minutes = Math.max(1, Math.ceil(Number(res.headers.get("Retry-After") || 60) / 60));
+          setAccessCodeError(`Too many attempts. Try again in ${minutes} ${minutes === 1 ? "minute" : "minutes"}.`);
         } else {
           setAccessCodeError("Invalid access code. Please try again.");
         }
@@ -1118,6 +2558,21 @@ export default function App() {
           <p className="mt-3 text-warmmuted text-sm sm:text-base leading-relaxed max-w-xs mx-auto">
             {motivationalSubtitle}
           </p>
+          {offlineBadge && (
+            <div
+              className={`mt-3 inline-flex items-center gap-2 rounded-full border border-warmborder px-3 py-1 text-xs ${
+                offlineBadge.tone === "ok" ? "text-warmsuccess" : offlineBadge.tone === "warn" ? "text-warmamber" : "text-warmmuted"
+              }`}
+              role="status"
+            >
+              <span
+                className={`h-1.5 w-1.5 rounded-full ${
+                  offlineBadge.tone === "ok" ? "bg-warmsuccess" : offlineBadge.tone === "warn" ? "bg-warmamber" : "bg-warmmuted animate-pulse-dot"
+                }`}
+              />
+              {offlineBadge.label}
+            </div>
+          )}
         </div>
 
         {/* ---- Main Panel ---- */}
@@ -1147,6 +2602,16 @@ export default function App() {
               <div className="relative flex items-center justify-center">
                 <ProgressRing
                   progress={progress}
+                  segmentProgress={
+                    !(isRunning || isPaused)
+                      ? undefined
+                      : segmentPosition
+                        ? segmentPosition.elapsed / segmentPosition.segment.seconds
+                        : cadencePosition
+                          ? cadencePosition.phaseElapsed / cadencePosition.seconds
+                          : undefined
+                  }
+                  rounds={roundArcs}
                   size={260}
                   strokeWidth={6}
                   isRunning={isRunning}
@@ -1171,9 +2636,42 @@ export default function App() {
                       <div className={`font-[family-name:var(--font-display)] text-5xl sm:text-6xl tabular-nums tracking-tight ${
                         isRunning ? "text-warmcream" : "text-warmmuted"
                       }`}>
-                        {formatMMSS(secondsLeft)}
+                        {formatMMSS(
+                          isReady && timerMode === "routine"
+                            ? routineTotalSeconds(routine)
+                            : isReady && timerMode === "reps"
+                              ? cadenceTotalSeconds(cadence)
+                              : isReady && timerMode === "intervals" ? intervalTotalSeconds(intervals) : secondsLeft,
+                        )}
                       </div>
-                      {isRunning && (
+                      {(isRunning || isPaused) && segmentPosition ? (
+                        <div className="mt-2 text-center text-xs">
+                          <div className="text-warmamber capitalize">{segmentPosition.segment.name}</div>
+                          <div className="text-warmgold/80 tabular-nums">
+                            {formatMMSS(segmentPosition.secondsLeft)} left &middot; {segmentPosition.index + 1} of {activeSegments?.length}
+                          </div>
+                        </div>
+                      ) : (isRunning || isPaused) && cadencePosition && activeCadence ? (
+                        <div className="mt-2 text-center text-xs">
+                          <div className="text-warmamber uppercase tracking-wider">
+                            {{ "lead-in": "Get ready", hold: "Hold", release: "Release", "set-rest": "Rest" }[cadencePosition.kind]}
+                          </div>
+                          <div className="text-warmgold/80 tabular-nums">
+                            Set {cadencePosition.set} of {activeCadence.sets} &middot; Rep{" "}
+                            {cadencePosition.rep || cadencePosition.repsDone - (cadencePosition.set - 1) * activeCadence.reps}{" "}
+                            of {activeCadence.reps}
+                          </div>
+                        </div>
+                      ) : (isRunning || isPaused) && intervalPosition && activeIntervals ? (
+                        <div className="mt-2 text-center text-xs">
+                          <div className="text-warmamber uppercase tracking-wider">
+                            {intervalPosition.kind === "rest" ? "Rest" : "Work"}
+                          </div>
+                          <div className="text-warmgold/80 tabular-nums">
+                            {formatMMSS(intervalPosition.secondsLeft)} left &middot; Round {intervalPosition.round} of {activeIntervals.rounds}
+                          </div>
+                        </div>
+                      ) : isRunning && (
                         <div className="mt-2 text-warmgold/80 text-xs">
                           {durationMinutes} min session
                         </div>
@@ -1188,23 +2686,148 @@ export default function App() {
           {/* ---- Setup Controls ---- */}
           {!isRunning && !isWaiting && (
             <div className="mt-8 space-y-5 animate-fade-in-up" style={{ animationDelay: "0.15s" }}>
+              {/* Resume after reload */}
+              {isReady && pendingResume && (
+                <div className="rounded-xl border border-warmamber/40 bg-warmamber/10 px-4 py-3">
+                  <p className="text-sm text-warmcream">{buildResumePrompt(pendingResume)}</p>
+                  <div className="mt-3 flex gap-3">
+                    <button className="btn-primary flex-1 text-sm" onClick={() => resumeSavedSession(pendingResume)}>
+                      Resume
+                    </button>
+                    <button className="btn-ghost text-sm" onClick={() => discardSavedSession(pendingResume)}>
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Presets */}
+              {isReady && (
+                <div>
+                  <div className="text-xs text-warmmuted uppercase tracking-wider mb-2">Presets</div>
+                  {presetStore.presets.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {presetStore.presets.map((p) => (
+                        <button
+                          key={p.id}
+                          className={`wait-btn rounded-xl border border-warmborder !px-3 text-sm ${
+                            presetStore.lastUsedId === p.id ? "active" : ""
+                          }`}
+                          onClick={() => applyPreset(p)}
+                        >
+                          {p.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      className="input-warm flex-1 min-w-0 text-sm"
+                      placeholder="Preset name, e.g. Morning bends"
+                      value={presetName}
+                      maxLength={PRESET_NAME_MAX}
+                      onChange={(e) => setPresetName(e.target.value)}
+                      aria-label="Preset name"
+                    />
+                    <button className="btn-secondary text-xs" onClick={handleSavePreset} disabled={!presetName.trim()}>
+                      Save
+                    </button>
+                    {presetStore.lastUsedId && (
+                      <button
+                        className="btn-ghost text-xs"
+                        onClick={() => handleDeletePreset(presetStore.lastUsedId!)}
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Mode */}
+              <div>
+                <div className="text-xs text-warmmuted uppercase tracking-wider mb-2">Mode</div>
+                <div className="flex rounded-xl overflow-hidden border border-warmborder">
+                  {([
+                    { val: "single", label: "Single timer" },
+                    { val: "routine", label: "Routine" },
+                    { val: "reps", label: "Reps" },
+                    { val: "intervals", label: "Intervals" },
+                  ] as const).map((opt) => (
+                    <button
+                      key={opt.val}
+                      className={`wait-btn flex-1 ${timerMode === opt.val ? "active" : ""}`}
+                      onClick={() => setTimerMode(opt.val)}
+                      disabled={isRunning || isWaiting || isPaused}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {timerMode === "routine" && !isPaused && (
+                <RoutineBuilder segments={routine} onChange={setRoutine} />
+              )}
+
+              {timerMode === "intervals" && !isPaused && (
+                <IntervalSettings intervals={intervals} onChange={setIntervals} />
+              )}
+
+              {(timerMode === "single" || timerMode === "routine") && !isPaused && (
+                <div>
+                  <button
+                    className="flex items-center gap-2 text-xs text-warmmuted uppercase tracking-wider"
+                    onClick={() => setShowMilestones((v) => !v)}
+                  >
+                    Milestones ({milestoneSpecs.length})
+                    <svg
+                      className={`h-3 w-3 transition-transform duration-300 ${showMilestones ? "rotate-180" : ""}`}
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                      strokeWidth={2}
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </button>
+                  {showMilestones && (
+                    <div className="mt-2">
+                      <MilestoneEditor milestones={milestoneSpecs} onChange={setMilestoneSpecs} />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {timerMode === "reps" && !isPaused && (
+                <CadenceSettings
+                  cadence={cadence}
+                  onChange={setCadence}
+                  cueStyle={phaseCueStyle}
+                  onCueStyleChange={setPhaseCueStyle}
+                />
+              )}
+
               {/* Duration + Wait */}
               <div className="flex items-start gap-4 flex-wrap">
-                <label className="flex-1 min-w-[140px]">
-                  <div className="text-xs text-warmmuted uppercase tracking-wider mb-2">Duration</div>
-                  <input
-                    type="number"
-                    min={1}
-                    max={15}
-                    step={1}
-                    inputMode="numeric"
-                    className="input-warm w-full text-lg"
-                    value={minutesInput}
-                    onChange={(e) => setMinutesInput(e.target.value)}
-                    disabled={isRunning || isWaiting}
-                  />
-                  <div className="text-xs text-warmmuted mt-1">1 &ndash; 15 minutes</div>
-                </label>
+                {timerMode === "single" && (
+                  <label className="flex-1 min-w-[140px]">
+                    <div className="text-xs text-warmmuted uppercase tracking-wider mb-2">Duration</div>
+                    <input
+                      type="number"
+                      min={1}
+                      max={15}
+                      step={1}
+                      inputMode="numeric"
+                      className="input-warm w-full text-lg"
+                      value={minutesInput}
+                      onChange={(e) => setMinutesInput(e.target.value)}
+                      disabled={isRunning || isWaiting}
+                    />
+                    <div className="text-xs text-warmmuted mt-1">1 &ndash; 15 minutes</div>
+                  </label>
+                )}
 
                 <div className="flex-1 min-w-[140px]">
                   <div className="text-xs text-warmmuted uppercase tracking-wider mb-2">Prep time</div>
@@ -1228,6 +2851,163 @@ export default function App() {
                 </div>
               </div>
 
+              {/* Voice */}
+              {isReady && (
+                <div>
+                  <div className="text-xs text-warmmuted uppercase tracking-wider mb-2">Voice coaching</div>
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-warmgold rounded"
+                        checked={speechEnabled}
+                        onChange={(e) => {
+                          setSpeechEnabled(e.target.checked);
+                          if (e.target.checked) changeSpeechTier("cloud");
+                        }}
+                      />
+                      <span className="text-sm text-warmmuted">Speak</span>
+                    </label>
+                    <select
+                      className="select-warm text-sm"
+                      value={voiceId}
+                      onChange={(e) => setVoiceId(e.target.value)}
+                      disabled={!speechEnabled}
+                      aria-label="Voice"
+                    >
+                      {(voices.some((v) => v.id === voiceId) ? voices : [{ id: voiceId }, ...voices]).map((v) => (
+                        <option key={v.id} value={v.id}>
+                          {"label" in v && v.label ? v.label : v.id}
+                          {staticSets.some((set) => set.voice === v.id) ? " (pre-generated)" : ""}
+                        </option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-2 flex-1 min-w-[160px]">
+                      <input
+                        type="range"
+                        className="flex-1 accent-warmgold"
+                        min={speedRange.min}
+                        max={speedRange.max}
+                        step={speedRange.step}
+                        value={speechSpeed}
+                        onChange={(e) => setSpeechSpeed(parseFloat(e.target.value))}
+                        disabled={!speechEnabled}
+                        aria-label="Speech speed"
+                      />
+                      <span className="w-12 text-xs text-warmmuted tabular-nums">{speechSpeed.toFixed(2)}x</span>
+                    </label>
+                  </div>
+                  <label className="mt-3 flex items-center gap-2">
+                    <span className="text-xs text-warmmuted">Speed changes</span>
+                    <select
+                      className="select-warm flex-1 min-w-0 text-sm"
+                      value={speedMode}
+                      onChange={(e) => setSpeedMode(e.target.value as SpeedMode)}
+                      disabled={!speechEnabled}
+                      aria-label="How speed changes are made"
+                    >
+                      {SPEED_MODES.map((m) => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </select>
+                    <span className="text-xs text-warmmuted">
+                      {describeSpeedChange(speedMode, voiceId, clampFloat(speechSpeed, speedRange.min, speedRange.max), staticSets)}
+                    </span>
+                  </label>
+                  {speechEnabled && staticCoverageNote && (
+                    <div className="mt-2 text-xs text-warmmuted">{staticCoverageNote}</div>
+                  )}
+                  <div className="mt-3">
+                    <CoachingSettings coaching={coaching} onChange={setCoaching} disabled={!speechEnabled} />
+                  </div>
+                  {pickerVoices.length > 0 && (
+                    <label className="mt-3 flex items-center gap-2">
+                      <span className="text-xs text-warmmuted">Backup voice</span>
+                      <select
+                        className="select-warm flex-1 min-w-0 text-sm"
+                        value={pickerVoices.some((v) => v.voiceURI === localVoiceURI) ? localVoiceURI : ""}
+                        onChange={(e) => setLocalVoiceURI(e.target.value)}
+                        disabled={!speechEnabled}
+                        aria-label="Backup voice used when the coaching voice is unreachable"
+                      >
+                        <option value="">Automatic</option>
+                        {pickerVoices.map((v) => (
+                          <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  <label className="mt-3 flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-warmgold rounded"
+                      checked={endCountdown}
+                      onChange={(e) => setEndCountdown(e.target.checked)}
+                      disabled={!speechEnabled}
+                    />
+                    <span className="text-sm text-warmmuted">Count down the last 10 seconds</span>
+                  </label>
+                  <label className="mt-3 flex items-center gap-2">
+                    <span className="text-xs text-warmmuted">Announce time</span>
+                    <select
+                      className="select-warm flex-1 min-w-0 text-sm"
+                      value={timeAnnouncements.mode}
+                      onChange={(e) =>
+                        setTimeAnnouncements({ ...timeAnnouncements, mode: e.target.value as TimeAnnouncementMode })
+                      }
+                      disabled={!speechEnabled}
+                      aria-label="Spoken time announcements"
+                    >
+                      {TIME_ANNOUNCEMENT_MODES.map((m) => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      className="select-warm text-sm"
+                      value={timeAnnouncements.everyMinutes}
+                      onChange={(e) => setTimeAnnouncements({ ...timeAnnouncements, everyMinutes: Number(e.target.value) })}
+                      disabled={!speechEnabled || timeAnnouncements.mode === "off"}
+                      aria-label="Minutes between time announcements"
+                    >
+                      {ANNOUNCE_EVERY_OPTIONS.map((n) => (
+                        <option key={n} value={n}>every {n} min</option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="mt-3 flex items-center gap-2">
+                    <span className="text-xs text-warmmuted tabular-nums">
+                      Cached audio: {audioCacheStats.entries} {audioCacheStats.entries === 1 ? "line" : "lines"} &middot;{" "}
+                      {formatBytes(audioCacheStats.bytes)}
+                    </span>
+                    <button
+                      className="btn-ghost !px-2 !py-1 text-xs ml-auto"
+                      onClick={() => void clearCachedAudio()}
+                      disabled={audioCacheStats.entries === 0}
+                    >
+                      Clear cached audio
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Music */}
+              {isReady && (
+                <div>
+                  <div className="text-xs text-warmmuted uppercase tracking-wider mb-2">Background music</div>
+                  <MusicSettingsPanel
+                    music={music}
+                    onChange={setMusic}
+                    tracks={[
+                      ...BUNDLED_TRACKS,
+                      ...userTracks.map((t) => ({ id: t.id, label: `${t.name} (${formatBytes(t.size)})` })),
+                    ]}
+                    onUpload={(file) => void addMusicTrack(file)}
+                    onRemove={(id) => void removeMusicTrack(id)}
+                    error={musicError}
+                  />
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-3 flex-wrap">
                 {isReady && (
@@ -1384,16 +3164,16 @@ export default function App() {
           )}
         </div>
 
-        {/* ---- TTS Muted Banner ---- */}
-        {ttsMuted && (
+        {/* ---- Speech Fallback Banner ---- */}
+        {speechBanner && (
           <div className="panel-warm mt-4 p-4 animate-fade-in-up">
             <div className="flex items-start gap-3">
               <svg className="h-5 w-5 text-warmamber shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9 3.75h.008v.008H12v-.008Z" />
               </svg>
               <div>
-                <p className="text-sm text-warmcream">Voice coaching is temporarily unavailable.</p>
-                <p className="text-xs text-warmmuted mt-1">The timer will continue without audio. Your session is unaffected.</p>
+                <p className="text-sm text-warmcream">{speechBanner.title}</p>
+                <p className="text-xs text-warmmuted mt-1">{speechBanner.detail}</p>
               </div>
             </div>
           </div>
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAudioCache,
+  createMemoryAudioCacheStore,
+  effectiveCacheLimit,
+  formatBytes,
+  planEviction,
+  ttsCacheKey,
+} from "./audioCache";
+
+const blob = (size: number) => new Blob([new Uint8Array(size)]);
+
+describe("audioCache", () => {
+  it("keys lines like the static clips and api/tts.js", async () => {
+    // Names the static clip public/audio/echo-1.00/40618c3c….mp3
+    const text = "Ok, let's get started. Let's make this effort count. Keep going.";
+    const key = await ttsCacheKey(text, "echo", 1);
+    expect(key).toBe("40618c3c7375782de524614591d03e41ef444f10067e3d8773bb890018a76aa5");
+    expect(key).not.toBe(await ttsCacheKey(text, "echo", 1.05));
+  });
+
+  it("evicts least recently used entries first", () => {
+    const entries = [
+      { key: "a", size: 40, lastUsed: 3 },
+      { key: "b", size: 40, lastUsed: 1 },
+      { key: "c", size: 40, lastUsed: 2 },
+    ];
+    expect(planEviction(entries, 100, 30)).toEqual(["b", "c"]);
+    expect(planEviction(entries, 200, 30)).toEqual([]);
+  });
+
+  it("shrinks the budget when the storage quota runs low", () => {
+    expect(effectiveCacheLimit(1000, 0, null)).toBe(1000);
+    expect(effectiveCacheLimit(1000, 100, { quota: 1000, usage: 300 })).toBe(300);
+    expect(effectiveCacheLimit(1000, 0, { quota: 1000, usage: 900 })).toBe(0);
+  });
+
+  it("stores, reads back and evicts within the byte budget", async () => {
+    let t = 0;
+    const cache = createAudioCache(createMemoryAudioCacheStore(), { maxBytes: 100, now: () => ++t });
+    await cache.put("a", blob(40));
+    await cache.put("b", blob(40));
+    expect(await cache.get("a")).not.toBeNull(); // a is now more recent than b
+    await cache.put("c", blob(40));
+    expect(await cache.has("b")).toBe(false);
+    expect(await cache.has("a")).toBe(true);
+    expect(await cache.stats()).toEqual({ entries: 2, bytes: 80 });
+
+    await cache.put("huge", blob(500));
+    expect(await cache.has("huge")).toBe(false);
+
+    await cache.clear();
+    expect(await cache.stats()).toEqual({ entries: 0, bytes: 0 });
+    expect(await cache.get("a")).toBeNull();
+  });
+
+  it("formats sizes for the settings line", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(2048)).toBe("2 KB");
+    expect(formatBytes(3.5 * 1024 * 1024)).toBe("3.5 MB");
+  });
+});
@@ -0,0 +1,235 @@
+// Persistent client-side TTS audio cache, so lines synthesized by /api/tts
+// survive a reload instead of costing another API call. Static clips are not
+// stored here — the service worker keeps those.
+//
+// Keys are the same SHA-256 of "voice|speed|text" that names the static clips
+// and the server cache in api/_tts/cache.js. The store is IndexedDB where available,
+// with an in-memory store as the fallback (and for tests); eviction is least
+// recently used, within a byte budget that also respects the storage quota.
+
+import { done, openDatabase, settle } from "./idb";
+
+export type AudioCacheEntry = { key: string; size: number; lastUsed: number };
+
+export type AudioCacheStore = {
+  get(key: string): Promise<Blob | null>;
+  put(entry: AudioCacheEntry, blob: Blob): Promise<void>;
+  touch(entry: AudioCacheEntry): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  entries(): Promise<AudioCacheEntry[]>;
+  clear(): Promise<void>;
+};
+
+export type StorageEstimateLike = { quota?: number; usage?: number };
+
+export type AudioCacheStats = { entries: number; bytes: number };
+
+export type AudioCache = {
+  get(key: string): Promise<Blob | null>;
+  has(key: string): Promise<boolean>;
+  put(key: string, blob: Blob): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<AudioCacheStats>;
+};
+
+export const AUDIO_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+// Never let this cache take the origin past this share of its storage quota
+// (the service worker's static audio lives in the same quota)
+export const AUDIO_CACHE_QUOTA_SHARE = 0.5;
+
+export async function sha256Hex(input: string): Promise<string> {
+  const encoded = new TextEncoder().encode(input);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", encoded);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Same key as the static clip file names and api/_tts/cache.js
+export function ttsCacheKey(text: string, voice: string, speed: number) {
+  return sha256Hex(`${voice}|${speed.toFixed(2)}|${text}`);
+}
+
+// How many bytes the cache may hold: maxBytes, or less when the origin is
+// running out of quota. cacheBytes is what the cache holds now (it is part
+// of the reported usage).
+export function effectiveCacheLimit(maxBytes: number, cacheBytes: number, estimate: StorageEstimateLike | null) {
+  if (!estimate?.quota) return maxBytes;
+  const free = estimate.quota * AUDIO_CACHE_QUOTA_SHARE - (estimate.usage ?? 0);
+  return Math.max(0, Math.min(maxBytes, cacheBytes + free));
+}
+
+// Least recently used entries to drop so that incomingBytes fits in limitBytes
+export function planEviction(entries: AudioCacheEntry[], limitBytes: number, incomingBytes: number): string[] {
+  let total = entries.reduce((sum, e) => sum + e.size, 0) + incomingBytes;
+  const evict: string[] = [];
+  for (const e of entries.slice().sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= limitBytes) break;
+    evict.push(e.key);
+    total -= e.size;
+  }
+  return evict;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Store failures (quota errors, private mode, a blocked database) make the
+// cache miss rather than break speech.
+export function createAudioCache(
+  store: AudioCacheStore,
+  options: { maxBytes?: number; estimate?: () => Promise<StorageEstimateLike | null>; now?: () => number } = {},
+): AudioCache {
+  const maxBytes = options.maxBytes ?? AUDIO_CACHE_MAX_BYTES;
+  const now = options.now ?? (() => Date.now());
+  let index: Promise<Map<string, AudioCacheEntry>> | null = null;
+
+  function loadIndex() {
+    index ??= store
+      .entries()
+      .catch(() => [])
+      .then((entries) => new Map(entries.map((e) => [e.key, e])));
+    return index;
+  }
+
+  async function bytes() {
+    let sum = 0;
+    for (const e of (await loadIndex()).values()) sum += e.size;
+    return sum;
+  }
+
+  return {
+    async get(key) {
+      const entries = await loadIndex();
+      const entry = entries.get(key);
+      if (!entry) return null;
+      try {
+        const blob = await store.get(key);
+        if (!blob) {
+          entries.delete(key);
+          return null;
+        }
+        const touched = { ...entry, lastUsed: now() };
+        entries.set(key, touched);
+        void store.touch(touched).catch(() => {});
+        return blob;
+      } catch {
+        return null;
+      }
+    },
+
+    async has(key) {
+      return (await loadIndex()).has(key);
+    },
+
+    async put(key, blob) {
+      const entries = await loadIndex();
+      const estimate = options.estimate ? await options.estimate().catch(() => null) : null;
+      const limit = effectiveCacheLimit(maxBytes, await bytes(), estimate);
+      if (blob.size > limit) return;
+      const others = Array.from(entries.values()).filter((e) => e.key !== key);
+      const evict = planEviction(others, limit, blob.size);
+      const entry = { key, size: blob.size, lastUsed: now() };
+      try {
+        if (evict.length) await store.remove(evict);
+        for (const k of evict) entries.delete(k);
+        await store.put(entry, blob);
+        entries.set(key, entry);
+      } catch {
+        // Out of space after all — leave this line uncached
+      }
+    },
+
+    async clear() {
+      await store.clear().catch(() => {});
+      index = Promise.resolve(new Map());
+    },
+
+    async stats() {
+      return { entries: (await loadIndex()).size, bytes: await bytes() };
+    },
+  };
+}
+
+export function createMemoryAudioCacheStore(): AudioCacheStore {
+  const meta = new Map<string, AudioCacheEntry>();
+  const blobs = new Map<string, Blob>();
+  return {
+    async get(key) {
+      return blobs.get(key) ?? null;
+    },
+    async put(entry, blob) {
+      meta.set(entry.key, entry);
+      blobs.set(entry.key, blob);
+    },
+    async touch(entry) {
+      if (meta.has(entry.key)) meta.set(entry.key, entry);
+    },
+    async remove(keys) {
+      for (const k of keys) {
+        meta.delete(k);
+        blobs.delete(k);
+      }
+    },
+    async entries() {
+      return Array.from(meta.values());
+    },
+    async clear() {
+      meta.clear();
+      blobs.clear();
+    },
+  };
+}
+
+const DB_NAME = "knee-timer-audio";
+const DB_VERSION = 1;
+// Metadata and audio in separate stores so listing entries never loads audio
+const META_STORE = "meta";
+const BLOB_STORE = "blobs";
+
+// Null when IndexedDB is missing or refuses to open (e.g. some private modes)
+export async function openIndexedDbAudioCacheStore(): Promise<AudioCacheStore | null> {
+  const db = await openDatabase(DB_NAME, DB_VERSION, (database) => {
+    database.createObjectStore(META_STORE, { keyPath: "key" });
+    database.createObjectStore(BLOB_STORE);
+  });
+  if (!db) return null;
+
+  return {
+    async get(key) {
+      const blob = await settle(db.transaction(BLOB_STORE).objectStore(BLOB_STORE).get(key));
+      return blob instanceof Blob ? blob : null;
+    },
+    async put(entry, blob) {
+      const tx = db.transaction([META_STORE, BLOB_STORE], "readwrite");
+      tx.objectStore(META_STORE).put(entry);
+      tx.objectStore(BLOB_STORE).put(blob, entry.key);
+      await done(tx);
+    },
+    async touch(entry) {
+      const tx = db.transaction(META_STORE, "readwrite");
+      tx.objectStore(META_STORE).put(entry);
+      await done(tx);
+    },
+    async remove(keys) {
+      const tx = db.transaction([META_STORE, BLOB_STORE], "readwrite");
+      for (const k of keys) {
+        tx.objectStore(META_STORE).delete(k);
+        tx.objectStore(BLOB_STORE).delete(k);
+      }
+      await done(tx);
+    },
+    async entries() {
+      return (await settle(db.transaction(META_STORE).objectStore(META_STORE).getAll())) as AudioCacheEntry[];
+    },
+    async clear() {
+      const tx = db.transaction([META_STORE, BLOB_STORE], "readwrite");
+      tx.objectStore(META_STORE).clear();
+      tx.objectStore(BLOB_STORE).clear();
+      await done(tx);
+    },
+  };
+}
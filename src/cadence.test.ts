@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  PHASE_LINES,
+  buildCadenceCues,
+  cadenceAt,
+  cadenceMotivationTimes,
+  cadencePhases,
+  cadenceTotalSeconds,
+  normalizeCadence,
+} from "./cadence";
+
+const config = { reps: 3, holdSeconds: 5, releaseSeconds: 3, sets: 2, setRestSeconds: 30 };
+
+describe("cadence", () => {
+  it("lays out sets of hold/release phases with rest between sets", () => {
+    const phases = cadencePhases(config);
+    expect(phases.map((p) => p.kind)).toEqual([
+      "lead-in",
+      "hold", "release", "hold", "release", "hold", "release",
+      "set-rest",
+      "hold", "release", "hold", "release", "hold", "release",
+    ]);
+    // 5 lead-in + 2 × 3 × 8 + 30 rest
+    expect(cadenceTotalSeconds(config)).toBe(83);
+  });
+
+  it("clamps out-of-range settings", () => {
+    expect(normalizeCadence({ reps: 0, holdSeconds: 999, releaseSeconds: 2.7, sets: -1, setRestSeconds: 5 })).toEqual({
+      reps: 1,
+      holdSeconds: 60,
+      releaseSeconds: 2,
+      sets: 1,
+      setRestSeconds: 5,
+    });
+  });
+
+  it("tracks the current phase and reps done", () => {
+    expect(cadenceAt(config, 0)).toMatchObject({ kind: "lead-in", repsDone: 0, phaseLeft: 5 });
+    expect(cadenceAt(config, 7)).toMatchObject({ kind: "hold", set: 1, rep: 1, repsDone: 0, phaseLeft: 3 });
+    expect(cadenceAt(config, 10)).toMatchObject({ kind: "release", rep: 1, repsDone: 1 });
+    expect(cadenceAt(config, 40)).toMatchObject({ kind: "set-rest", repsDone: 3 });
+    expect(cadenceAt(config, 59)).toMatchObject({ kind: "hold", set: 2, rep: 1, repsDone: 3 });
+    expect(cadenceAt(config, 500)).toMatchObject({ kind: "release", set: 2, rep: 3, repsDone: 6, phaseLeft: 0 });
+  });
+
+  it("cues every phase change and announces set rests", () => {
+    const cues = buildCadenceCues(config);
+    expect(cues[0]).toEqual({ key: "hold-1-1", elapsed: 5, kind: "phase", text: PHASE_LINES.hold, raw: true });
+    expect(cues[1]).toEqual({ key: "release-1-1", elapsed: 10, kind: "phase", text: PHASE_LINES.release, raw: true });
+    expect(cues.find((c) => c.kind === "transition")).toEqual({
+      key: "set-1",
+      elapsed: 29,
+      kind: "transition",
+      text: "Set 1 done. Rest for 30 seconds.",
+    });
+  });
+
+  it("only places motivation lines in gaps long enough to hold one", () => {
+    // 3-second releases are too short; only the set rest has room
+    expect(cadenceMotivationTimes(config)).toEqual([{ elapsed: 33, slot: 1 }]);
+
+    const slow = { reps: 10, holdSeconds: 10, releaseSeconds: 8, sets: 1, setRestSeconds: 0 };
+    const times = cadenceMotivationTimes(slow);
+    expect(times.length).toBeGreaterThan(0);
+    for (const t of times) expect(cadenceAt(slow, t.elapsed).kind).toBe("release");
+  });
+});
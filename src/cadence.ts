@@ -0,0 +1,157 @@
+// Rep-and-hold cadence mode: sets of reps, each a hold followed by a release.
+
+import { DEFAULT_COACHING, type MotivationSlot } from "./coaching";
+import type { TimedCue } from "./sessionClock";
+import { clampInt, formatDurationWords } from "./ttsUtils";
+
+export type CadenceConfig = {
+  reps: number;
+  holdSeconds: number;
+  releaseSeconds: number;
+  sets: number;
+  setRestSeconds: number;
+};
+
+// How "hold"/"release" are cued: spoken lines or a short beep
+export type PhaseCueStyle = "voice" | "tone";
+
+export type CadencePhaseKind = "lead-in" | "hold" | "release" | "set-rest";
+
+export type CadencePhase = {
+  kind: CadencePhaseKind;
+  start: number;
+  seconds: number;
+  set: number; // 1-based
+  rep: number; // 1-based, 0 outside reps
+};
+
+export type CadencePosition = CadencePhase & {
+  phaseElapsed: number;
+  phaseLeft: number;
+  repsDone: number;
+};
+
+export const DEFAULT_CADENCE: CadenceConfig = {
+  reps: 10,
+  holdSeconds: 5,
+  releaseSeconds: 3,
+  sets: 2,
+  setRestSeconds: 30,
+};
+
+// Time for the start line before the first hold
+export const CADENCE_LEAD_IN_SECONDS = 5;
+
+// Phase cues are spoken exactly as written — padding "Release." into a
+// ten-word sentence would run straight into the next hold.
+export const PHASE_LINES = {
+  hold: "Bend and hold.",
+  release: "Release.",
+} as const;
+
+// A motivation line only fits into a gap that leaves this much room after
+// the phase cue that opens it.
+const MOTIVATION_SLOT_SECONDS = 5;
+const PHASE_CUE_SECONDS = 1;
+const SET_CUE_SECONDS = 4;
+
+export function normalizeCadence(c: CadenceConfig): CadenceConfig {
+  return {
+    reps: clampInt(c.reps, 1, 50),
+    holdSeconds: clampInt(c.holdSeconds, 1, 60),
+    releaseSeconds: clampInt(c.releaseSeconds, 1, 60),
+    sets: clampInt(c.sets, 1, 10),
+    setRestSeconds: clampInt(c.setRestSeconds, 0, 300),
+  };
+}
+
+export function cadencePhases(config: CadenceConfig): CadencePhase[] {
+  const c = normalizeCadence(config);
+  const phases: CadencePhase[] = [
+    { kind: "lead-in", start: 0, seconds: CADENCE_LEAD_IN_SECONDS, set: 1, rep: 0 },
+  ];
+  let t = CADENCE_LEAD_IN_SECONDS;
+  for (let set = 1; set <= c.sets; set++) {
+    for (let rep = 1; rep <= c.reps; rep++) {
+      phases.push({ kind: "hold", start: t, seconds: c.holdSeconds, set, rep });
+      t += c.holdSeconds;
+      phases.push({ kind: "release", start: t, seconds: c.releaseSeconds, set, rep });
+      t += c.releaseSeconds;
+    }
+    if (set < c.sets && c.setRestSeconds > 0) {
+      phases.push({ kind: "set-rest", start: t, seconds: c.setRestSeconds, set, rep: 0 });
+      t += c.setRestSeconds;
+    }
+  }
+  return phases;
+}
+
+export function cadenceTotalSeconds(config: CadenceConfig) {
+  const phases = cadencePhases(config);
+  const last = phases[phases.length - 1];
+  return last.start + last.seconds;
+}
+
+export function cadenceAt(config: CadenceConfig, elapsed: number): CadencePosition {
+  const c = normalizeCadence(config);
+  const phases = cadencePhases(c);
+  let phase = phases[phases.length - 1];
+  for (const p of phases) {
+    if (elapsed < p.start + p.seconds) {
+      phase = p;
+      break;
+    }
+  }
+  const phaseElapsed = Math.min(phase.seconds, Math.max(0, elapsed - phase.start));
+  // A rep counts as done once its release has started
+  const repsInSet = phase.kind === "release" ? phase.rep : phase.kind === "hold" ? phase.rep - 1 : phase.kind === "set-rest" ? c.reps : 0;
+  return {
+    ...phase,
+    phaseElapsed,
+    phaseLeft: phase.seconds - phaseElapsed,
+    repsDone: (phase.set - 1) * c.reps + repsInSet,
+  };
+}
+
+export function buildSetRestLine(set: number, restSeconds: number) {
+  return `Set ${set} done. Rest for ${formatDurationWords(restSeconds)}.`;
+}
+
+// One cue per phase change: "Bend and hold." / "Release." for every rep and
+// a set summary at the start of each rest between sets.
+export function buildCadenceCues(config: CadenceConfig): TimedCue[] {
+  const cues: TimedCue[] = [];
+  for (const p of cadencePhases(config)) {
+    if (p.kind === "hold" || p.kind === "release") {
+      cues.push({ key: `${p.kind}-${p.set}-${p.rep}`, elapsed: p.start, kind: "phase", text: PHASE_LINES[p.kind], raw: true });
+    } else if (p.kind === "set-rest") {
+      cues.push({ key: `set-${p.set}`, elapsed: p.start, kind: "transition", text: buildSetRestLine(p.set, p.seconds) });
+    }
+  }
+  return cues;
+}
+
+// Motivation lines keep their regular rhythm (the coaching interval) but are
+// moved forward into the next gap between reps that is long enough to hold
+// one. A line that finds no gap before the next one is due is dropped — it
+// never talks over a hold.
+export function cadenceMotivationTimes(
+  config: CadenceConfig,
+  intervalSeconds: number = DEFAULT_COACHING.intervalSeconds,
+): MotivationSlot[] {
+  const phases = cadencePhases(config);
+  const total = cadenceTotalSeconds(config);
+  const slots: number[] = [];
+  for (const p of phases) {
+    const offset = p.kind === "release" ? PHASE_CUE_SECONDS : p.kind === "set-rest" ? SET_CUE_SECONDS : -1;
+    if (offset < 0 || p.seconds - offset < MOTIVATION_SLOT_SECONDS) continue;
+    slots.push(p.start + offset);
+  }
+
+  const times: MotivationSlot[] = [];
+  for (let due = intervalSeconds; due < total; due += intervalSeconds) {
+    const at = slots.find((s) => s >= due && s < due + intervalSeconds && !times.some((m) => m.elapsed === s));
+    if (at != null) times.push({ elapsed: at, slot: due / intervalSeconds });
+  }
+  return times;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { coachingCueTimes, isQuietAt, normalizeCoaching } from "./coaching";
+
+describe("coaching", () => {
+  it("defaults to a line every 30 seconds", () => {
+    expect(coachingCueTimes(120)).toEqual([
+      { elapsed: 30, slot: 1 },
+      { elapsed: 60, slot: 2 },
+      { elapsed: 90, slot: 3 },
+    ]);
+    // Nothing closer to the end than one interval
+    expect(coachingCueTimes(100).map((m) => m.elapsed)).toEqual([30, 60, 90]);
+    expect(coachingCueTimes(90).map((m) => m.elapsed)).toEqual([30, 60]);
+  });
+
+  it("follows the configured interval", () => {
+    const base = { jitterSeconds: 0, quietWindows: [] };
+    expect(coachingCueTimes(60, { ...base, intervalSeconds: 15 }).map((m) => m.elapsed)).toEqual([15, 30, 45]);
+    expect(coachingCueTimes(300, { ...base, intervalSeconds: 60 }).map((m) => m.elapsed)).toEqual([60, 120, 180, 240]);
+  });
+
+  it("jitters deterministically within bounds and keeps order", () => {
+    const coaching = { intervalSeconds: 30, jitterSeconds: 10, quietWindows: [], seed: 42 };
+    const a = coachingCueTimes(600, coaching);
+    expect(coachingCueTimes(600, coaching)).toEqual(a);
+    expect(coachingCueTimes(600, { ...coaching, seed: 43 })).not.toEqual(a);
+    a.forEach((m, i) => {
+      expect(Math.abs(m.elapsed - m.slot * 30)).toBeLessThanOrEqual(10);
+      if (i > 0) expect(m.elapsed).toBeGreaterThan(a[i - 1].elapsed);
+    });
+  });
+
+  it("leaves quiet windows silent", () => {
+    const coaching = { intervalSeconds: 30, jitterSeconds: 0, quietWindows: [{ from: 60, to: 150 }] };
+    expect(coachingCueTimes(240, coaching).map((m) => m.elapsed)).toEqual([30, 150, 180, 210]);
+    expect(isQuietAt(normalizeCoaching(coaching), 149)).toBe(true);
+    expect(isQuietAt(normalizeCoaching(coaching), 150)).toBe(false);
+  });
+
+  it("normalizes settings", () => {
+    expect(
+      normalizeCoaching({ intervalSeconds: 2, jitterSeconds: 30, quietWindows: [{ from: 50, to: 10 }, { from: 0, to: 5 }] }),
+    ).toEqual({ intervalSeconds: 10, jitterSeconds: 3, quietWindows: [{ from: 0, to: 5 }], seed: 0 });
+  });
+});
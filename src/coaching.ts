@@ -0,0 +1,88 @@
+// Coaching cadence: how often motivation lines are spoken, how much their
+// timing wanders, and quiet windows where only milestones are spoken.
+//
+// The announcer (buildCueSchedule) and the prefetch planner
+// (buildPrefetchLines) both take their motivation times from
+// coachingCueTimes(), so they always agree.
+
+export type QuietWindow = { from: number; to: number }; // elapsed seconds, [from, to)
+
+export type CoachingCadence = {
+  intervalSeconds: number;
+  // Each line moves up to this many seconds either way
+  jitterSeconds: number;
+  quietWindows: QuietWindow[];
+  // Fixes the jitter for one session, so every reader sees the same times
+  seed?: number;
+};
+
+// A motivation time and its position on the regular grid (picks the bank line)
+export type MotivationSlot = { elapsed: number; slot: number };
+
+export const COACHING_INTERVAL_OPTIONS = [15, 30, 60] as const;
+export const COACHING_JITTER_OPTIONS = [0, 5, 10] as const;
+export const COACHING_INTERVAL_MIN = 10;
+export const COACHING_INTERVAL_MAX = 300;
+export const QUIET_WINDOWS_MAX = 5;
+
+export const DEFAULT_COACHING: CoachingCadence = {
+  intervalSeconds: 30,
+  jitterSeconds: 0,
+  quietWindows: [],
+};
+
+function clamp(n: number, min: number, max: number) {
+  const x = Number.isFinite(n) ? Math.trunc(n) : min;
+  return Math.max(min, Math.min(max, x));
+}
+
+export function normalizeCoaching(c: CoachingCadence): CoachingCadence {
+  const intervalSeconds = clamp(c.intervalSeconds, COACHING_INTERVAL_MIN, COACHING_INTERVAL_MAX);
+  return {
+    intervalSeconds,
+    // Never so much that two neighbouring lines could swap order
+    jitterSeconds: clamp(c.jitterSeconds, 0, Math.floor(intervalSeconds / 3)),
+    quietWindows: (c.quietWindows ?? [])
+      .slice(0, QUIET_WINDOWS_MAX)
+      .map((w) => ({ from: clamp(w.from, 0, 24 * 3600), to: clamp(w.to, 0, 24 * 3600) }))
+      .filter((w) => w.to > w.from),
+    seed: c.seed == null ? 0 : clamp(c.seed, 0, 0xffffffff),
+  };
+}
+
+export function isQuietAt(coaching: CoachingCadence, elapsed: number) {
+  return coaching.quietWindows.some((w) => elapsed >= w.from && elapsed < w.to);
+}
+
+// mulberry32 — small seeded PRNG, good enough for timing jitter
+function seededRandom(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Motivation times for a session: one every intervalSeconds while at least
+// part of an interval is left, moved by the seeded jitter, minus the quiet windows.
+// Start (0) and end (totalSeconds) are never used.
+export function coachingCueTimes(totalSeconds: number, coaching: CoachingCadence = DEFAULT_COACHING): MotivationSlot[] {
+  const c = normalizeCoaching(coaching);
+  const t = Math.max(0, Math.trunc(totalSeconds));
+  const random = seededRandom(c.seed ?? 0);
+  const slots: MotivationSlot[] = [];
+  let prev = 0;
+  for (let left = t - c.intervalSeconds; left > 0; left -= c.intervalSeconds) {
+    const nominal = t - left;
+    // Draw for every slot so one window doesn't shift the jitter of the rest
+    const offset = Math.round((random() * 2 - 1) * c.jitterSeconds);
+    const elapsed = Math.max(prev + 1, Math.min(t - 1, nominal + offset));
+    prev = elapsed;
+    if (isQuietAt(c, elapsed)) continue;
+    slots.push({ elapsed, slot: Math.floor(nominal / c.intervalSeconds) });
+  }
+  return slots;
+}
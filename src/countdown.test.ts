@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+  COUNT_LINES,
+  GO_LINE,
+  PREP_GUIDANCE_LINE,
+  buildCountdownPrefetchLines,
+  buildEndCountdownCues,
+  buildPrepCues,
+  isEndCountdownQuietAt,
+} from "./countdown";
+
+describe("countdown", () => {
+  it("guides, then counts the last three seconds of prep", () => {
+    expect(buildPrepCues(30).map((c) => [c.elapsed, c.text])).toEqual([
+      [0, PREP_GUIDANCE_LINE],
+      [27, "Three."],
+      [28, "Two."],
+      [29, "One."],
+    ]);
+  });
+
+  it("skips guidance when the prep is too short for it", () => {
+    expect(buildPrepCues(2).map((c) => c.key)).toEqual(["prep-2", "prep-1"]);
+    expect(buildPrepCues(0)).toEqual([]);
+  });
+
+  it("counts down the last ten seconds", () => {
+    const cues = buildEndCountdownCues(60);
+    expect(cues).toHaveLength(10);
+    expect(cues[0]).toMatchObject({ key: "end-10", elapsed: 50, text: "Ten.", kind: "count", raw: true });
+    expect(cues[9]).toMatchObject({ key: "end-1", elapsed: 59, text: "One." });
+    expect(buildEndCountdownCues(20)).toEqual([]);
+  });
+
+  it("keeps the seconds before the end countdown clear", () => {
+    expect(isEndCountdownQuietAt(60, 44)).toBe(false);
+    expect(isEndCountdownQuietAt(60, 45)).toBe(true);
+  });
+
+  it("prefetches every count clip once", () => {
+    const texts = buildCountdownPrefetchLines({ prepSeconds: 30, endCountdown: true }).map((l) => l.text);
+    expect(new Set(texts).size).toBe(texts.length);
+    expect(texts).toEqual(expect.arrayContaining([PREP_GUIDANCE_LINE, GO_LINE, ...COUNT_LINES]));
+    expect(buildCountdownPrefetchLines({})).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+// Spoken countdowns: positioning guidance and "3, 2, 1, go" during the prep
+// wait, and an optional count over the last seconds of the session.
+//
+// All count lines are raw and fixed, so generate-audio.mjs includes them in
+// the static audio set. A set generated before they existed doesn't have them;
+// until it is regenerated they come from the TTS API like any other line.
+
+import type { TimedCue } from "./sessionClock";
+import type { PrefetchLine } from "./ttsUtils";
+
+// COUNT_LINES[n - 1] is spoken for n
+export const COUNT_LINES = ["One.", "Two.", "Three.", "Four.", "Five.", "Six.", "Seven.", "Eight.", "Nine.", "Ten."];
+export const GO_LINE = "Go!";
+
+export const PREP_GUIDANCE_LINE =
+  "Get into position. Sit tall with your leg supported, relax your shoulders, and breathe out slowly.";
+
+// Prep "3, 2, 1" (then "Go!" as the session starts)
+export const PREP_COUNT_SECONDS = 3;
+// Guidance needs about this long to finish before the count begins
+export const PREP_GUIDANCE_MIN_SECONDS = 10;
+export const END_COUNTDOWN_SECONDS = 10;
+
+// Milestones and motivation lines this close before the end countdown would
+// still be talking when it starts, so they are left out.
+export const END_COUNTDOWN_CLEARANCE_SECONDS = 6;
+
+// Prep cues on the prep timeline (seconds since the prep began): guidance at
+// the start, then one count per second so "One" lands a second before zero.
+export function buildPrepCues(prepSeconds: number): TimedCue[] {
+  const prep = Math.max(0, Math.trunc(prepSeconds));
+  const cues: TimedCue[] = [];
+  if (prep >= PREP_GUIDANCE_MIN_SECONDS) {
+    cues.push({ key: "prep-guide", elapsed: 0, kind: "transition", text: PREP_GUIDANCE_LINE });
+  }
+  for (let n = Math.min(PREP_COUNT_SECONDS, prep); n >= 1; n--) {
+    cues.push({ key: `prep-${n}`, elapsed: prep - n, kind: "count", text: COUNT_LINES[n - 1], raw: true });
+  }
+  return cues;
+}
+
+// "Ten" ... "One" over the last seconds; the congrats line lands on zero.
+// Sessions too short for the whole count get none.
+export function buildEndCountdownCues(totalSeconds: number, seconds = END_COUNTDOWN_SECONDS): TimedCue[] {
+  const t = Math.max(0, Math.trunc(totalSeconds));
+  const n = Math.min(COUNT_LINES.length, Math.max(0, Math.trunc(seconds)));
+  if (n === 0 || t <= n * 2) return [];
+  const cues: TimedCue[] = [];
+  for (let left = n; left >= 1; left--) {
+    cues.push({ key: `end-${left}`, elapsed: t - left, kind: "count", text: COUNT_LINES[left - 1], raw: true });
+  }
+  return cues;
+}
+
+export function isEndCountdownQuietAt(totalSeconds: number, elapsed: number, seconds = END_COUNTDOWN_SECONDS) {
+  return elapsed > totalSeconds - seconds - END_COUNTDOWN_CLEARANCE_SECONDS;
+}
+
+export function buildCountdownPrefetchLines(options: { prepSeconds?: number; endCountdown?: boolean }): PrefetchLine[] {
+  const lines: PrefetchLine[] = [];
+  const prep = options.prepSeconds ?? 0;
+  if (prep > 0) {
+    lines.push(...buildPrepCues(prep).map((c) => ({ key: c.key, text: c.text ?? "", raw: c.raw })));
+    lines.push({ key: "go", text: GO_LINE, raw: true });
+  }
+  if (options.endCountdown) {
+    COUNT_LINES.slice(0, END_COUNTDOWN_SECONDS).forEach((text, i) => {
+      if (!lines.some((l) => l.text === text)) lines.push({ key: `end-${i + 1}`, text, raw: true });
+    });
+  }
+  return lines;
+}
@@ -0,0 +1,29 @@
+// Small promise wrappers over IndexedDB, shared by the on-device stores
+// (synthesized audio in audioCache.ts, uploaded music in music.ts).
+
+export function settle<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Null when IndexedDB is missing or refuses to open (e.g. some private modes)
+export async function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void) {
+  if (typeof indexedDB === "undefined") return null;
+  try {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    return await settle(request);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildIntervalCues,
+  intervalAt,
+  intervalRounds,
+  intervalTotalSeconds,
+  isIntervalQuietAt,
+  normalizeIntervals,
+} from "./intervals";
+
+const config = { rounds: 8, workSeconds: 45, restSeconds: 15 };
+
+describe("intervals", () => {
+  it("skips the rest after the final round", () => {
+    expect(intervalTotalSeconds(config)).toBe(8 * 45 + 7 * 15);
+    const spans = intervalRounds(config);
+    expect(spans[1]).toEqual({ start: 60, workEnd: 105, end: 120 });
+    expect(spans[7].end).toBe(spans[7].workEnd);
+  });
+
+  it("clamps out-of-range settings", () => {
+    expect(normalizeIntervals({ rounds: 0, workSeconds: 1, restSeconds: -5 })).toEqual({
+      rounds: 1,
+      workSeconds: 5,
+      restSeconds: 0,
+    });
+  });
+
+  it("reports the current round and phase", () => {
+    expect(intervalAt(config, 0)).toMatchObject({ round: 1, kind: "work", secondsLeft: 45 });
+    expect(intervalAt(config, 50)).toMatchObject({ round: 1, kind: "rest", elapsed: 5, secondsLeft: 10 });
+    expect(intervalAt(config, 130)).toMatchObject({ round: 3, kind: "work", elapsed: 10 });
+    expect(intervalAt(config, 9999)).toMatchObject({ round: 8, kind: "work", secondsLeft: 0 });
+  });
+
+  it("announces each round after the first and every rest", () => {
+    const cues = buildIntervalCues(config);
+    expect(cues.slice(0, 3)).toEqual([
+      { key: "rest1", elapsed: 45, kind: "transition", text: "Rest.", raw: true },
+      { key: "r2", elapsed: 60, kind: "transition", text: "Round 2 of 8.", raw: true },
+      { key: "rest2", elapsed: 105, kind: "transition", text: "Rest.", raw: true },
+    ]);
+    expect(cues.filter((c) => c.key.startsWith("r") && !c.key.startsWith("rest"))).toHaveLength(7);
+    expect(cues.filter((c) => c.key.startsWith("rest"))).toHaveLength(7);
+  });
+
+  it("keeps rests and round openings quiet", () => {
+    expect(isIntervalQuietAt(config, 30)).toBe(false);
+    expect(isIntervalQuietAt(config, 50)).toBe(true);
+    expect(isIntervalQuietAt(config, 62)).toBe(true);
+    expect(isIntervalQuietAt(config, 70)).toBe(false);
+  });
+});
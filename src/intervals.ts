@@ -0,0 +1,95 @@
+// Interval mode: N rounds of work followed by rest.
+
+import type { TimedCue } from "./sessionClock";
+import { ROUND_REST_LINE, buildRoundLine, clampInt } from "./ttsUtils";
+
+export type IntervalConfig = {
+  rounds: number;
+  workSeconds: number;
+  restSeconds: number;
+};
+
+export type IntervalPosition = {
+  round: number; // 1-based
+  kind: "work" | "rest";
+  start: number;
+  seconds: number;
+  elapsed: number;
+  secondsLeft: number;
+};
+
+// A round's span on the session timeline: its work period plus the rest after it
+export type RoundSpan = { start: number; workEnd: number; end: number };
+
+export const DEFAULT_INTERVALS: IntervalConfig = {
+  rounds: 8,
+  workSeconds: 45,
+  restSeconds: 15,
+};
+
+// Motivation lines wait this long after "Round n of N" is announced
+export const ROUND_CLEARANCE_SECONDS = 5;
+
+export function normalizeIntervals(c: IntervalConfig): IntervalConfig {
+  return {
+    rounds: clampInt(c.rounds, 1, 30),
+    workSeconds: clampInt(c.workSeconds, 5, 600),
+    restSeconds: clampInt(c.restSeconds, 0, 300),
+  };
+}
+
+// There is no rest after the final round — the session ends with the work.
+export function intervalRounds(config: IntervalConfig): RoundSpan[] {
+  const c = normalizeIntervals(config);
+  const spans: RoundSpan[] = [];
+  let t = 0;
+  for (let round = 1; round <= c.rounds; round++) {
+    const workEnd = t + c.workSeconds;
+    const end = round < c.rounds ? workEnd + c.restSeconds : workEnd;
+    spans.push({ start: t, workEnd, end });
+    t = end;
+  }
+  return spans;
+}
+
+export function intervalTotalSeconds(config: IntervalConfig) {
+  const spans = intervalRounds(config);
+  return spans[spans.length - 1].end;
+}
+
+export function intervalAt(config: IntervalConfig, elapsed: number): IntervalPosition {
+  const spans = intervalRounds(config);
+  // Past the end, the final round is reported as complete
+  let i = spans.findIndex((s) => elapsed < s.end);
+  if (i < 0) i = spans.length - 1;
+  const span = spans[i];
+  const inRest = elapsed < span.end && elapsed >= span.workEnd;
+  const start = inRest ? span.workEnd : span.start;
+  const seconds = inRest ? span.end - span.workEnd : span.workEnd - span.start;
+  const inPhase = Math.min(seconds, Math.max(0, elapsed - start));
+  return { round: i + 1, kind: inRest ? "rest" : "work", start, seconds, elapsed: inPhase, secondsLeft: seconds - inPhase };
+}
+
+// "Round n of N" at the start of every round after the first (the first one
+// starts together with the start line) and "Rest" at the end of each work period.
+export function buildIntervalCues(config: IntervalConfig): TimedCue[] {
+  const spans = intervalRounds(config);
+  const cues: TimedCue[] = [];
+  spans.forEach((span, i) => {
+    if (i > 0) {
+      cues.push({ key: `r${i + 1}`, elapsed: span.start, kind: "transition", text: buildRoundLine(i + 1, spans.length), raw: true });
+    }
+    if (span.end > span.workEnd) {
+      cues.push({ key: `rest${i + 1}`, elapsed: span.workEnd, kind: "transition", text: ROUND_REST_LINE, raw: true });
+    }
+  });
+  return cues;
+}
+
+// Rest periods and the first seconds of each round are kept free of
+// motivation lines.
+export function isIntervalQuietAt(config: IntervalConfig, elapsed: number) {
+  const pos = intervalAt(config, elapsed);
+  if (pos.kind === "rest") return true;
+  return pos.round > 1 && pos.elapsed < ROUND_CLEARANCE_SECONDS;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { describeMediaSession, mediaPlaybackState, mediaPositionState, type MediaSessionStatus } from "./mediaSession";
+
+const running: MediaSessionStatus = {
+  state: "running",
+  detail: "wall sit",
+  secondsLeft: 252,
+  totalSeconds: 600,
+  prepSecondsLeft: 0,
+};
+
+describe("mediaSession", () => {
+  it("shows the exercise and time left", () => {
+    expect(describeMediaSession(running)).toEqual({ title: "04:12 left", artist: "Wall sit", album: "Knee Timer" });
+    expect(describeMediaSession({ ...running, state: "paused", detail: "" })?.title).toBe("Paused · 04:12 left");
+    expect(describeMediaSession({ ...running, detail: "" })?.artist).toBe("Knee rehab session");
+    expect(describeMediaSession({ ...running, state: "prep", prepSecondsLeft: 7 })?.title).toBe("Starting in 00:07");
+    expect(describeMediaSession({ ...running, state: "idle" })).toBeNull();
+  });
+
+  it("tracks session progress as the position", () => {
+    expect(mediaPositionState(running)).toEqual({ duration: 600, position: 348, playbackRate: 1 });
+    expect(mediaPositionState({ ...running, state: "prep" })).toBeNull();
+    expect(mediaPositionState({ ...running, totalSeconds: 0 })).toBeNull();
+  });
+
+  it("maps session states to playback states", () => {
+    expect(mediaPlaybackState("running")).toBe("playing");
+    expect(mediaPlaybackState("prep")).toBe("playing");
+    expect(mediaPlaybackState("paused")).toBe("paused");
+    expect(mediaPlaybackState("finished")).toBe("none");
+  });
+});
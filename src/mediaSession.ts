@@ -0,0 +1,99 @@
+// Lock-screen and headset controls through the Media Session API, so a session
+// can be followed and paused with the phone locked.
+//
+// Browsers only show the controls while the page is playing media (the
+// background music or a voice line), so with music off they may not appear.
+
+import type { SessionState } from "./sessionEngine";
+import { formatMMSS } from "./ttsUtils";
+
+export type MediaSessionStatus = {
+  state: SessionState;
+  // What is happening now: a routine exercise, "Round 3 of 8 · Work"; empty for a single timer
+  detail: string;
+  secondsLeft: number;
+  totalSeconds: number;
+  prepSecondsLeft: number;
+};
+
+export type MediaSessionHandlers = { play(): void; pause(): void; stop(): void };
+
+export type MediaSessionInfo = { title: string; artist: string; album: string };
+
+export const MEDIA_SESSION_ALBUM = "Knee Timer";
+export const MEDIA_SESSION_ARTWORK: MediaImage[] = [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml" }];
+
+// Null when there is no session to show
+export function describeMediaSession(status: MediaSessionStatus): MediaSessionInfo | null {
+  const { state, detail, secondsLeft, prepSecondsLeft } = status;
+  const artist = detail ? detail.charAt(0).toUpperCase() + detail.slice(1) : "Knee rehab session";
+  switch (state) {
+    case "prep":
+      return { title: `Starting in ${formatMMSS(prepSecondsLeft)}`, artist, album: MEDIA_SESSION_ALBUM };
+    case "running":
+      return { title: `${formatMMSS(secondsLeft)} left`, artist, album: MEDIA_SESSION_ALBUM };
+    case "paused":
+      return { title: `Paused · ${formatMMSS(secondsLeft)} left`, artist, album: MEDIA_SESSION_ALBUM };
+    case "finished":
+      return { title: "Session complete", artist: "Knee rehab session", album: MEDIA_SESSION_ALBUM };
+    default:
+      return null;
+  }
+}
+
+export function mediaPlaybackState(state: SessionState): MediaSessionPlaybackState {
+  if (state === "prep" || state === "running") return "playing";
+  return state === "paused" ? "paused" : "none";
+}
+
+// The session as a track: its length and how far in we are
+export function mediaPositionState(status: MediaSessionStatus): MediaPositionState | null {
+  const { state, secondsLeft, totalSeconds } = status;
+  if ((state !== "running" && state !== "paused") || totalSeconds <= 0) return null;
+  return {
+    duration: totalSeconds,
+    position: Math.min(totalSeconds, Math.max(0, totalSeconds - secondsLeft)),
+    playbackRate: 1,
+  };
+}
+
+// Returns a cleanup that removes the handlers again
+export function bindMediaSessionActions(handlers: MediaSessionHandlers) {
+  if (!("mediaSession" in navigator)) return () => {};
+  const actions: [MediaSessionAction, () => void][] = [
+    ["play", handlers.play],
+    ["pause", handlers.pause],
+    ["stop", handlers.stop],
+  ];
+  for (const [action, handler] of actions) {
+    try {
+      navigator.mediaSession.setActionHandler(action, handler);
+    } catch {
+      // Action not supported by this browser (e.g. "stop" on older Safari)
+    }
+  }
+  return () => {
+    for (const [action] of actions) {
+      try {
+        navigator.mediaSession.setActionHandler(action, null);
+      } catch {
+        // See above
+      }
+    }
+  };
+}
+
+export function updateMediaSession(status: MediaSessionStatus) {
+  if (!("mediaSession" in navigator)) return;
+  const session = navigator.mediaSession;
+  const info = describeMediaSession(status);
+  session.metadata = info ? new MediaMetadata({ ...info, artwork: MEDIA_SESSION_ARTWORK }) : null;
+  session.playbackState = mediaPlaybackState(status.state);
+  try {
+    const position = mediaPositionState(status);
+    if (position) session.setPositionState(position);
+    else session.setPositionState();
+  } catch {
+    // setPositionState is missing in older browsers
+  }
+}
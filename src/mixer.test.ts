@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  NORMALIZE_RANGE_DB,
+  VOICE_TARGET_DB,
+  dbToGain,
+  duckerParams,
+  measureLoudnessDb,
+  normalizationGain,
+  processDuckerBlock,
+} from "./mixer";
+
+const RATE = 8000;
+
+function sine(amplitude: number, seconds: number) {
+  return Float32Array.from({ length: RATE * seconds }, (_, i) => amplitude * Math.sin((2 * Math.PI * 440 * i) / RATE));
+}
+
+describe("mixer", () => {
+  it("measures gated RMS loudness and ignores pauses", () => {
+    // A full-scale sine has an RMS of -3 dBFS
+    expect(measureLoudnessDb([sine(1, 1)], RATE)).toBeCloseTo(-3, 0);
+    const withPause = Float32Array.from([...sine(1, 1), ...new Float32Array(RATE)]);
+    expect(measureLoudnessDb([withPause], RATE)).toBeCloseTo(-3, 0);
+    expect(measureLoudnessDb([new Float32Array(RATE)], RATE)).toBeNull();
+  });
+
+  it("normalizes clips towards the target within limits", () => {
+    expect(normalizationGain(VOICE_TARGET_DB)).toBe(1);
+    expect(normalizationGain(VOICE_TARGET_DB - 6)).toBeCloseTo(dbToGain(6));
+    expect(normalizationGain(-80)).toBeCloseTo(dbToGain(NORMALIZE_RANGE_DB));
+    expect(normalizationGain(null)).toBe(1);
+  });
+
+  it("ducks the music while the voice bus is active and brings it back after", () => {
+    const params = duckerParams({ depthDb: 18, attackMs: 100, releaseMs: 150 });
+    const state = { env: 0, gain: 1 };
+    const gains = new Float32Array(RATE / 2);
+
+    processDuckerBlock(state, [sine(0.5, 0.5)], gains, params, RATE);
+    expect(gains[gains.length - 1]).toBeCloseTo(params.depth, 2);
+    // Partway through the attack the music is on its way down, not cut
+    expect(gains[Math.round(RATE * 0.02)]).toBeGreaterThan(params.depth);
+
+    processDuckerBlock(state, [new Float32Array(RATE / 2)], gains, params, RATE);
+    expect(gains[gains.length - 1]).toBeCloseTo(1, 2);
+  });
+
+  it("leaves the music alone without a voice", () => {
+    const state = { env: 0, gain: 1 };
+    const gains = new Float32Array(256);
+    processDuckerBlock(state, [], gains, duckerParams({ depthDb: 18, attackMs: 100, releaseMs: 150 }), RATE);
+    expect(gains.every((g) => g === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,268 @@
+// One Web Audio mixer for everything the app plays: a voice bus (TTS clips),
+// a music bus and a cue bus (rep tones), summed into a master with a gentle
+// compressor and a limiter, so relative levels no longer depend on the device.
+// The level maths is pure and tested; the graph itself needs a browser.
+//
+// Voice clips are loudness-normalized one by one (OpenAI clips vary a lot).
+// Music is ducked sidechain-style: an AudioWorklet follows the voice bus level
+// and dips the music while someone is speaking. Until the worklet has loaded
+// (or where AudioWorklet is missing) the app ducks per line with duck().
+
+export type MixerBus = "voice" | "music" | "cues";
+
+export type DuckingSettings = { depthDb: number; attackMs: number; releaseMs: number };
+
+export type Mixer = {
+  ctx: AudioContext;
+  buses: Record<MixerBus, GainNode>;
+  // True once the sidechain worklet is ducking the music
+  sidechain(): boolean;
+  connect(element: HTMLMediaElement, bus: MixerBus): MediaElementAudioSourceNode;
+  setMusicLevel(level: number, rampMs?: number): void;
+  setDucking(settings: DuckingSettings): void;
+  // Per-line ducking for speech that bypasses the graph (the device voice)
+  duck(on: boolean): void;
+  // Gain for the next voice clip; see normalizeClip()
+  setClipGain(gain: number): void;
+  normalizeClip(blob: Blob): Promise<number>;
+  resume(): Promise<void>;
+};
+
+export type DuckerState = { env: number; gain: number };
+
+// depth: music gain under speech (linear); attack/release: seconds to get
+// (about 95% of the way) down and back up; threshold: voice level counted as speech
+export type DuckerParams = { depth: number; attack: number; release: number; threshold: number };
+
+// Gated RMS target for voice clips, in dBFS
+export const VOICE_TARGET_DB = -20;
+// Never boost or cut a clip by more than this
+export const NORMALIZE_RANGE_DB = 12;
+// Blocks quieter than this are pauses and don't count towards loudness
+export const LOUDNESS_GATE_DB = -50;
+export const DUCKER_THRESHOLD = 0.01;
+
+export function dbToGain(db: number) {
+  return 10 ** (db / 20);
+}
+
+// Gated RMS loudness over 50 ms blocks, in dBFS. Null for silence.
+export function measureLoudnessDb(channels: Float32Array[], sampleRate: number): number | null {
+  const length = channels[0]?.length ?? 0;
+  const block = Math.max(1, Math.round(sampleRate * 0.05));
+  let sum = 0;
+  let counted = 0;
+  for (let start = 0; start < length; start += block) {
+    const end = Math.min(length, start + block);
+    let blockSum = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) blockSum += channel[i] * channel[i];
+    }
+    const meanSquare = blockSum / ((end - start) * channels.length);
+    if (meanSquare <= 0 || 10 * Math.log10(meanSquare) < LOUDNESS_GATE_DB) continue;
+    sum += meanSquare;
+    counted += 1;
+  }
+  return counted ? 10 * Math.log10(sum / counted) : null;
+}
+
+export function normalizationGain(loudnessDb: number | null, targetDb = VOICE_TARGET_DB) {
+  if (loudnessDb == null) return 1;
+  const db = Math.max(-NORMALIZE_RANGE_DB, Math.min(NORMALIZE_RANGE_DB, targetDb - loudnessDb));
+  return dbToGain(db);
+}
+
+export function duckerParams(settings: DuckingSettings): DuckerParams {
+  return {
+    depth: dbToGain(-settings.depthDb),
+    attack: settings.attackMs / 1000,
+    release: settings.releaseMs / 1000,
+    threshold: DUCKER_THRESHOLD,
+  };
+}
+
+// Fills gains with the music gain for each sample of the key (voice) block.
+// Self-contained on purpose: its source is also loaded into the audio worklet.
+export function processDuckerBlock(
+  state: DuckerState,
+  key: Float32Array[],
+  gains: Float32Array,
+  params: DuckerParams,
+  sampleRate: number,
+) {
+  // Peak hold bridges the gaps between syllables
+  const hold = Math.exp(-1 / (0.05 * sampleRate));
+  const down = Math.exp(-3 / (Math.max(params.attack, 0.001) * sampleRate));
+  const up = Math.exp(-3 / (Math.max(params.release, 0.001) * sampleRate));
+  for (let i = 0; i < gains.length; i++) {
+    let peak = 0;
+    for (let c = 0; c < key.length; c++) peak = Math.max(peak, Math.abs(key[c][i] || 0));
+    state.env = Math.max(peak, state.env * hold);
+    const target = state.env > params.threshold ? params.depth : 1;
+    state.gain = target + (state.gain - target) * (target < state.gain ? down : up);
+    gains[i] = state.gain;
+  }
+}
+
+const DUCKER_NAME = "sidechain-ducker";
+
+// Input 0 is the music, input 1 the voice bus
+function duckerWorkletSource() {
+  return `const processDuckerBlock = ${processDuckerBlock.toString()};
+class SidechainDucker extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return ["depth", "attack", "release", "threshold"].map((name) => ({ name, defaultValue: 0, automationRate: "k-rate" }));
+  }
+  constructor() {
+    super();
+    this.state = { env: 0, gain: 1 };
+    this.gains = new Float32Array(128);
+  }
+  process(inputs, outputs, parameters) {
+    const music = inputs[0];
+    const out = outputs[0];
+    const n = out[0].length;
+    if (this.gains.length !== n) this.gains = new Float32Array(n);
+    processDuckerBlock(this.state, inputs[1], this.gains, {
+      depth: parameters.depth[0],
+      attack: parameters.attack[0],
+      release: parameters.release[0],
+      threshold: parameters.threshold[0],
+    }, sampleRate);
+    for (let c = 0; c < out.length; c++) {
+      const input = music[c] || music[0];
+      for (let i = 0; i < n; i++) out[c][i] = input ? input[i] * this.gains[i] : 0;
+    }
+    return true;
+  }
+}
+registerProcessor("${DUCKER_NAME}", SidechainDucker);
+`;
+}
+
+export function createMixer(ctx: AudioContext, ducking: DuckingSettings): Mixer {
+  const buses: Record<MixerBus, GainNode> = { voice: ctx.createGain(), music: ctx.createGain(), cues: ctx.createGain() };
+  const clipGain = ctx.createGain();
+  clipGain.connect(buses.voice);
+  // Per-line ducking sits after the music level and before the sidechain
+  const musicDuck = ctx.createGain();
+  buses.music.connect(musicDuck);
+
+  // Gentle glue compression, then a limiter so nothing clips
+  const master = ctx.createGain();
+  const compressor = ctx.createDynamicsCompressor();
+  compressor.threshold.value = -18;
+  compressor.knee.value = 6;
+  compressor.ratio.value = 3;
+  compressor.attack.value = 0.01;
+  compressor.release.value = 0.25;
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.001;
+  limiter.release.value = 0.1;
+  master.connect(compressor);
+  compressor.connect(limiter);
+  limiter.connect(ctx.destination);
+
+  buses.voice.connect(master);
+  buses.cues.connect(master);
+  musicDuck.connect(master);
+
+  let settings = ducking;
+  let ducker: AudioWorkletNode | null = null;
+  const loudness = new WeakMap<Blob, number>();
+
+  function ramp(param: AudioParam, value: number, ms: number) {
+    const t = ctx.currentTime;
+    param.cancelScheduledValues(t);
+    param.setValueAtTime(param.value, t);
+    param.linearRampToValueAtTime(value, t + ms / 1000);
+  }
+
+  function applyDucker() {
+    if (!ducker) return;
+    const params = duckerParams(settings);
+    for (const [name, value] of Object.entries(params)) ducker.parameters.get(name)?.setValueAtTime(value, ctx.currentTime);
+  }
+
+  async function loadSidechain() {
+    if (!ctx.audioWorklet) return;
+    const url = URL.createObjectURL(new Blob([duckerWorkletSource()], { type: "application/javascript" }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+      const node = new AudioWorkletNode(ctx, DUCKER_NAME, {
+        numberOfInputs: 2,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+      });
+      ducker = node;
+      applyDucker();
+      musicDuck.disconnect();
+      musicDuck.connect(node, 0, 0);
+      buses.voice.connect(node, 0, 1);
+      node.connect(master);
+    } catch {
+      // Per-line ducking keeps working
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  void loadSidechain();
+
+  return {
+    ctx,
+    buses,
+
+    sidechain() {
+      return ducker !== null;
+    },
+
+    connect(element, bus) {
+      const source = ctx.createMediaElementSource(element);
+      source.connect(bus === "voice" ? clipGain : buses[bus]);
+      return source;
+    },
+
+    setMusicLevel(level, rampMs = 0) {
+      if (rampMs > 0) ramp(buses.music.gain, level, rampMs);
+      else buses.music.gain.setValueAtTime(level, ctx.currentTime);
+    },
+
+    setDucking(next) {
+      settings = next;
+      applyDucker();
+    },
+
+    duck(on) {
+      if (on) ramp(musicDuck.gain, dbToGain(-settings.depthDb), settings.attackMs);
+      else ramp(musicDuck.gain, 1, settings.releaseMs);
+    },
+
+    setClipGain(gain) {
+      clipGain.gain.setValueAtTime(gain, ctx.currentTime);
+    },
+
+    // Decodes the clip once to measure it; 1 when it can't be decoded
+    async normalizeClip(blob) {
+      const known = loudness.get(blob);
+      if (known != null) return known;
+      let gain = 1;
+      try {
+        const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+        const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+        gain = normalizationGain(measureLoudnessDb(channels, buffer.sampleRate));
+      } catch {
+        // Unknown format — play it as is
+      }
+      loudness.set(blob, gain);
+      return gain;
+    },
+
+    resume() {
+      return ctx.resume();
+    },
+  };
+}
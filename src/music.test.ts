@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MUSIC,
+  MUSIC_OFF,
+  USER_TRACKS_MAX,
+  createMemoryMusicStore,
+  createUserTrack,
+  duckedLevel,
+  nextTrackId,
+  normalizeMusicSettings,
+  resolveTrackId,
+  validateUpload,
+} from "./music";
+
+describe("music", () => {
+  it("keeps the original mix by default", () => {
+    expect(DEFAULT_MUSIC.level).toBe(0.4);
+    expect(duckedLevel(DEFAULT_MUSIC)).toBeCloseTo(0.05, 2);
+    expect(duckedLevel({ ...DEFAULT_MUSIC, duckDepthDb: 0 })).toBe(0.4);
+  });
+
+  it("clamps malformed settings", () => {
+    expect(normalizeMusicSettings({ level: 3, duckDepthDb: -5, duckRampMs: 10, restoreRampMs: NaN, trackId: "" })).toEqual({
+      ...DEFAULT_MUSIC,
+      level: 1,
+      duckDepthDb: 0,
+      duckRampMs: 50,
+    });
+  });
+
+  it("falls back when the chosen upload is gone", () => {
+    expect(resolveTrackId(["default", "original"], "user-abc")).toBe("default");
+    expect(resolveTrackId(["default"], MUSIC_OFF)).toBe(MUSIC_OFF);
+    expect(resolveTrackId([], "default")).toBe(MUSIC_OFF);
+  });
+
+  it("plays through the library in order or shuffled", () => {
+    const ids = ["a", "b", "c"];
+    expect(nextTrackId(ids, "a", false)).toBe("b");
+    expect(nextTrackId(ids, "c", false)).toBe("a");
+    expect(nextTrackId(ids, "a", true, () => 0.99)).toBe("c");
+    expect(nextTrackId(ids, "b", true, () => 0)).toBe("a");
+    expect(nextTrackId(["a"], "a", true)).toBe("a");
+  });
+
+  it("validates uploads", () => {
+    expect(validateUpload({ size: 1000, type: "audio/mpeg" }, 0)).toBeNull();
+    expect(validateUpload({ size: 1000, type: "image/png" }, 0)).toMatch(/isn't audio/);
+    expect(validateUpload({ size: 100 * 1024 * 1024, type: "audio/mpeg" }, 0)).toMatch(/too large/);
+    expect(validateUpload({ size: 1000, type: "audio/mpeg" }, USER_TRACKS_MAX)).toMatch(/up to/);
+  });
+
+  it("stores uploads in order of adding", async () => {
+    const store = createMemoryMusicStore();
+    const second = createUserTrack({ name: "Rain.mp3", size: 3, type: "audio/mpeg" }, 2);
+    const first = createUserTrack({ name: ".m4a", size: 3, type: "audio/mp4" }, 1);
+    await store.put(second, new Blob(["abc"]));
+    await store.put(first, new Blob(["abc"]));
+    expect((await store.list()).map((t) => t.name)).toEqual(["My track", "Rain"]);
+    await store.remove(first.id);
+    expect(await store.get(first.id)).toBeNull();
+    expect(await store.get(second.id)).not.toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+// Background music: the bundled tracks, the user's own uploads (kept on the
+// device) and the mix settings the mixer (src/mixer.ts) follows.
+//
+// Bundled tracks are asset imports, so their list lives in App.tsx; this module
+// only deals in track ids. Uploads are stored in IndexedDB with the metadata
+// apart from the audio, like the TTS cache in audioCache.ts.
+
+import { clampFloat, clampInt } from "./ttsUtils";
+import { done, openDatabase, settle } from "./idb";
+import type { DuckingSettings } from "./mixer";
+
+export type MusicSettings = {
+  // A bundled or uploaded track id, or MUSIC_OFF
+  trackId: string;
+  // When a track ends, play a random other one instead of the next in the list
+  shuffle: boolean;
+  // Repeat the chosen track (shuffle is ignored)
+  loop: boolean;
+  // Gain while nobody is speaking (0–1)
+  level: number;
+  // How far the music dips under a voice line
+  duckDepthDb: number;
+  duckRampMs: number;
+  restoreRampMs: number;
+};
+
+export type MusicTrack = { id: string; label: string };
+
+export type UserTrack = { id: string; name: string; size: number; type: string; addedAt: number };
+
+export type MusicStore = {
+  list(): Promise<UserTrack[]>;
+  get(id: string): Promise<Blob | null>;
+  put(track: UserTrack, blob: Blob): Promise<void>;
+  remove(id: string): Promise<void>;
+};
+
+export const MUSIC_OFF = "off";
+export const USER_TRACK_PREFIX = "user-";
+export const USER_TRACKS_MAX = 8;
+export const USER_TRACK_MAX_BYTES = 25 * 1024 * 1024;
+
+export const MUSIC_LEVEL_STEP = 0.05;
+export const DUCK_DEPTH_MAX_DB = 36;
+export const DUCK_RAMP_RANGE = { min: 50, max: 500 };
+export const RESTORE_RAMP_RANGE = { min: 50, max: 1500 };
+
+// The original fixed mix: 0.4 under no voice, 0.05 (about -18 dB) under one
+export const DEFAULT_MUSIC: MusicSettings = {
+  trackId: "default",
+  shuffle: false,
+  loop: true,
+  level: 0.4,
+  duckDepthDb: 18,
+  duckRampMs: 100,
+  restoreRampMs: 150,
+};
+
+export function normalizeMusicSettings(raw: Partial<MusicSettings>): MusicSettings {
+  const d = DEFAULT_MUSIC;
+  const num = (v: unknown, fallback: number) => (typeof v === "number" && Number.isFinite(v) ? v : fallback);
+  return {
+    trackId: typeof raw.trackId === "string" && raw.trackId ? raw.trackId : d.trackId,
+    shuffle: typeof raw.shuffle === "boolean" ? raw.shuffle : d.shuffle,
+    loop: typeof raw.loop === "boolean" ? raw.loop : d.loop,
+    level: clampFloat(num(raw.level, d.level), 0, 1),
+    duckDepthDb: clampFloat(num(raw.duckDepthDb, d.duckDepthDb), 0, DUCK_DEPTH_MAX_DB),
+    duckRampMs: clampInt(num(raw.duckRampMs, d.duckRampMs), DUCK_RAMP_RANGE.min, DUCK_RAMP_RANGE.max),
+    restoreRampMs: clampInt(num(raw.restoreRampMs, d.restoreRampMs), RESTORE_RAMP_RANGE.min, RESTORE_RAMP_RANGE.max),
+  };
+}
+
+// Gain while a voice line plays
+export function duckedLevel(music: MusicSettings) {
+  return music.level * 10 ** (-music.duckDepthDb / 20);
+}
+
+// The mixer's ducker: dip by duckDepthDb, over the two ramp times
+export function musicDucking(music: MusicSettings): DuckingSettings {
+  return { depthDb: music.duckDepthDb, attackMs: music.duckRampMs, releaseMs: music.restoreRampMs };
+}
+
+// The track to play for a saved choice: a deleted upload falls back to the
+// first track in the library
+export function resolveTrackId(trackIds: string[], trackId: string) {
+  if (trackId === MUSIC_OFF || trackIds.includes(trackId)) return trackId;
+  return trackIds[0] ?? MUSIC_OFF;
+}
+
+// What plays after currentId ends: the next in the list (wrapping around),
+// or with shuffle any other track
+export function nextTrackId(trackIds: string[], currentId: string, shuffle: boolean, random: () => number = Math.random) {
+  if (trackIds.length === 0) return MUSIC_OFF;
+  const at = trackIds.indexOf(currentId);
+  if (!shuffle || trackIds.length === 1) return trackIds[(at + 1) % trackIds.length];
+  const others = trackIds.filter((id) => id !== currentId);
+  return others[Math.min(others.length - 1, Math.floor(random() * others.length))];
+}
+
+export function isUserTrackId(id: string) {
+  return id.startsWith(USER_TRACK_PREFIX);
+}
+
+// Null when the file can be added, otherwise why not
+export function validateUpload(file: { size: number; type: string }, existing: number) {
+  if (existing >= USER_TRACKS_MAX) return `You can keep up to ${USER_TRACKS_MAX} tracks — remove one first.`;
+  if (file.type && !file.type.startsWith("audio/")) return "That file isn't audio.";
+  if (file.size > USER_TRACK_MAX_BYTES) return "That file is too large (25 MB max).";
+  return null;
+}
+
+export function createUserTrack(file: { name: string; size: number; type: string }, now: number): UserTrack {
+  return {
+    id: `${USER_TRACK_PREFIX}${now.toString(36)}`,
+    name: file.name.replace(/\.[^.]+$/, "").trim().slice(0, 60) || "My track",
+    size: file.size,
+    type: file.type,
+    addedAt: now,
+  };
+}
+
+export function createMemoryMusicStore(): MusicStore {
+  const tracks = new Map<string, UserTrack>();
+  const blobs = new Map<string, Blob>();
+  return {
+    async list() {
+      return Array.from(tracks.values()).sort((a, b) => a.addedAt - b.addedAt);
+    },
+    async get(id) {
+      return blobs.get(id) ?? null;
+    },
+    async put(track, blob) {
+      tracks.set(track.id, track);
+      blobs.set(track.id, blob);
+    },
+    async remove(id) {
+      tracks.delete(id);
+      blobs.delete(id);
+    },
+  };
+}
+
+const DB_NAME = "knee-timer-music";
+const DB_VERSION = 1;
+const TRACK_STORE = "tracks";
+const BLOB_STORE = "blobs";
+
+export async function openIndexedDbMusicStore(): Promise<MusicStore | null> {
+  const db = await openDatabase(DB_NAME, DB_VERSION, (database) => {
+    database.createObjectStore(TRACK_STORE, { keyPath: "id" });
+    database.createObjectStore(BLOB_STORE);
+  });
+  if (!db) return null;
+
+  return {
+    async list() {
+      const tracks = (await settle(db.transaction(TRACK_STORE).objectStore(TRACK_STORE).getAll())) as UserTrack[];
+      return tracks.sort((a, b) => a.addedAt - b.addedAt);
+    },
+    async get(id) {
+      const blob = await settle(db.transaction(BLOB_STORE).objectStore(BLOB_STORE).get(id));
+      return blob instanceof Blob ? blob : null;
+    },
+    async put(track, blob) {
+      const tx = db.transaction([TRACK_STORE, BLOB_STORE], "readwrite");
+      tx.objectStore(TRACK_STORE).put(track);
+      tx.objectStore(BLOB_STORE).put(blob, track.id);
+      await done(tx);
+    },
+    async remove(id) {
+      const tx = db.transaction([TRACK_STORE, BLOB_STORE], "readwrite");
+      tx.objectStore(TRACK_STORE).delete(id);
+      tx.objectStore(BLOB_STORE).delete(id);
+      await done(tx);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { describeOfflineStatus, isFullyCached, parsePrecacheMessage } from "./offline";
+
+describe("offline", () => {
+  it("reads precache progress messages from the service worker", () => {
+    expect(parsePrecacheMessage({ type: "precache", cached: 3, total: 10, done: false })).toEqual({
+      cached: 3,
+      total: 10,
+      done: false,
+    });
+    expect(parsePrecacheMessage({ type: "precache", cached: "3" })).toBeNull();
+    expect(parsePrecacheMessage("precache")).toBeNull();
+  });
+
+  it("stays quiet online without a service worker", () => {
+    expect(describeOfflineStatus({ online: true, controlled: false, precache: null })).toBeNull();
+  });
+
+  it("reports download progress and readiness", () => {
+    const busy = describeOfflineStatus({ online: true, controlled: true, precache: { cached: 40, total: 135, done: false } });
+    expect(busy).toEqual({ label: "Saving for offline — 40/135 coaching clips", tone: "busy" });
+    const ready = { cached: 135, total: 135, done: true };
+    expect(isFullyCached(ready)).toBe(true);
+    expect(describeOfflineStatus({ online: true, controlled: true, precache: ready })?.label).toBe("Ready offline");
+  });
+
+  it("tells offline users whether coaching will work", () => {
+    expect(describeOfflineStatus({ online: false, controlled: true, precache: { cached: 135, total: 135, done: true } })).toEqual({
+      label: "Offline — all coaching audio cached",
+      tone: "ok",
+    });
+    expect(describeOfflineStatus({ online: false, controlled: true, precache: { cached: 12, total: 135, done: true } })?.label).toBe(
+      "Offline — 12/135 coaching clips cached",
+    );
+    expect(describeOfflineStatus({ online: false, controlled: false, precache: null })?.tone).toBe("warn");
+  });
+});
@@ -0,0 +1,65 @@
+// Offline support: service worker registration and the status shown in the UI.
+//
+// The worker itself lives in src/sw.js and is emitted by the build; it
+// reports audio precache progress with { type: "precache", cached, total, done }.
+
+export type PrecacheProgress = { cached: number; total: number; done: boolean };
+
+export type OfflineStatus = {
+  online: boolean;
+  // A service worker controls the page (production builds only)
+  controlled: boolean;
+  precache: PrecacheProgress | null;
+};
+
+export type OfflineBadge = { label: string; tone: "ok" | "busy" | "warn" };
+
+export function parsePrecacheMessage(data: unknown): PrecacheProgress | null {
+  if (typeof data !== "object" || data === null) return null;
+  const m = data as Record<string, unknown>;
+  if (m.type !== "precache" || typeof m.cached !== "number" || typeof m.total !== "number") return null;
+  return { cached: m.cached, total: m.total, done: m.done === true };
+}
+
+export function isFullyCached(p: PrecacheProgress | null) {
+  return !!p && p.total > 0 && p.cached >= p.total;
+}
+
+// null when there is nothing worth saying (online, no service worker)
+export function describeOfflineStatus(status: OfflineStatus): OfflineBadge | null {
+  const { online, controlled, precache } = status;
+  const clips = precache && precache.total > 0 ? `${precache.cached}/${precache.total} coaching clips` : "";
+  if (!online) {
+    if (!controlled) return { label: "Offline", tone: "warn" };
+    if (isFullyCached(precache)) return { label: "Offline — all coaching audio cached", tone: "ok" };
+    return { label: clips ? `Offline — ${clips} cached` : "Offline — some lines need a connection", tone: "warn" };
+  }
+  if (!controlled || !precache) return null;
+  if (isFullyCached(precache)) return { label: "Ready offline", tone: "ok" };
+  if (!precache.done) return { label: `Saving for offline — ${clips}`, tone: "busy" };
+  return { label: `${clips} saved for offline`, tone: "warn" };
+}
+
+export function registerServiceWorker(onProgress: (progress: PrecacheProgress) => void) {
+  if (!("serviceWorker" in navigator)) return () => {};
+  const handleMessage = (e: MessageEvent) => {
+    const progress = parsePrecacheMessage(e.data);
+    if (progress) onProgress(progress);
+  };
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+  navigator.serviceWorker
+    .register("/sw.js")
+    .then(() => navigator.serviceWorker.ready)
+    // The worker downloads the audio sets when asked, not while activating
+    .then((reg) => reg.active?.postMessage({ type: "precache-audio" }))
+    .catch(() => {
+      // No offline support (e.g. private mode); the app works online as before
+    });
+  return () => navigator.serviceWorker.removeEventListener("message", handleMessage);
+}
+
+// Download the clips a new worker's caches don't have yet, or that failed to
+// download while the connection was down
+export function requestAudioPrecache() {
+  navigator.serviceWorker?.controller?.postMessage({ type: "precache-audio" });
+}
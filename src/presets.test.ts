@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  PRESETS_SCHEMA_VERSION,
+  PRESETS_STORAGE_KEY,
+  defaultPresetSettings,
+  deletePreset,
+  emptyPresetStore,
+  lastUsedPreset,
+  loadPresetStore,
+  markPresetUsed,
+  normalizePresetSettings,
+  parsePresetStore,
+  persistPresetStore,
+  savePreset,
+  serializePresetStore,
+} from "./presets";
+
+function memoryStorage() {
+  const data = new Map<string, string>();
+  return {
+    getItem: (k: string) => data.get(k) ?? null,
+    setItem: (k: string, v: string) => void data.set(k, v),
+  };
+}
+
+describe("presets", () => {
+  it("round-trips a saved preset and remembers it as last used", () => {
+    const settings = {
+      ...defaultPresetSettings(),
+      durationMinutes: 8,
+      prepSeconds: 30,
+      voiceId: "onyx",
+      speechSpeed: 1.25,
+      speedMode: "native" as const,
+    };
+    const { store, preset } = savePreset(emptyPresetStore(), "  Morning bends ", settings, 1_000);
+    expect(preset.name).toBe("Morning bends");
+    expect(store.lastUsedId).toBe(preset.id);
+
+    const storage = memoryStorage();
+    persistPresetStore(storage, store);
+    const loaded = loadPresetStore(storage);
+    expect(lastUsedPreset(loaded)?.settings).toMatchObject({
+      durationMinutes: 8,
+      prepSeconds: 30,
+      voiceId: "onyx",
+      speechSpeed: 1.25,
+      speedMode: "native",
+    });
+  });
+
+  it("overwrites a preset saved under the same name", () => {
+    const first = savePreset(emptyPresetStore(), "Evening stretch", defaultPresetSettings(), 1);
+    const second = savePreset(first.store, "evening STRETCH", { ...defaultPresetSettings(), durationMinutes: 12 }, 2);
+    expect(second.store.presets).toHaveLength(1);
+    expect(second.preset.id).toBe(first.preset.id);
+    expect(second.store.presets[0].settings.durationMinutes).toBe(12);
+  });
+
+  it("deletes presets and clears last used", () => {
+    const a = savePreset(emptyPresetStore(), "A", defaultPresetSettings(), 1);
+    const b = savePreset(a.store, "B", defaultPresetSettings(), 2);
+    const used = markPresetUsed(b.store, a.preset.id);
+    expect(used.lastUsedId).toBe(a.preset.id);
+    expect(markPresetUsed(used, "missing")).toBe(used);
+
+    const after = deletePreset(used, a.preset.id);
+    expect(after.presets.map((p) => p.name)).toEqual(["B"]);
+    expect(after.lastUsedId).toBeNull();
+  });
+
+  it("ignores unreadable or unknown-version data", () => {
+    expect(parsePresetStore(null)).toEqual(emptyPresetStore());
+    expect(parsePresetStore("{not json")).toEqual(emptyPresetStore());
+    expect(parsePresetStore(JSON.stringify({ version: PRESETS_SCHEMA_VERSION + 1, presets: [] }))).toEqual(emptyPresetStore());
+
+    const storage = memoryStorage();
+    storage.setItem(PRESETS_STORAGE_KEY, "[]");
+    expect(loadPresetStore(storage)).toEqual(emptyPresetStore());
+  });
+
+  it("repairs malformed settings field by field", () => {
+    const settings = normalizePresetSettings({
+      timerMode: "yoga",
+      durationMinutes: 99,
+      speechEnabled: "yes",
+      routine: [{ kind: "rest", seconds: 2 }],
+      cadence: { reps: 4 },
+      phaseCueStyle: "tone",
+    });
+    const d = defaultPresetSettings();
+    expect(settings.timerMode).toBe("single");
+    expect(settings.durationMinutes).toBe(15);
+    expect(settings.speechEnabled).toBe(true);
+    expect(settings.routine).toMatchObject([{ kind: "rest", name: "Rest", seconds: 5 }]);
+    expect(settings.cadence).toEqual({ ...d.cadence, reps: 4 });
+    expect(settings.phaseCueStyle).toBe("tone");
+    expect(settings.milestones).toEqual(d.milestones);
+
+    const custom = normalizePresetSettings({ milestones: [{ unit: "seconds", value: 90, text: "Ninety seconds." }] });
+    expect(custom.milestones).toMatchObject([{ unit: "seconds", value: 90, text: "Ninety seconds." }]);
+    expect(normalizePresetSettings({ milestones: [] }).milestones).toEqual([]);
+
+    expect(settings.coaching).toEqual(d.coaching);
+    const coaching = normalizePresetSettings({ coaching: { intervalSeconds: 15, quietWindows: [{ from: 60, to: 120 }, "x"] } });
+    expect(coaching.coaching).toMatchObject({ intervalSeconds: 15, jitterSeconds: 0, quietWindows: [{ from: 60, to: 120 }] });
+  });
+
+  it("drops nameless presets and dangling last-used ids", () => {
+    const raw = serializePresetStore({
+      version: PRESETS_SCHEMA_VERSION,
+      presets: [
+        { id: "a", name: " ", settings: defaultPresetSettings(), updatedAt: 0 },
+        { id: "b", name: "Ok", settings: defaultPresetSettings(), updatedAt: 0 },
+      ],
+      lastUsedId: "a",
+    });
+    const store = parsePresetStore(raw);
+    expect(store.presets.map((p) => p.id)).toEqual(["b"]);
+    expect(store.lastUsedId).toBeNull();
+  });
+});
@@ -0,0 +1,233 @@
+// Saved session presets ("Morning bends", "Evening stretch"), persisted in
+// localStorage under a versioned schema.
+
+import { DEFAULT_CADENCE, normalizeCadence, type CadenceConfig, type PhaseCueStyle } from "./cadence";
+import { DEFAULT_COACHING, normalizeCoaching, type CoachingCadence } from "./coaching";
+import { DEFAULT_INTERVALS, normalizeIntervals, type IntervalConfig } from "./intervals";
+import { DEFAULT_MUSIC, normalizeMusicSettings, type MusicSettings } from "./music";
+import { createSegment, defaultRoutine, type RoutineSegment } from "./routine";
+import type { SpeedMode } from "./staticAudio";
+import { DEFAULT_TIME_ANNOUNCEMENTS, normalizeTimeAnnouncements, type TimeAnnouncementSettings } from "./timeAnnouncements";
+import {
+  DEFAULT_MILESTONE_SPECS,
+  DEFAULT_MINUTES,
+  MILESTONES_MAX,
+  clampFloat,
+  clampInt,
+  createMilestoneSpec,
+  normalizeMilestoneSpec,
+  type MilestoneSpec,
+} from "./ttsUtils";
+
+export type TimerMode = "single" | "routine" | "reps" | "intervals";
+
+export type PresetSettings = {
+  timerMode: TimerMode;
+  durationMinutes: number;
+  prepSeconds: number;
+  speechEnabled: boolean;
+  voiceId: string;
+  speechSpeed: number;
+  // Off-set speeds: time-stretch pre-generated clips or re-synthesize
+  speedMode: SpeedMode;
+  music: MusicSettings;
+  autoRecord: boolean;
+  routine: RoutineSegment[];
+  cadence: CadenceConfig;
+  phaseCueStyle: PhaseCueStyle;
+  intervals: IntervalConfig;
+  milestones: MilestoneSpec[];
+  coaching: CoachingCadence;
+  endCountdown: boolean;
+  timeAnnouncements: TimeAnnouncementSettings;
+  // speechSynthesis voice used when the cloud voice fails ("" = automatic)
+  localVoiceURI: string;
+};
+
+export type Preset = { id: string; name: string; settings: PresetSettings; updatedAt: number };
+
+export type PresetStore = { version: number; presets: Preset[]; lastUsedId: string | null };
+
+export const PRESETS_STORAGE_KEY = "knee-timer-presets";
+// Bump when PresetSettings changes shape and add a migration in parsePresetStore
+export const PRESETS_SCHEMA_VERSION = 1;
+export const PRESET_NAME_MAX = 40;
+export const PRESETS_MAX = 12;
+
+export const TIMER_MODES: TimerMode[] = ["single", "routine", "reps", "intervals"];
+
+export function defaultPresetSettings(): PresetSettings {
+  return {
+    timerMode: "single",
+    durationMinutes: DEFAULT_MINUTES,
+    prepSeconds: 0,
+    speechEnabled: true,
+    voiceId: "echo",
+    speechSpeed: 1,
+    speedMode: "stretch",
+    music: DEFAULT_MUSIC,
+    autoRecord: true,
+    routine: defaultRoutine(),
+    cadence: DEFAULT_CADENCE,
+    phaseCueStyle: "voice",
+    intervals: DEFAULT_INTERVALS,
+    milestones: DEFAULT_MILESTONE_SPECS,
+    coaching: DEFAULT_COACHING,
+    endCountdown: false,
+    timeAnnouncements: DEFAULT_TIME_ANNOUNCEMENTS,
+    localVoiceURI: "",
+  };
+}
+
+export function emptyPresetStore(): PresetStore {
+  return { version: PRESETS_SCHEMA_VERSION, presets: [], lastUsedId: null };
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function parseRoutine(v: unknown): RoutineSegment[] | null {
+  if (!Array.isArray(v) || v.length === 0) return null;
+  const segments = v.filter(isRecord).map((s) =>
+    createSegment(s.kind === "rest" ? "rest" : "exercise", String(s.name ?? ""), Number(s.seconds)),
+  );
+  return segments.length ? segments : null;
+}
+
+// An empty list is valid (no milestones at all)
+function parseMilestones(v: unknown): MilestoneSpec[] | null {
+  if (!Array.isArray(v)) return null;
+  return v
+    .filter(isRecord)
+    .slice(0, MILESTONES_MAX)
+    .map((m) =>
+      normalizeMilestoneSpec(
+        createMilestoneSpec(m.unit === "seconds" ? "seconds" : "percent", Number(m.value), String(m.text ?? "")),
+      ),
+    );
+}
+
+function parseCoaching(v: unknown): CoachingCadence | null {
+  if (!isRecord(v)) return null;
+  const quietWindows = Array.isArray(v.quietWindows)
+    ? v.quietWindows.filter(isRecord).map((w) => ({ from: Number(w.from), to: Number(w.to) }))
+    : [];
+  return normalizeCoaching({
+    intervalSeconds: Number(v.intervalSeconds ?? DEFAULT_COACHING.intervalSeconds),
+    jitterSeconds: Number(v.jitterSeconds ?? DEFAULT_COACHING.jitterSeconds),
+    quietWindows,
+  });
+}
+
+// Field-by-field validation: anything missing or malformed falls back to the
+// default, so a half-broken preset still loads.
+export function normalizePresetSettings(raw: unknown): PresetSettings {
+  const d = defaultPresetSettings();
+  if (!isRecord(raw)) return d;
+  const num = (v: unknown, fallback: number) => (typeof v === "number" && Number.isFinite(v) ? v : fallback);
+  return {
+    timerMode: TIMER_MODES.includes(raw.timerMode as TimerMode) ? (raw.timerMode as TimerMode) : d.timerMode,
+    durationMinutes: clampInt(num(raw.durationMinutes, d.durationMinutes), 1, 15),
+    prepSeconds: clampInt(num(raw.prepSeconds, d.prepSeconds), 0, 60),
+    speechEnabled: typeof raw.speechEnabled === "boolean" ? raw.speechEnabled : d.speechEnabled,
+    voiceId: typeof raw.voiceId === "string" && raw.voiceId ? raw.voiceId : d.voiceId,
+    speechSpeed: clampFloat(num(raw.speechSpeed, d.speechSpeed), 0.25, 4),
+    speedMode: raw.speedMode === "native" || raw.speedMode === "stretch" ? raw.speedMode : d.speedMode,
+    music: isRecord(raw.music) ? normalizeMusicSettings(raw.music) : d.music,
+    autoRecord: typeof raw.autoRecord === "boolean" ? raw.autoRecord : d.autoRecord,
+    routine: parseRoutine(raw.routine) ?? d.routine,
+    cadence: isRecord(raw.cadence) ? normalizeCadence({ ...d.cadence, ...raw.cadence }) : d.cadence,
+    phaseCueStyle: raw.phaseCueStyle === "tone" ? "tone" : d.phaseCueStyle,
+    intervals: isRecord(raw.intervals) ? normalizeIntervals({ ...d.intervals, ...raw.intervals }) : d.intervals,
+    milestones: parseMilestones(raw.milestones) ?? d.milestones,
+    coaching: parseCoaching(raw.coaching) ?? d.coaching,
+    endCountdown: typeof raw.endCountdown === "boolean" ? raw.endCountdown : d.endCountdown,
+    timeAnnouncements: isRecord(raw.timeAnnouncements)
+      ? normalizeTimeAnnouncements(raw.timeAnnouncements)
+      : d.timeAnnouncements,
+    localVoiceURI: typeof raw.localVoiceURI === "string" ? raw.localVoiceURI : d.localVoiceURI,
+  };
+}
+
+// Unreadable or unknown-version data yields an empty store rather than an error.
+export function parsePresetStore(raw: string | null): PresetStore {
+  if (!raw) return emptyPresetStore();
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return emptyPresetStore();
+  }
+  if (!isRecord(data) || data.version !== PRESETS_SCHEMA_VERSION || !Array.isArray(data.presets)) {
+    return emptyPresetStore();
+  }
+  const presets: Preset[] = [];
+  for (const p of data.presets) {
+    if (!isRecord(p) || typeof p.id !== "string" || typeof p.name !== "string" || !p.name.trim()) continue;
+    presets.push({
+      id: p.id,
+      name: p.name.trim().slice(0, PRESET_NAME_MAX),
+      settings: normalizePresetSettings(p.settings),
+      updatedAt: typeof p.updatedAt === "number" ? p.updatedAt : 0,
+    });
+  }
+  const lastUsedId = presets.some((p) => p.id === data.lastUsedId) ? (data.lastUsedId as string) : null;
+  return { version: PRESETS_SCHEMA_VERSION, presets: presets.slice(0, PRESETS_MAX), lastUsedId };
+}
+
+export function serializePresetStore(store: PresetStore) {
+  return JSON.stringify(store);
+}
+
+// Saving under an existing name (case-insensitive) overwrites that preset.
+// The saved preset becomes the last used one.
+export function savePreset(store: PresetStore, name: string, settings: PresetSettings, now: number) {
+  const trimmed = name.trim().slice(0, PRESET_NAME_MAX);
+  const existing = store.presets.find((p) => p.name.toLowerCase() === trimmed.toLowerCase());
+  const preset: Preset = {
+    id: existing?.id ?? `preset-${now.toString(36)}-${store.presets.length}`,
+    name: trimmed,
+    settings,
+    updatedAt: now,
+  };
+  const presets = existing
+    ? store.presets.map((p) => (p.id === existing.id ? preset : p))
+    : [...store.presets, preset].slice(-PRESETS_MAX);
+  return { store: { ...store, presets, lastUsedId: preset.id }, preset };
+}
+
+export function deletePreset(store: PresetStore, id: string): PresetStore {
+  return {
+    ...store,
+    presets: store.presets.filter((p) => p.id !== id),
+    lastUsedId: store.lastUsedId === id ? null : store.lastUsedId,
+  };
+}
+
+export function markPresetUsed(store: PresetStore, id: string): PresetStore {
+  if (!store.presets.some((p) => p.id === id)) return store;
+  return { ...store, lastUsedId: id };
+}
+
+export function lastUsedPreset(store: PresetStore) {
+  return store.presets.find((p) => p.id === store.lastUsedId) ?? null;
+}
+
+export function loadPresetStore(storage: Pick<Storage, "getItem">) {
+  try {
+    return parsePresetStore(storage.getItem(PRESETS_STORAGE_KEY));
+  } catch {
+    return emptyPresetStore();
+  }
+}
+
+// Storage can be full or unavailable (private browsing); presets then just
+// don't survive the reload.
+export function persistPresetStore(storage: Pick<Storage, "setItem">, store: PresetStore) {
+  try {
+    storage.setItem(PRESETS_STORAGE_KEY, serializePresetStore(store));
+  } catch {
+    // ignore
+  }
+}
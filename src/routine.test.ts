@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTransitionCues,
+  buildTransitionLine,
+  computeSegmentMilestones,
+  createSegment,
+  defaultRoutine,
+  isRoutineQuietAt,
+  mergeMilestones,
+  routineTotalSeconds,
+  segmentAt,
+  SEGMENT_MAX_SECONDS,
+} from "./routine";
+import { computeMilestones, formatDurationWords } from "./ttsUtils";
+
+const routine = [
+  createSegment("exercise", "heel slides", 180),
+  createSegment("exercise", "quad sets", 120),
+  createSegment("rest", "", 30),
+  createSegment("exercise", "straight-leg raises", 180),
+];
+
+describe("routine", () => {
+  it("normalizes new segments", () => {
+    expect(routine[2].name).toBe("Rest");
+    expect(createSegment("exercise", "  ", 5000)).toMatchObject({ name: "Exercise", seconds: SEGMENT_MAX_SECONDS });
+    expect(routine[0].id).not.toBe(routine[1].id);
+  });
+
+  it("sums segment durations", () => {
+    expect(routineTotalSeconds(routine)).toBe(510);
+    expect(routineTotalSeconds(defaultRoutine())).toBe(510);
+  });
+
+  it("locates the segment for an elapsed second", () => {
+    expect(segmentAt(routine, 0)).toMatchObject({ index: 0, elapsed: 0, secondsLeft: 180 });
+    expect(segmentAt(routine, 180)).toMatchObject({ index: 1, start: 180, elapsed: 0 });
+    expect(segmentAt(routine, 305)).toMatchObject({ index: 2, elapsed: 5, secondsLeft: 25 });
+    expect(segmentAt(routine, 999)).toMatchObject({ index: 3, secondsLeft: 0 });
+    expect(segmentAt([], 10)).toBeNull();
+  });
+
+  it("speaks transitions for every segment after the first", () => {
+    const cues = buildTransitionCues(routine);
+    expect(cues.map((c) => c.elapsed)).toEqual([180, 300, 330]);
+    expect(cues[0].text).toBe("Next: quad sets. 2 minutes.");
+    expect(cues[1].text).toBe("Rest for 30 seconds.");
+    expect(buildTransitionLine(createSegment("exercise", "bridges", 90))).toBe("Next: bridges. 1 minute 30 seconds.");
+    expect(formatDurationWords(0)).toBe("0 seconds");
+  });
+
+  it("computes per-segment milestones and merges them with routine milestones", () => {
+    const segmentMs = computeSegmentMilestones(routine);
+    expect(segmentMs.map((m) => m.elapsed)).toEqual([90, 240, 420]);
+
+    const routineMs = computeMilestones(routineTotalSeconds(routine));
+    const merged = mergeMilestones(routineMs, segmentMs, buildTransitionCues(routine));
+    const elapsed = merged.map((m) => m.elapsed);
+    expect(elapsed).toEqual([...elapsed].sort((a, b) => a - b));
+    expect(new Set(elapsed).size).toBe(elapsed.length);
+    expect(merged.some((m) => m.key === "m50")).toBe(true);
+    expect(merged.some((m) => m.key === "s0-m50")).toBe(true);
+  });
+
+  it("keeps rest segments and post-transition seconds quiet", () => {
+    expect(isRoutineQuietAt(routine, 60)).toBe(false);
+    expect(isRoutineQuietAt(routine, 185)).toBe(true);
+    expect(isRoutineQuietAt(routine, 310)).toBe(true);
+    expect(isRoutineQuietAt(routine, 400)).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+// Multi-exercise routine model: an ordered list of exercise and rest segments.
+
+import type { TimedCue } from "./sessionClock";
+import { clampInt, formatDurationWords, type Milestone } from "./ttsUtils";
+
+export type SegmentKind = "exercise" | "rest";
+export type RoutineSegment = { id: string; kind: SegmentKind; name: string; seconds: number };
+
+export type SegmentPosition = {
+  index: number;
+  segment: RoutineSegment;
+  start: number;
+  elapsed: number;
+  secondsLeft: number;
+};
+
+export const SEGMENT_MIN_SECONDS = 5;
+export const SEGMENT_MAX_SECONDS = 15 * 60;
+export const ROUTINE_MAX_SEGMENTS = 20;
+
+// Motivation lines are held back this long after a transition so they
+// don't talk over the "Next: ..." announcement.
+export const TRANSITION_CLEARANCE_SECONDS = 10;
+
+// Only segments at least this long get their own halfway callout
+export const SEGMENT_MILESTONE_MIN_SECONDS = 60;
+
+let segmentCounter = 0;
+
+export function createSegment(kind: SegmentKind, name?: string, seconds?: number): RoutineSegment {
+  segmentCounter += 1;
+  return normalizeSegment({
+    id: `seg-${Date.now().toString(36)}-${segmentCounter}`,
+    kind,
+    name: name ?? "",
+    seconds: seconds ?? (kind === "rest" ? 30 : 120),
+  });
+}
+
+export function normalizeSegment(segment: RoutineSegment): RoutineSegment {
+  const name = segment.name.trim() || (segment.kind === "rest" ? "Rest" : "Exercise");
+  return {
+    ...segment,
+    name,
+    seconds: clampInt(segment.seconds, SEGMENT_MIN_SECONDS, SEGMENT_MAX_SECONDS),
+  };
+}
+
+export function defaultRoutine(): RoutineSegment[] {
+  return [
+    createSegment("exercise", "heel slides", 180),
+    createSegment("exercise", "quad sets", 120),
+    createSegment("rest", "Rest", 30),
+    createSegment("exercise", "straight-leg raises", 180),
+  ];
+}
+
+export function routineTotalSeconds(segments: RoutineSegment[]) {
+  return segments.reduce((sum, s) => sum + s.seconds, 0);
+}
+
+// Where in the routine a given elapsed second falls. Past the end, the last
+// segment is reported as complete.
+export function segmentAt(segments: RoutineSegment[], elapsed: number): SegmentPosition | null {
+  let start = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const end = start + segment.seconds;
+    if (elapsed < end || i === segments.length - 1) {
+      const inSegment = Math.min(segment.seconds, Math.max(0, elapsed - start));
+      return { index: i, segment, start, elapsed: inSegment, secondsLeft: segment.seconds - inSegment };
+    }
+    start = end;
+  }
+  return null;
+}
+
+export function buildTransitionLine(segment: RoutineSegment) {
+  if (segment.kind === "rest") return `Rest for ${formatDurationWords(segment.seconds)}.`;
+  return `Next: ${segment.name}. ${formatDurationWords(segment.seconds)}.`;
+}
+
+// One transition cue at the start of every segment after the first
+// (the first one starts together with the start line).
+export function buildTransitionCues(segments: RoutineSegment[]): TimedCue[] {
+  const cues: TimedCue[] = [];
+  let start = 0;
+  segments.forEach((segment, i) => {
+    if (i > 0) {
+      cues.push({ key: `s${i}`, elapsed: start, kind: "transition", text: buildTransitionLine(segment) });
+    }
+    start += segment.seconds;
+  });
+  return cues;
+}
+
+// Per-segment halfway callouts for longer exercises, positioned on the
+// routine timeline so they share the schedule with routine milestones.
+export function computeSegmentMilestones(segments: RoutineSegment[]): Milestone[] {
+  const milestones: Milestone[] = [];
+  let start = 0;
+  segments.forEach((segment, i) => {
+    if (segment.kind === "exercise" && segment.seconds >= SEGMENT_MILESTONE_MIN_SECONDS) {
+      milestones.push({
+        key: `s${i}-m50`,
+        elapsed: start + Math.round(segment.seconds / 2),
+        text: `Halfway through ${segment.name}. Stay steady.`,
+      });
+    }
+    start += segment.seconds;
+  });
+  return milestones;
+}
+
+// Merge routine-wide milestones with per-segment ones. On a collision the
+// routine milestone wins, and nothing is spoken over a transition.
+export function mergeMilestones(routineMilestones: Milestone[], segmentMilestones: Milestone[], transitions: TimedCue[]) {
+  const taken = new Set([...routineMilestones, ...transitions].map((m) => m.elapsed));
+  const merged = routineMilestones.filter((m) => !transitions.some((t) => t.elapsed === m.elapsed));
+  for (const m of segmentMilestones) {
+    if (!taken.has(m.elapsed)) merged.push(m);
+  }
+  return merged.sort((a, b) => a.elapsed - b.elapsed);
+}
+
+// Rest segments and the seconds right after a transition are kept free of
+// motivation lines.
+export function isRoutineQuietAt(segments: RoutineSegment[], elapsed: number) {
+  const pos = segmentAt(segments, elapsed);
+  if (!pos) return false;
+  if (pos.segment.kind === "rest") return true;
+  return pos.index > 0 && pos.elapsed < TRANSITION_CLEARANCE_SECONDS;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCueSchedule,
+  elapsedSeconds,
+  pauseClock,
+  resolveDueCues,
+  resumeClock,
+  startClock,
+} from "./sessionClock";
+import { computeMilestones } from "./ttsUtils";
+
+describe("sessionClock", () => {
+  it("derives elapsed time from timestamps", () => {
+    const clock = startClock(1_000);
+    expect(elapsedSeconds(clock, 1_000)).toBe(0);
+    expect(elapsedSeconds(clock, 1_999)).toBe(0);
+    expect(elapsedSeconds(clock, 61_000)).toBe(60);
+  });
+
+  it("excludes paused time", () => {
+    let clock = startClock(0);
+    clock = pauseClock(clock, 10_000);
+    expect(elapsedSeconds(clock, 50_000)).toBe(10);
+    clock = resumeClock(clock, 50_000);
+    expect(elapsedSeconds(clock, 55_000)).toBe(15);
+    expect(resumeClock(clock, 60_000)).toBe(clock);
+  });
+
+  it("builds a cue schedule without start/end or milestone collisions", () => {
+    const schedule = buildCueSchedule(120, computeMilestones(120));
+    const keys = schedule.map((c) => c.key);
+    expect(keys).toEqual(["m25", "m50", "m75", "m90"]);
+
+    const long = buildCueSchedule(600, computeMilestones(600));
+    expect(long[0]).toEqual({ key: "t30", elapsed: 30, kind: "motivation", slot: 1 });
+    expect(long.some((c) => c.elapsed === 0 || c.elapsed === 600)).toBe(false);
+    expect(long.filter((c) => c.elapsed === 300)).toHaveLength(1);
+  });
+
+  it("speaks the single cue due on a normal tick", () => {
+    const schedule = buildCueSchedule(600, computeMilestones(600));
+    expect(resolveDueCues(schedule, 29, 30).speak?.key).toBe("t30");
+    expect(resolveDueCues(schedule, 30, 31).speak).toBeNull();
+  });
+
+  it("drops stale cues after a throttled catch-up", () => {
+    const schedule = buildCueSchedule(600, computeMilestones(600));
+    // Tab suspended from 100s to 245s: t120, m25 (150), t180, t210, t240 crossed.
+    const { speak, dropped } = resolveDueCues(schedule, 100, 245);
+    expect(speak).toBeNull();
+    expect(dropped.map((c) => c.key)).toEqual(["t120", "m25", "t180", "t210", "t240"]);
+  });
+
+  it("prefers a recent milestone over a fresh motivation line", () => {
+    const schedule = buildCueSchedule(600, computeMilestones(600));
+    // m50 at 300 is 1s late, t270 is stale.
+    const { speak, dropped } = resolveDueCues(schedule, 250, 301);
+    expect(speak?.key).toBe("m50");
+    expect(dropped.map((c) => c.key)).toEqual(["t270"]);
+
+    const late = resolveDueCues(schedule, 140, 158);
+    expect(late.speak?.key).toBe("m25");
+  });
+
+  it("ranks transitions above milestones", () => {
+    const schedule = buildCueSchedule(600, computeMilestones(600), {
+      extra: [{ key: "s1", elapsed: 148, kind: "transition", text: "Next: quad sets." }],
+    });
+    expect(resolveDueCues(schedule, 140, 150).speak?.key).toBe("s1");
+    expect(buildCueSchedule(600, [], { isQuiet: (e) => e < 300 })[0].key).toBe("t300");
+  });
+
+  it("keeps motivation lines clear of nearby milestones", () => {
+    const schedule = buildCueSchedule(600, [{ key: "m64s", elapsed: 64, text: "Custom." }]);
+    const keys = schedule.map((c) => c.key);
+    expect(keys).toContain("m64s");
+    expect(keys).not.toContain("t60");
+    expect(keys).toContain("t30");
+    expect(keys).toContain("t90");
+  });
+});
@@ -0,0 +1,143 @@
+// Wall-clock session timing utilities.
+//
+// Elapsed time is derived from timestamps (start time + accumulated pause time)
+// instead of counting interval ticks, so a throttled or suspended tab catches
+// up to the correct position as soon as it runs again.
+
+import { coachingCueTimes, type MotivationSlot } from "./coaching";
+import type { Milestone } from "./ttsUtils";
+
+export type SessionClock = {
+  startedAt: number;
+  pausedAt: number | null;
+  pausedMs: number;
+};
+
+export type CueKind = "count" | "phase" | "transition" | "milestone" | "time" | "motivation";
+// raw cues are spoken exactly as written (no short-utterance padding);
+// slot picks the bank line for a motivation cue; parts are the static clips a
+// composed line is stitched from (see timeAnnouncements.ts)
+export type TimedCue = {
+  key: string;
+  elapsed: number;
+  kind: CueKind;
+  text?: string;
+  raw?: boolean;
+  slot?: number;
+  parts?: string[];
+};
+
+// How late (in seconds) a cue may be and still get spoken after a catch-up.
+// Transitions and milestones are worth hearing a little late; time
+// announcements and motivation lines much less so. A rep phase cue is useless
+// even a second late, and a countdown number only makes sense on its own second.
+export const CATCH_UP_GRACE_SECONDS: Record<CueKind, number> = {
+  count: 0,
+  phase: 1,
+  transition: 15,
+  milestone: 10,
+  time: 3,
+  motivation: 2,
+};
+
+// When several cues are due at once, the higher priority one is spoken
+const CUE_PRIORITY: Record<CueKind, number> = {
+  count: 5,
+  phase: 4,
+  transition: 3,
+  milestone: 2,
+  time: 1,
+  motivation: 0,
+};
+
+// A motivation line this close to a milestone (either side) would run into
+// it, so it is left out. Custom milestones rarely sit on the 30s grid.
+export const MILESTONE_CLEARANCE_SECONDS = 6;
+
+export function startClock(now: number): SessionClock {
+  return { startedAt: now, pausedAt: null, pausedMs: 0 };
+}
+
+export function pauseClock(clock: SessionClock, now: number): SessionClock {
+  if (clock.pausedAt != null) return clock;
+  return { ...clock, pausedAt: now };
+}
+
+export function resumeClock(clock: SessionClock, now: number): SessionClock {
+  if (clock.pausedAt == null) return clock;
+  return { ...clock, pausedAt: null, pausedMs: clock.pausedMs + Math.max(0, now - clock.pausedAt) };
+}
+
+export function elapsedMs(clock: SessionClock, now: number) {
+  const end = clock.pausedAt ?? now;
+  return Math.max(0, end - clock.startedAt - clock.pausedMs);
+}
+
+export function elapsedSeconds(clock: SessionClock, now: number) {
+  return Math.floor(elapsedMs(clock, now) / 1000);
+}
+
+// Every cue the session would speak, in order. The start (elapsed 0) and the
+// end (elapsed === totalSeconds) are reserved for the start/congrats lines.
+// Motivation lines come from motivationAt (by default the 30-second coaching
+// grid, see coachingCueTimes) and are skipped when a milestone or extra cue
+// (e.g. a routine transition) lands on the same second, when a milestone is
+// within MILESTONE_CLEARANCE_SECONDS, or when isQuiet() says so.
+export function buildCueSchedule(
+  totalSeconds: number,
+  milestones: Milestone[],
+  options: { extra?: TimedCue[]; isQuiet?: (elapsed: number) => boolean; motivationAt?: MotivationSlot[] } = {},
+): TimedCue[] {
+  const t = Math.max(0, Math.trunc(totalSeconds));
+  const cues: TimedCue[] = [];
+  const taken = new Set<number>();
+
+  for (const c of options.extra ?? []) {
+    if (c.elapsed <= 0 || c.elapsed >= t) continue;
+    taken.add(c.elapsed);
+    cues.push(c);
+  }
+
+  const milestoneTimes: number[] = [];
+  for (const m of milestones) {
+    if (m.elapsed <= 0 || m.elapsed >= t || taken.has(m.elapsed)) continue;
+    taken.add(m.elapsed);
+    milestoneTimes.push(m.elapsed);
+    cues.push({ key: m.key, elapsed: m.elapsed, kind: "milestone" });
+  }
+  const nearMilestone = (elapsed: number) =>
+    milestoneTimes.some((m) => Math.abs(m - elapsed) < MILESTONE_CLEARANCE_SECONDS);
+
+  for (const { elapsed, slot } of options.motivationAt ?? coachingCueTimes(t)) {
+    if (elapsed <= 0 || elapsed >= t) continue;
+    if (taken.has(elapsed) || nearMilestone(elapsed) || options.isQuiet?.(elapsed)) continue;
+    cues.push({ key: `t${elapsed}`, elapsed, kind: "motivation", slot });
+  }
+
+  return cues.sort((a, b) => a.elapsed - b.elapsed);
+}
+
+// Decide what to do with the cues that fell due between two ticks
+// (fromElapsed exclusive, toElapsed inclusive). On a normal one-second tick
+// that is at most one cue. After throttling it can be many: only the most
+// recent cue still inside its grace window is spoken (transitions win over
+// milestones, milestones over motivation lines), everything else is dropped
+// so the coach never rattles off a backlog.
+export function resolveDueCues(
+  schedule: TimedCue[],
+  fromElapsed: number,
+  toElapsed: number,
+): { speak: TimedCue | null; dropped: TimedCue[] } {
+  const due = schedule.filter((c) => c.elapsed > fromElapsed && c.elapsed <= toElapsed);
+  const fresh = due.filter((c) => toElapsed - c.elapsed <= CATCH_UP_GRACE_SECONDS[c.kind]);
+
+  const rank = (c: TimedCue) => CUE_PRIORITY[c.kind];
+  let speak: TimedCue | null = null;
+  for (const c of fresh) {
+    if (!speak || rank(c) > rank(speak) || (rank(c) === rank(speak) && c.elapsed >= speak.elapsed)) {
+      speak = c;
+    }
+  }
+
+  return { speak, dropped: due.filter((c) => c !== speak) };
+}
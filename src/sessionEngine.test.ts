@@ -0,0 +1,298 @@
+import { describe, expect, it } from "vitest";
+import { buildSessionLines, createSessionEngine, type SessionEvent, type SessionPlan } from "./sessionEngine";
+import { MOTIVATION_BANK, buildMotivationLine } from "./ttsUtils";
+import { createSegment } from "./routine";
+import { PHASE_LINES } from "./cadence";
+import { PREP_GUIDANCE_LINE } from "./countdown";
+
+function setup() {
+  let t = 0;
+  const engine = createSessionEngine({ now: () => t });
+  const events: SessionEvent[] = [];
+  engine.subscribe((e) => events.push(e));
+  const advance = (seconds: number) => {
+    t += seconds * 1000;
+    engine.tick();
+  };
+  const states = () => events.filter((e) => e.type === "state").map((e) => e.state);
+  const spoken = () =>
+    events.flatMap((e) => {
+      if (e.type === "cue") return [e.cue.key];
+      if (e.type === "milestone") return [e.milestone.key];
+      return [];
+    });
+  return { engine, events, advance, states, spoken };
+}
+
+describe("sessionEngine", () => {
+  it("starts idle", () => {
+    const { engine } = setup();
+    expect(engine.getSnapshot()).toMatchObject({ state: "idle", elapsed: 0 });
+  });
+
+  it("goes straight to running without prep", () => {
+    const { engine, events, states } = setup();
+    engine.start({ totalSeconds: 120 });
+    expect(states()).toEqual(["running"]);
+    expect(events.some((e) => e.type === "started")).toBe(true);
+    expect(engine.getSnapshot().secondsLeft).toBe(120);
+  });
+
+  it("counts down prep, then starts running on time", () => {
+    const { engine, events, advance, states } = setup();
+    engine.start({ totalSeconds: 120, prepSeconds: 3 });
+    expect(states()).toEqual(["prep"]);
+
+    advance(1);
+    advance(1);
+    const prepTicks = events.filter((e) => e.type === "prepTick").map((e) => e.secondsLeft);
+    expect(prepTicks).toEqual([3, 2, 1]);
+
+    // Late tick: running began when prep ended, not when the tick arrived
+    advance(3);
+    expect(states()).toEqual(["prep", "running"]);
+    expect(engine.getSnapshot().elapsed).toBe(2);
+  });
+
+  it("pauses and resumes without counting paused time", () => {
+    const { engine, advance, states } = setup();
+    engine.start({ totalSeconds: 120 });
+    advance(10);
+    engine.pause();
+    advance(100);
+    expect(engine.getSnapshot()).toMatchObject({ state: "paused", elapsed: 10 });
+    engine.resume();
+    advance(5);
+    expect(engine.getSnapshot().elapsed).toBe(15);
+    expect(states()).toEqual(["running", "paused", "running"]);
+  });
+
+  it("finishes when the clock reaches the total", () => {
+    const { engine, events, advance, states } = setup();
+    engine.start({ totalSeconds: 60 });
+    advance(75);
+    expect(states()).toEqual(["running", "finished"]);
+    expect(engine.getSnapshot().secondsLeft).toBe(0);
+    expect(events.filter((e) => e.type === "finished")).toEqual([{ type: "finished", totalSeconds: 60 }]);
+  });
+
+  it("reports progress when abandoned", () => {
+    const { engine, events, advance, states } = setup();
+    engine.start({ totalSeconds: 100 });
+    advance(25);
+    engine.abandon();
+    expect(states()).toEqual(["running", "abandoned"]);
+    expect(events.at(-1)).toEqual({ type: "abandoned", elapsed: 25, totalSeconds: 100, completionPct: 25 });
+  });
+
+  it("can be abandoned from prep and paused", () => {
+    const prep = setup();
+    prep.engine.start({ totalSeconds: 60, prepSeconds: 10 });
+    prep.engine.abandon();
+    expect(prep.states()).toEqual(["prep", "abandoned"]);
+
+    const paused = setup();
+    paused.engine.start({ totalSeconds: 60 });
+    paused.advance(5);
+    paused.engine.pause();
+    paused.engine.abandon();
+    expect(paused.states()).toEqual(["running", "paused", "abandoned"]);
+  });
+
+  it("resets to idle from any state", () => {
+    const { engine, advance, states } = setup();
+    engine.start({ totalSeconds: 60 });
+    advance(60);
+    engine.reset();
+    expect(states()).toEqual(["running", "finished", "idle"]);
+    expect(engine.getSnapshot()).toMatchObject({ state: "idle", elapsed: 0 });
+  });
+
+  it("ignores invalid transitions", () => {
+    const { engine, states } = setup();
+    engine.pause();
+    engine.resume();
+    engine.abandon();
+    expect(states()).toEqual([]);
+
+    engine.start({ totalSeconds: 60 });
+    engine.start({ totalSeconds: 120 });
+    engine.resume();
+    expect(states()).toEqual(["running"]);
+    expect(engine.getSnapshot().totalSeconds).toBe(60);
+  });
+
+  it("emits the cue schedule with milestones in place of colliding cadence lines", () => {
+    const { engine, advance, spoken } = setup();
+    engine.start({ totalSeconds: 120 });
+    for (let i = 0; i < 120; i++) advance(1);
+    expect(spoken()).toEqual(["m25", "m50", "m75", "m90"]);
+  });
+
+  it("emits motivation lines from the session bank on the 30-second cadence", () => {
+    const { engine, events, advance, spoken } = setup();
+    const bank = ["First.", "Second.", "Third."];
+    engine.start({ totalSeconds: 600, motivationBank: bank, activity: "physio" });
+    for (let i = 0; i < 90; i++) advance(1);
+    expect(spoken()).toEqual(["t30", "t60", "t90"]);
+
+    const cue = events.find((e) => e.type === "cue" && e.cue.key === "t60");
+    expect(cue).toMatchObject({ text: buildMotivationLine(bank[2], "physio") });
+  });
+
+  it("falls back to the default bank", () => {
+    const { engine, events, advance } = setup();
+    engine.start({ totalSeconds: 600, motivationBank: [] });
+    advance(30);
+    expect(events.find((e) => e.type === "cue")).toMatchObject({ text: MOTIVATION_BANK[1] });
+  });
+
+  it("follows the plan's coaching cadence and keeps quiet windows to milestones", () => {
+    const { engine, advance, spoken } = setup();
+    engine.start({
+      totalSeconds: 600,
+      coaching: { intervalSeconds: 15, jitterSeconds: 0, quietWindows: [{ from: 60, to: 180 }] },
+    });
+    for (let i = 0; i < 180; i++) advance(1);
+    // The window ends at 180, so that line plays again
+    expect(spoken()).toEqual(["t15", "t30", "t45", "m25", "t180"]);
+  });
+
+  it("drops stale cues after a long throttled gap", () => {
+    const { engine, advance, spoken } = setup();
+    engine.start({ totalSeconds: 600 });
+    advance(29);
+    advance(131); // m25 at 150 is 10s late — still spoken, the t-lines are not
+    advance(205);
+    expect(spoken()).toEqual(["m25"]);
+    expect(engine.getSnapshot().elapsed).toBe(365);
+  });
+
+  it("runs a routine through its segments with spoken transitions", () => {
+    const { engine, events, advance, spoken } = setup();
+    engine.start({
+      totalSeconds: 0,
+      segments: [
+        createSegment("exercise", "heel slides", 60),
+        createSegment("rest", "Rest", 30),
+        createSegment("exercise", "quad sets", 60),
+      ],
+    });
+    expect(engine.getSnapshot().totalSeconds).toBe(150);
+
+    for (let i = 0; i < 150; i++) {
+      advance(1);
+      if (i === 70) expect(engine.getSnapshot().segmentIndex).toBe(1);
+    }
+    const transitions = events.filter((e) => e.type === "cue" && e.cue.kind === "transition");
+    expect(transitions.map((e) => e.type === "cue" && e.text)).toEqual(["Rest for 30 seconds.", "Next: quad sets. 1 minute."]);
+    // No motivation lines during the rest segment (60-90)
+    expect(spoken().filter((k) => k === "t60" || k === "t90")).toEqual([]);
+    expect(spoken()).toContain("s0-m50");
+    expect(engine.getSnapshot().state).toBe("finished");
+  });
+
+  it("runs a cadence with phase cues and no percentage milestones", () => {
+    const { engine, events, advance, spoken } = setup();
+    engine.start({
+      totalSeconds: 0,
+      cadence: { reps: 2, holdSeconds: 5, releaseSeconds: 3, sets: 2, setRestSeconds: 20 },
+    });
+    // 5s lead-in + 2 sets of 16s + 20s rest
+    expect(engine.getSnapshot().totalSeconds).toBe(57);
+
+    for (let i = 0; i < 57; i++) advance(1);
+    const phases = events.flatMap((e) => (e.type === "cue" && e.cue.kind === "phase" ? [e.text] : []));
+    expect(phases).toEqual([PHASE_LINES.hold, PHASE_LINES.release, PHASE_LINES.hold, PHASE_LINES.release,
+      PHASE_LINES.hold, PHASE_LINES.release, PHASE_LINES.hold, PHASE_LINES.release]);
+    expect(spoken()).toContain("set-1");
+    expect(events.some((e) => e.type === "milestone")).toBe(false);
+    expect(engine.getSnapshot().state).toBe("finished");
+  });
+
+  it("announces rounds and rests in interval mode", () => {
+    const { engine, events, advance, spoken } = setup();
+    engine.start({ totalSeconds: 0, intervals: { rounds: 3, workSeconds: 45, restSeconds: 15 } });
+    expect(engine.getSnapshot().totalSeconds).toBe(165);
+
+    for (let i = 0; i < 165; i++) advance(1);
+    const announcements = events.flatMap((e) => (e.type === "cue" && e.cue.kind === "transition" ? [e.text] : []));
+    expect(announcements).toEqual(["Rest.", "Round 2 of 3.", "Rest.", "Round 3 of 3."]);
+    // t60 and t120 coincide with round announcements
+    expect(spoken().filter((k) => k.startsWith("t"))).toEqual(["t30", "t90", "t150"]);
+    expect(engine.getSnapshot().state).toBe("finished");
+  });
+
+  it("speaks prep guidance and counts down to the start", () => {
+    const { engine, events, advance } = setup();
+    engine.start({ totalSeconds: 60, prepSeconds: 30 });
+    for (let i = 0; i < 30; i++) advance(1);
+    const said = events.flatMap((e) => (e.type === "cue" ? [e.text] : e.type === "started" ? ["<start>"] : []));
+    expect(said).toEqual([PREP_GUIDANCE_LINE, "Three.", "Two.", "One.", "<start>"]);
+  });
+
+  it("counts down the end of the session and keeps it clear", () => {
+    const { engine, advance, spoken } = setup();
+    engine.start({ totalSeconds: 60, endCountdown: true });
+    for (let i = 0; i < 60; i++) advance(1);
+    // m75 (45s) and m90 (54s) would run into the count
+    expect(spoken()).toEqual(["m25", "m50", ...[10, 9, 8, 7, 6, 5, 4, 3, 2, 1].map((n) => `end-${n}`)]);
+  });
+
+  it("announces the time left on whole minutes in place of motivation lines", () => {
+    const { engine, events, advance, spoken } = setup();
+    engine.start({ totalSeconds: 300, timeAnnouncements: { mode: "remaining", everyMinutes: 1 } });
+    for (let i = 0; i < 300; i++) advance(1);
+    const said = events.flatMap((e) => (e.type === "cue" && e.cue.kind === "time" ? [e.text] : []));
+    expect(said).toEqual(["Four minutes left.", "Three minutes left.", "Two minutes left.", "One minute left."]);
+    expect(spoken()).not.toContain("t60");
+    expect(spoken()).toContain("t30");
+  });
+
+  it("lists exactly the lines the session speaks", () => {
+    const plans: SessionPlan[] = [
+      { totalSeconds: 0, cadence: { reps: 3, holdSeconds: 5, releaseSeconds: 3, sets: 2, setRestSeconds: 20 } },
+      { totalSeconds: 0, intervals: { rounds: 1, workSeconds: 120, restSeconds: 15 } },
+      { totalSeconds: 300, endCountdown: true, timeAnnouncements: { mode: "elapsed", everyMinutes: 1 }, activity: "physio" },
+    ];
+    for (const plan of plans) {
+      const { engine, events, advance } = setup();
+      engine.start(plan);
+      const total = engine.getSnapshot().totalSeconds;
+      for (let i = 0; i < total; i++) advance(1);
+      const said = events.flatMap((e) => {
+        if (e.type === "cue") return [e.text];
+        if (e.type === "milestone") return [e.milestone.text];
+        return [];
+      });
+      const lines = buildSessionLines(plan);
+      expect(lines[0].key).toBe("start");
+      expect(lines.at(-1)?.key).toBe("end");
+      expect(new Set(lines.slice(1, -1).map((l) => l.text))).toEqual(new Set(said));
+    }
+    // Reps and single-round intervals have no percentage milestones
+    expect(buildSessionLines(plans[0]).some((l) => l.key.startsWith("m"))).toBe(false);
+    expect(buildSessionLines(plans[1]).some((l) => l.key.startsWith("m"))).toBe(false);
+    expect(buildSessionLines(plans[0], { phaseCues: false }).map((l) => l.text)).not.toContain(PHASE_LINES.hold);
+  });
+
+  it("restores a saved session paused at its position without repeating cues", () => {
+    const first = setup();
+    first.engine.start({ totalSeconds: 600 });
+    for (let i = 0; i < 95; i++) first.advance(1);
+    const saved = first.engine.getSnapshot();
+    expect(saved.spokenCues).toEqual(["t30", "t60", "t90"]);
+
+    const { engine, advance, states, spoken } = setup();
+    engine.restore({ totalSeconds: 600 }, { elapsed: saved.elapsed, spokenCues: saved.spokenCues });
+    expect(states()).toEqual(["paused"]);
+    expect(engine.getSnapshot()).toMatchObject({ elapsed: 95, secondsLeft: 505 });
+
+    advance(60); // time away does not count
+    engine.resume();
+    for (let i = 0; i < 30; i++) advance(1);
+    expect(engine.getSnapshot().elapsed).toBe(125);
+    expect(spoken()).toEqual(["t120"]);
+    expect(engine.getSnapshot().spokenCues).toEqual(["t30", "t60", "t90", "t120"]);
+  });
+});
@@ -0,0 +1,419 @@
+// Headless session engine: prep countdown, running timer, pause/resume,
+// finish and abandon, plus the cue schedule — with no React or DOM
+// dependencies. The UI drives it with tick() and reacts to the events it emits.
+
+import {
+  buildCueSchedule,
+  elapsedSeconds,
+  pauseClock,
+  resolveDueCues,
+  resumeClock,
+  startClock,
+  type SessionClock,
+  type TimedCue,
+} from "./sessionClock";
+import {
+  MOTIVATION_BANK,
+  buildCongratsLine,
+  buildMotivationLine,
+  buildStartLine,
+  computeMilestones,
+  type Milestone,
+  type PrefetchLine,
+} from "./ttsUtils";
+import {
+  buildTransitionCues,
+  computeSegmentMilestones,
+  isRoutineQuietAt,
+  mergeMilestones,
+  routineTotalSeconds,
+  segmentAt,
+  type RoutineSegment,
+} from "./routine";
+import {
+  buildCadenceCues,
+  cadenceMotivationTimes,
+  cadenceTotalSeconds,
+  normalizeCadence,
+  type CadenceConfig,
+} from "./cadence";
+import { buildEndCountdownCues, buildPrepCues, isEndCountdownQuietAt } from "./countdown";
+import { coachingCueTimes, isQuietAt, normalizeCoaching, type CoachingCadence } from "./coaching";
+import {
+  buildIntervalCues,
+  intervalTotalSeconds,
+  isIntervalQuietAt,
+  normalizeIntervals,
+  type IntervalConfig,
+} from "./intervals";
+import {
+  buildTimeAnnouncementCues,
+  mergeTimeAnnouncements,
+  normalizeTimeAnnouncements,
+  type TimeAnnouncementSettings,
+} from "./timeAnnouncements";
+
+export type SessionState = "idle" | "prep" | "running" | "paused" | "finished" | "abandoned";
+
+// A plan with segments runs as a routine, a plan with a cadence as sets of
+// rep-and-hold cues and a plan with intervals as rounds of work and rest; in
+// those cases the length comes from the plan's structure and totalSeconds is
+// ignored.
+export type SessionPlan = {
+  totalSeconds: number;
+  segments?: RoutineSegment[];
+  cadence?: CadenceConfig;
+  intervals?: IntervalConfig;
+  // Motivation line interval, jitter and quiet windows (default: every 30s)
+  coaching?: CoachingCadence;
+  prepSeconds?: number;
+  // Count "Ten" ... "One" over the last seconds of the session
+  endCountdown?: boolean;
+  // "Five minutes left." / "Five minutes done." every few minutes
+  timeAnnouncements?: TimeAnnouncementSettings;
+  milestones?: Milestone[];
+  motivationBank?: string[];
+  activity?: string;
+};
+
+export type SessionSnapshot = {
+  state: SessionState;
+  totalSeconds: number;
+  elapsed: number;
+  secondsLeft: number;
+  prepSecondsLeft: number;
+  segmentIndex: number;
+  // Keys of the cues spoken so far, in order
+  spokenCues: string[];
+};
+
+// Where a restored session picks up: elapsed seconds and the cues already spoken
+export type SessionRestorePoint = { elapsed: number; spokenCues?: string[] };
+
+export type SessionEvent =
+  | { type: "state"; state: SessionState; prev: SessionState }
+  | { type: "prepTick"; secondsLeft: number }
+  | { type: "started" }
+  | { type: "tick"; elapsed: number; secondsLeft: number }
+  | { type: "cue"; cue: TimedCue; text: string }
+  | { type: "milestone"; milestone: Milestone }
+  | { type: "finished"; totalSeconds: number }
+  | { type: "abandoned"; elapsed: number; totalSeconds: number; completionPct: number };
+
+export type SessionListener = (event: SessionEvent) => void;
+
+export type SessionEngine = {
+  getSnapshot(): SessionSnapshot;
+  subscribe(listener: SessionListener): () => void;
+  start(plan: SessionPlan): void;
+  restore(plan: SessionPlan, point: SessionRestorePoint): void;
+  tick(): void;
+  pause(): void;
+  resume(): void;
+  abandon(): void;
+  reset(): void;
+};
+
+type Timeline = { totalSeconds: number; milestones: Milestone[]; schedule: TimedCue[] };
+
+// Milestones, time announcements and motivation lines that would run into the
+// end countdown are left out; anything else on a counted second loses to the count.
+function withEndCountdown(timeline: Timeline): Timeline {
+  const { totalSeconds, schedule } = timeline;
+  const count = buildEndCountdownCues(totalSeconds);
+  if (!count.length) return timeline;
+  const droppable = (c: TimedCue) => c.kind === "milestone" || c.kind === "time" || c.kind === "motivation";
+  const keep = schedule.filter((c) => !droppable(c) || !isEndCountdownQuietAt(totalSeconds, c.elapsed));
+  return { ...timeline, schedule: [...keep, ...count].sort((a, b) => a.elapsed - b.elapsed) };
+}
+
+// Announcements keep out of the coaching quiet windows, like motivation lines
+function withTimeAnnouncements(timeline: Timeline, plan: SessionPlan): Timeline {
+  const settings = plan.timeAnnouncements && normalizeTimeAnnouncements(plan.timeAnnouncements);
+  if (!settings || settings.mode === "off") return timeline;
+  const coaching = plan.coaching ? normalizeCoaching(plan.coaching) : undefined;
+  const cues = buildTimeAnnouncementCues(timeline.totalSeconds, settings).filter(
+    (c) => !coaching || !isQuietAt(coaching, c.elapsed),
+  );
+  return { ...timeline, schedule: mergeTimeAnnouncements(timeline.schedule, cues) };
+}
+
+function buildTimeline(plan: SessionPlan): Timeline {
+  const coaching = plan.coaching ? normalizeCoaching(plan.coaching) : undefined;
+
+  if (plan.cadence) {
+    // Percentage milestones would talk over holds; sets are announced instead
+    const cadence = normalizeCadence(plan.cadence);
+    const totalSeconds = cadenceTotalSeconds(cadence);
+    const schedule = buildCueSchedule(totalSeconds, [], {
+      extra: buildCadenceCues(cadence),
+      motivationAt: cadenceMotivationTimes(cadence, coaching?.intervalSeconds),
+      isQuiet: coaching ? (at) => isQuietAt(coaching, at) : undefined,
+    });
+    return { totalSeconds, milestones: [], schedule };
+  }
+
+  if (plan.intervals) {
+    // Round announcements take the place of percentage milestones
+    const intervals = normalizeIntervals(plan.intervals);
+    const totalSeconds = intervalTotalSeconds(intervals);
+    const schedule = buildCueSchedule(totalSeconds, [], {
+      extra: buildIntervalCues(intervals),
+      isQuiet: (at) => isIntervalQuietAt(intervals, at),
+      motivationAt: coachingCueTimes(totalSeconds, coaching),
+    });
+    return { totalSeconds, milestones: [], schedule };
+  }
+
+  const segments = plan.segments ?? [];
+  const totalSeconds = Math.max(1, Math.trunc(segments.length ? routineTotalSeconds(segments) : plan.totalSeconds));
+  const milestones = plan.milestones ?? computeMilestones(totalSeconds);
+  const motivationAt = coachingCueTimes(totalSeconds, coaching);
+  if (segments.length > 1) {
+    // Routine: transitions between segments, milestones per routine and per segment
+    const transitions = buildTransitionCues(segments);
+    const merged = mergeMilestones(milestones, computeSegmentMilestones(segments), transitions);
+    const schedule = buildCueSchedule(totalSeconds, merged, {
+      extra: transitions,
+      isQuiet: (at) => isRoutineQuietAt(segments, at),
+      motivationAt,
+    });
+    return { totalSeconds, milestones: merged, schedule };
+  }
+  return { totalSeconds, milestones, schedule: buildCueSchedule(totalSeconds, milestones, { motivationAt }) };
+}
+
+// The timeline a session with this plan runs on, time announcements and the
+// end countdown included
+function sessionTimeline(plan: SessionPlan): Timeline {
+  const timeline = withTimeAnnouncements(buildTimeline(plan), plan);
+  return plan.endCountdown ? withEndCountdown(timeline) : timeline;
+}
+
+// Every line the running session can speak, from the schedule the engine
+// itself will use: start line, cues in order, end line; one per text. The
+// prep countdown is not included. phaseCues: false leaves out the rep phase
+// cues, for sessions that beep them.
+export function buildSessionLines(plan: SessionPlan, options: { phaseCues?: boolean } = {}): PrefetchLine[] {
+  const { milestones, schedule } = sessionTimeline(plan);
+  const bank = plan.motivationBank?.length ? plan.motivationBank : MOTIVATION_BANK;
+  const lines: PrefetchLine[] = [{ key: "start", text: buildStartLine() }];
+  for (const cue of schedule) {
+    if (cue.kind === "phase" && options.phaseCues === false) continue;
+    if (cue.kind === "milestone") {
+      const milestone = milestones.find((m) => m.key === cue.key);
+      if (milestone) lines.push({ key: cue.key, text: milestone.text });
+    } else if (cue.kind === "motivation") {
+      lines.push({ key: cue.key, text: buildMotivationLine(bank[(cue.slot ?? 0) % bank.length], plan.activity ?? "") });
+    } else {
+      lines.push({ key: cue.key, text: cue.text ?? "", raw: cue.raw, parts: cue.parts });
+    }
+  }
+  lines.push({ key: "end", text: buildCongratsLine() });
+  const seen = new Set<string>();
+  return lines.filter((line) => !seen.has(line.text) && seen.add(line.text));
+}
+
+export function createSessionEngine(options: { now?: () => number } = {}): SessionEngine {
+  const now = options.now ?? (() => Date.now());
+  const listeners = new Set<SessionListener>();
+
+  let state: SessionState = "idle";
+  let totalSeconds = 0;
+  let prepSeconds = 0;
+  let milestones: Milestone[] = [];
+  let bank: string[] = MOTIVATION_BANK;
+  let activity = "";
+  let segments: RoutineSegment[] = [];
+  let schedule: TimedCue[] = [];
+  // Guidance and "3, 2, 1" on the prep timeline (seconds since prep began)
+  let prepSchedule: TimedCue[] = [];
+  let lastPrepElapsed = -1;
+
+  let prepStartedAt = 0;
+  let prepSecondsLeft = 0;
+  let clock: SessionClock | null = null;
+  let elapsed = 0;
+  let lastCueElapsed = 0;
+  let spoken: string[] = [];
+
+  function emit(event: SessionEvent) {
+    for (const listener of Array.from(listeners)) listener(event);
+  }
+
+  function setState(next: SessionState) {
+    const prev = state;
+    if (prev === next) return;
+    state = next;
+    emit({ type: "state", state: next, prev });
+  }
+
+  function beginRunning(at: number) {
+    clock = startClock(at);
+    elapsed = 0;
+    lastCueElapsed = 0;
+    spoken = [];
+    prepSecondsLeft = 0;
+    setState("running");
+    emit({ type: "started" });
+  }
+
+  function speakPrepCues(prepElapsed: number) {
+    if (prepElapsed <= lastPrepElapsed) return;
+    const { speak } = resolveDueCues(prepSchedule, lastPrepElapsed, prepElapsed);
+    lastPrepElapsed = prepElapsed;
+    if (speak) emit({ type: "cue", cue: speak, text: speak.text ?? "" });
+  }
+
+  function tickPrep(at: number) {
+    const left = prepSeconds - Math.floor(Math.max(0, at - prepStartedAt) / 1000);
+    if (left > 0) {
+      if (left !== prepSecondsLeft) {
+        prepSecondsLeft = left;
+        emit({ type: "prepTick", secondsLeft: left });
+        speakPrepCues(prepSeconds - left);
+      }
+      return;
+    }
+    // Start exactly when the prep ended, even if this tick arrived late
+    beginRunning(prepStartedAt + prepSeconds * 1000);
+  }
+
+  function tickRunning(at: number) {
+    if (!clock) return;
+    const next = Math.min(totalSeconds, elapsedSeconds(clock, at));
+    if (next !== elapsed) {
+      elapsed = next;
+      emit({ type: "tick", elapsed, secondsLeft: totalSeconds - elapsed });
+    }
+
+    if (elapsed >= totalSeconds) {
+      clock = null;
+      setState("finished");
+      emit({ type: "finished", totalSeconds });
+      return;
+    }
+
+    const from = lastCueElapsed;
+    if (elapsed <= from) return;
+    lastCueElapsed = elapsed;
+
+    const pending = spoken.length ? schedule.filter((c) => !spoken.includes(c.key)) : schedule;
+    const { speak } = resolveDueCues(pending, from, elapsed);
+    if (!speak) return;
+    spoken.push(speak.key);
+    if (speak.kind === "milestone") {
+      const milestone = milestones.find((m) => m.key === speak.key);
+      if (milestone) emit({ type: "milestone", milestone });
+      return;
+    }
+    if (speak.kind !== "motivation") {
+      emit({ type: "cue", cue: speak, text: speak.text ?? "" });
+      return;
+    }
+    const base = bank[(speak.slot ?? 0) % bank.length];
+    emit({ type: "cue", cue: speak, text: buildMotivationLine(base, activity) });
+  }
+
+  function load(plan: SessionPlan) {
+    segments = plan.cadence || plan.intervals ? [] : plan.segments ?? [];
+    ({ totalSeconds, milestones, schedule } = sessionTimeline(plan));
+    prepSeconds = Math.max(0, Math.trunc(plan.prepSeconds ?? 0));
+    prepSchedule = buildPrepCues(prepSeconds);
+    lastPrepElapsed = -1;
+    bank = plan.motivationBank?.length ? plan.motivationBank : MOTIVATION_BANK;
+    activity = plan.activity ?? "";
+    elapsed = 0;
+  }
+
+  return {
+    getSnapshot() {
+      return {
+        state,
+        totalSeconds,
+        elapsed,
+        secondsLeft: totalSeconds - elapsed,
+        prepSecondsLeft,
+        segmentIndex: segmentAt(segments, elapsed)?.index ?? 0,
+        spokenCues: spoken.slice(),
+      };
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    start(plan) {
+      if (state !== "idle") return;
+      load(plan);
+
+      const at = now();
+      if (prepSeconds === 0) {
+        beginRunning(at);
+        return;
+      }
+      prepStartedAt = at;
+      prepSecondsLeft = prepSeconds;
+      setState("prep");
+      emit({ type: "prepTick", secondsLeft: prepSeconds });
+      speakPrepCues(0);
+    },
+
+    // Picks a session back up (e.g. after a page reload) in the paused state
+    // at the saved position; resume() continues it. Cues already spoken are
+    // not repeated.
+    restore(plan, point) {
+      if (state !== "idle") return;
+      load(plan);
+      elapsed = Math.max(0, Math.min(totalSeconds - 1, Math.trunc(point.elapsed)));
+      lastCueElapsed = elapsed;
+      spoken = point.spokenCues?.slice() ?? [];
+      const at = now();
+      clock = pauseClock(startClock(at - elapsed * 1000), at);
+      setState("paused");
+    },
+
+    tick() {
+      const at = now();
+      if (state === "prep") tickPrep(at);
+      if (state === "running") tickRunning(at);
+    },
+
+    pause() {
+      if (state !== "running" || !clock) return;
+      clock = pauseClock(clock, now());
+      setState("paused");
+    },
+
+    resume() {
+      if (state !== "paused" || !clock) return;
+      clock = resumeClock(clock, now());
+      setState("running");
+    },
+
+    abandon() {
+      if (state !== "prep" && state !== "running" && state !== "paused") return;
+      if (clock) elapsed = Math.min(totalSeconds, elapsedSeconds(clock, now()));
+      clock = null;
+      setState("abandoned");
+      emit({
+        type: "abandoned",
+        elapsed,
+        totalSeconds,
+        completionPct: Math.round((elapsed / totalSeconds) * 100),
+      });
+    },
+
+    reset() {
+      clock = null;
+      elapsed = 0;
+      prepSecondsLeft = 0;
+      lastCueElapsed = 0;
+      spoken = [];
+      setState("idle");
+    },
+  };
+}
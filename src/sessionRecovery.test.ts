@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  SESSION_RECOVERY_KEY,
+  SESSION_RECOVERY_MAX_AGE_MS,
+  SESSION_RECOVERY_VERSION,
+  buildResumePrompt,
+  clearSavedSession,
+  isSavedSessionStale,
+  loadSavedSession,
+  parseSavedSession,
+  persistSavedSession,
+  savedSessionCompletionPct,
+  type SavedSession,
+} from "./sessionRecovery";
+
+function memoryStorage() {
+  const data = new Map<string, string>();
+  return {
+    getItem: (k: string) => data.get(k) ?? null,
+    setItem: (k: string, v: string) => void data.set(k, v),
+    removeItem: (k: string) => void data.delete(k),
+  };
+}
+
+const saved: SavedSession = {
+  version: SESSION_RECOVERY_VERSION,
+  sessionId: "abc",
+  startedAt: 1_000,
+  savedAt: 373_000,
+  elapsed: 372,
+  totalSeconds: 600,
+  paused: false,
+  spokenCues: ["t30", "m25"],
+  plan: { totalSeconds: 600, motivationBank: ["B", "A"], activity: "physio" },
+  timerMode: "single",
+  phaseCueStyle: "voice",
+};
+
+describe("sessionRecovery", () => {
+  it("round-trips a saved session through storage", () => {
+    const storage = memoryStorage();
+    persistSavedSession(storage, saved);
+    expect(loadSavedSession(storage)).toEqual(saved);
+    clearSavedSession(storage);
+    expect(storage.getItem(SESSION_RECOVERY_KEY)).toBeNull();
+    expect(loadSavedSession(storage)).toBeNull();
+  });
+
+  it("rejects unreadable, other-version and finished sessions", () => {
+    expect(parseSavedSession("nope")).toBeNull();
+    expect(parseSavedSession(JSON.stringify({ ...saved, version: SESSION_RECOVERY_VERSION + 1 }))).toBeNull();
+    expect(parseSavedSession(JSON.stringify({ ...saved, sessionId: "" }))).toBeNull();
+    expect(parseSavedSession(JSON.stringify({ ...saved, elapsed: 600 }))).toBeNull();
+  });
+
+  it("validates the plan field by field and drops the session when it's malformed", () => {
+    const plan = {
+      totalSeconds: 600,
+      segments: [{ id: "s1", kind: "exercise", name: "Squats", seconds: 120 }],
+      cadence: { reps: 10, holdSeconds: 5, releaseSeconds: 3, sets: 2, setRestSeconds: 30 },
+      coaching: { intervalSeconds: 30, jitterSeconds: 5, quietWindows: [{ from: 0, to: 60 }], seed: 7 },
+      endCountdown: true,
+      milestones: [{ key: "m50", elapsed: 300, text: "Halfway there." }],
+    };
+    const parsed = parseSavedSession(JSON.stringify({ ...saved, plan }));
+    expect(parsed?.plan).toEqual(plan);
+
+    const broken = [
+      { totalSeconds: "600" },
+      { ...plan, segments: [{ id: "s1", kind: "jog", name: "Run", seconds: 60 }] },
+      { ...plan, cadence: { reps: 10 } },
+      { ...plan, coaching: { intervalSeconds: 30, jitterSeconds: 0, quietWindows: "never" } },
+      { ...plan, endCountdown: "yes" },
+      { ...plan, milestones: [{ key: "m50", text: "Halfway there." }] },
+      { ...plan, motivationBank: ["A", 2] },
+    ];
+    for (const bad of broken) expect(parseSavedSession(JSON.stringify({ ...saved, plan: bad }))).toBeNull();
+  });
+
+  it("fills in missing optional fields", () => {
+    const raw = JSON.parse(JSON.stringify(saved));
+    delete raw.spokenCues;
+    delete raw.timerMode;
+    const parsed = parseSavedSession(JSON.stringify({ ...raw, paused: "yes" }));
+    expect(parsed).toMatchObject({ spokenCues: [], timerMode: "single", paused: false });
+  });
+
+  it("expires old sessions", () => {
+    expect(isSavedSessionStale(saved, saved.savedAt + 60_000)).toBe(false);
+    expect(isSavedSessionStale(saved, saved.savedAt + SESSION_RECOVERY_MAX_AGE_MS + 1)).toBe(true);
+  });
+
+  it("describes the session to resume", () => {
+    expect(buildResumePrompt(saved)).toBe("Resume your 10-minute session at 06:12?");
+    expect(savedSessionCompletionPct(saved)).toBe(62);
+  });
+});
@@ -0,0 +1,194 @@
+// Persists the session in progress so it survives a reload, a crash or iOS
+// evicting the page, and offers to pick it back up on the next launch.
+
+import { normalizeCadence, type PhaseCueStyle } from "./cadence";
+import { normalizeCoaching } from "./coaching";
+import { normalizeIntervals } from "./intervals";
+import { TIMER_MODES, type TimerMode } from "./presets";
+import { normalizeSegment, type RoutineSegment } from "./routine";
+import type { SessionPlan } from "./sessionEngine";
+import { normalizeTimeAnnouncements } from "./timeAnnouncements";
+import { formatMMSS, type Milestone } from "./ttsUtils";
+
+export type SavedSession = {
+  version: number;
+  sessionId: string;
+  startedAt: number; // wall clock when the session began
+  savedAt: number;
+  elapsed: number;
+  totalSeconds: number;
+  paused: boolean;
+  spokenCues: string[];
+  // Includes the shuffled motivation bank, so lines keep their order
+  plan: SessionPlan;
+  timerMode: TimerMode;
+  phaseCueStyle: PhaseCueStyle;
+};
+
+export const SESSION_RECOVERY_KEY = "knee-timer-active-session";
+export const SESSION_RECOVERY_VERSION = 1;
+
+// Older sessions are not offered for resume; they count as abandoned
+export const SESSION_RECOVERY_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+
+export function serializeSavedSession(session: SavedSession) {
+  return JSON.stringify(session);
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === "string");
+}
+
+// The record's numeric fields, or null when one is missing or not a number
+function numbers<K extends string>(v: unknown, keys: readonly K[]): Record<K, number> | null {
+  if (!isRecord(v) || !keys.every((k) => isNumber(v[k]))) return null;
+  return Object.fromEntries(keys.map((k) => [k, v[k]])) as Record<K, number>;
+}
+
+function parseSegment(v: unknown): RoutineSegment | null {
+  if (!isRecord(v) || typeof v.id !== "string" || typeof v.name !== "string" || !isNumber(v.seconds)) return null;
+  if (v.kind !== "exercise" && v.kind !== "rest") return null;
+  return normalizeSegment({ id: v.id, kind: v.kind, name: v.name, seconds: v.seconds });
+}
+
+function parseMilestone(v: unknown): Milestone | null {
+  if (!isRecord(v) || typeof v.key !== "string" || !isNumber(v.elapsed) || typeof v.text !== "string") return null;
+  return { key: v.key, elapsed: v.elapsed, text: v.text };
+}
+
+// Field-by-field, like presets.ts, but nothing falls back to a default: a
+// plan that doesn't read back as saved would resume a different session, so
+// any malformed field rejects the whole plan. Absent optional fields stay absent.
+function parsePlan(v: unknown): SessionPlan | null {
+  if (!isRecord(v) || !isNumber(v.totalSeconds) || v.totalSeconds <= 0) return null;
+  const plan: SessionPlan = { totalSeconds: v.totalSeconds };
+
+  if (v.segments !== undefined) {
+    const segments = Array.isArray(v.segments) ? v.segments.map(parseSegment) : [];
+    if (!segments.length || segments.some((s) => !s)) return null;
+    plan.segments = segments as RoutineSegment[];
+  }
+  if (v.cadence !== undefined) {
+    const cadence = numbers(v.cadence, ["reps", "holdSeconds", "releaseSeconds", "sets", "setRestSeconds"] as const);
+    if (!cadence) return null;
+    plan.cadence = normalizeCadence(cadence);
+  }
+  if (v.intervals !== undefined) {
+    const intervals = numbers(v.intervals, ["rounds", "workSeconds", "restSeconds"] as const);
+    if (!intervals) return null;
+    plan.intervals = normalizeIntervals(intervals);
+  }
+  if (v.coaching !== undefined) {
+    const coaching = numbers(v.coaching, ["intervalSeconds", "jitterSeconds"] as const);
+    if (!coaching || !isRecord(v.coaching)) return null;
+    const { quietWindows = [], seed } = v.coaching;
+    const windows = Array.isArray(quietWindows) ? quietWindows.map((w) => numbers(w, ["from", "to"] as const)) : [null];
+    if (windows.some((w) => !w) || (seed !== undefined && !isNumber(seed))) return null;
+    plan.coaching = normalizeCoaching({ ...coaching, quietWindows: windows as { from: number; to: number }[], seed });
+  }
+  if (v.prepSeconds !== undefined) {
+    if (!isNumber(v.prepSeconds) || v.prepSeconds < 0) return null;
+    plan.prepSeconds = v.prepSeconds;
+  }
+  if (v.endCountdown !== undefined) {
+    if (typeof v.endCountdown !== "boolean") return null;
+    plan.endCountdown = v.endCountdown;
+  }
+  if (v.timeAnnouncements !== undefined) {
+    if (!isRecord(v.timeAnnouncements)) return null;
+    plan.timeAnnouncements = normalizeTimeAnnouncements(v.timeAnnouncements);
+  }
+  if (v.milestones !== undefined) {
+    const milestones = Array.isArray(v.milestones) ? v.milestones.map(parseMilestone) : [null];
+    if (milestones.some((m) => !m)) return null;
+    plan.milestones = milestones as Milestone[];
+  }
+  if (v.motivationBank !== undefined) {
+    if (!isStringList(v.motivationBank)) return null;
+    plan.motivationBank = v.motivationBank;
+  }
+  if (v.activity !== undefined) {
+    if (typeof v.activity !== "string") return null;
+    plan.activity = v.activity;
+  }
+  return plan;
+}
+
+// Returns null for anything unreadable, from another schema version, with a
+// malformed plan or already over.
+export function parseSavedSession(raw: string | null): SavedSession | null {
+  if (!raw) return null;
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(data) || data.version !== SESSION_RECOVERY_VERSION) return null;
+  const { sessionId, startedAt, savedAt, elapsed, totalSeconds } = data;
+  if (typeof sessionId !== "string" || !sessionId) return null;
+  if (typeof startedAt !== "number" || typeof savedAt !== "number") return null;
+  if (typeof elapsed !== "number" || typeof totalSeconds !== "number") return null;
+  if (elapsed < 0 || elapsed >= totalSeconds) return null;
+  const plan = parsePlan(data.plan);
+  if (!plan) return null;
+  return {
+    version: SESSION_RECOVERY_VERSION,
+    sessionId,
+    startedAt,
+    savedAt,
+    elapsed: Math.trunc(elapsed),
+    totalSeconds: Math.trunc(totalSeconds),
+    paused: data.paused === true,
+    spokenCues: Array.isArray(data.spokenCues) ? data.spokenCues.filter((k): k is string => typeof k === "string") : [],
+    plan,
+    timerMode: TIMER_MODES.find((m) => m === data.timerMode) ?? "single",
+    phaseCueStyle: data.phaseCueStyle === "tone" ? "tone" : "voice",
+  };
+}
+
+export function isSavedSessionStale(session: SavedSession, now: number) {
+  return now - session.savedAt > SESSION_RECOVERY_MAX_AGE_MS;
+}
+
+export function savedSessionCompletionPct(session: SavedSession) {
+  return Math.round((session.elapsed / session.totalSeconds) * 100);
+}
+
+// "Resume your 10-minute session at 06:12?"
+export function buildResumePrompt(session: SavedSession) {
+  const minutes = Math.max(1, Math.round(session.totalSeconds / 60));
+  return `Resume your ${minutes}-minute session at ${formatMMSS(session.elapsed)}?`;
+}
+
+export function loadSavedSession(storage: Pick<Storage, "getItem">) {
+  try {
+    return parseSavedSession(storage.getItem(SESSION_RECOVERY_KEY));
+  } catch {
+    return null;
+  }
+}
+
+export function persistSavedSession(storage: Pick<Storage, "setItem">, session: SavedSession) {
+  try {
+    storage.setItem(SESSION_RECOVERY_KEY, serializeSavedSession(session));
+  } catch {
+    // Storage full or unavailable — the session just won't survive a reload
+  }
+}
+
+export function clearSavedSession(storage: Pick<Storage, "removeItem">) {
+  try {
+    storage.removeItem(SESSION_RECOVERY_KEY);
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  SPEECH_FAILURE_LIMIT,
+  budgetExhaustedUntil,
+  describeSpeechTier,
+  deviceSpeechRate,
+  nextSpeechTier,
+  pickLocalVoice,
+  selectableLocalVoices,
+  type LocalVoice,
+} from "./speechFallback";
+
+const voice = (name: string, lang: string, localService: boolean, isDefault = false): LocalVoice => ({
+  voiceURI: `uri:${name}`,
+  name,
+  lang,
+  localService,
+  default: isDefault,
+});
+
+const VOICES = [
+  voice("Google UK English", "en-GB", false, true),
+  voice("Thomas", "fr-FR", true),
+  voice("Samantha", "en-US", true),
+  voice("Daniel", "en-GB", true),
+];
+
+describe("speechFallback", () => {
+  it("steps down from cloud to device to muted after repeated failures", () => {
+    expect(nextSpeechTier("cloud", SPEECH_FAILURE_LIMIT - 1, true)).toBe("cloud");
+    expect(nextSpeechTier("cloud", SPEECH_FAILURE_LIMIT, true)).toBe("device");
+    expect(nextSpeechTier("cloud", SPEECH_FAILURE_LIMIT, false)).toBe("muted");
+    expect(nextSpeechTier("device", SPEECH_FAILURE_LIMIT, true)).toBe("muted");
+  });
+
+  it("prefers the user's voice, then an on-device English one", () => {
+    expect(pickLocalVoice(VOICES, "uri:Daniel")?.name).toBe("Daniel");
+    expect(pickLocalVoice(VOICES, "uri:gone")?.name).toBe("Samantha");
+    expect(pickLocalVoice([voice("Thomas", "fr-FR", true)], "")?.name).toBe("Thomas");
+    expect(pickLocalVoice([], "")).toBeNull();
+  });
+
+  it("offers on-device English voices in the picker", () => {
+    expect(selectableLocalVoices(VOICES).map((v) => v.name)).toEqual(["Daniel", "Samantha"]);
+    expect(selectableLocalVoices([voice("Thomas", "fr-FR", true)])).toHaveLength(1);
+  });
+
+  it("keeps the device rate in range", () => {
+    expect(deviceSpeechRate(1.1)).toBe(1.1);
+    expect(deviceSpeechRate(0.25)).toBe(0.5);
+  });
+
+  it("describes the active tier for the banner", () => {
+    expect(describeSpeechTier("cloud")).toBeNull();
+    expect(describeSpeechTier("device", "Samantha")?.title).toBe("Using your device's voice (Samantha).");
+    expect(describeSpeechTier("muted")?.title).toBe("Voice coaching is temporarily unavailable.");
+  });
+
+  it("recognizes an exhausted TTS budget and when it resets", () => {
+    const now = Date.parse("2026-10-19T15:00:00Z");
+    const body = JSON.stringify({ code: "budget_exhausted", resetsAt: "2026-10-20T00:00:00.000Z" });
+    expect(budgetExhaustedUntil(503, body, now)).toBe(Date.parse("2026-10-20T00:00:00Z"));
+    expect(budgetExhaustedUntil(503, JSON.stringify({ code: "budget_exhausted" }), now)).toBe(now + 60 * 60 * 1000);
+    expect(budgetExhaustedUntil(503, '{"error":"OPENAI_API_KEY is not set"}', now)).toBeNull();
+    expect(budgetExhaustedUntil(502, body, now)).toBeNull();
+    expect(budgetExhaustedUntil(503, "Service Unavailable", now)).toBeNull();
+  });
+});
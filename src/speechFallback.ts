@@ -0,0 +1,74 @@
+// Speech tiers: cloud voice (static clips, then /api/tts), the browser's own
+// speechSynthesis voice when the cloud keeps failing, and muted as a last resort.
+
+export type SpeechTier = "cloud" | "device" | "muted";
+
+// The fields we use from SpeechSynthesisVoice (plain objects in tests)
+export type LocalVoice = Pick<SpeechSynthesisVoice, "voiceURI" | "name" | "lang" | "localService" | "default">;
+
+// Consecutive failures before a tier is given up for the rest of the session
+export const SPEECH_FAILURE_LIMIT = 3;
+
+export function nextSpeechTier(tier: SpeechTier, failures: number, deviceAvailable: boolean): SpeechTier {
+  if (failures < SPEECH_FAILURE_LIMIT) return tier;
+  if (tier === "cloud" && deviceAvailable) return "device";
+  return "muted";
+}
+
+function isEnglish(v: LocalVoice) {
+  return v.lang.toLowerCase().startsWith("en");
+}
+
+// The user's pick if the device still has it; otherwise an on-device English
+// voice (the system default first), since network voices fail the same way
+// the cloud did. Null when there is no voice at all.
+export function pickLocalVoice<V extends LocalVoice>(voices: V[], preferredURI: string): V | null {
+  const preferred = voices.find((v) => v.voiceURI === preferredURI);
+  if (preferred) return preferred;
+  const rank = (v: LocalVoice) => (v.localService ? 4 : 0) + (isEnglish(v) ? 2 : 0) + (v.default ? 1 : 0);
+  return voices.reduce<V | null>((best, v) => (!best || rank(v) > rank(best) ? v : best), null);
+}
+
+// Voices offered in the fallback picker: on-device English voices, or every
+// voice when the device has none of those
+export function selectableLocalVoices<V extends LocalVoice>(voices: V[]) {
+  const local = voices.filter((v) => v.localService && isEnglish(v));
+  return (local.length ? local : voices).slice().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// speechSynthesis rates mirror the app's speed setting
+export function deviceSpeechRate(speed: number) {
+  return Math.max(0.5, Math.min(2, speed));
+}
+
+export function describeSpeechTier(tier: SpeechTier, voiceName?: string) {
+  if (tier === "device") {
+    return {
+      title: voiceName ? `Using your device's voice (${voiceName}).` : "Using your device's voice.",
+      detail: "The coaching voice can't be reached, so your device is reading the lines instead.",
+    };
+  }
+  if (tier === "muted") {
+    return {
+      title: "Voice coaching is temporarily unavailable.",
+      detail: "The timer will continue without audio. Your session is unaffected.",
+    };
+  }
+  return null;
+}
+
+// /api/tts answers 503 { code: "budget_exhausted", resetsAt } once the day's
+// character budget is spent. Returns when the budget resets (ms), or null for
+// any other failure; the client then skips the API until that time.
+export function budgetExhaustedUntil(status: number, body: string, now: number): number | null {
+  if (status !== 503) return null;
+  try {
+    const data = JSON.parse(body) as { code?: unknown; resetsAt?: unknown };
+    if (data.code !== "budget_exhausted") return null;
+    const resetsAt = typeof data.resetsAt === "string" ? Date.parse(data.resetsAt) : NaN;
+    // Without a usable reset time, try again in an hour
+    return Number.isFinite(resetsAt) && resetsAt > now ? resetsAt : now + 60 * 60 * 1000;
+  } catch {
+    return null;
+  }
+}
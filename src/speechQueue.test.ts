@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { createSpeechQueue, type SpeechItem } from "./speechQueue";
+
+// A speaker whose lines finish only when the test says so
+function manualSpeaker() {
+  const playing: { item: SpeechItem; expired: () => boolean; finish: (spoken?: boolean) => void; fail: () => void }[] = [];
+  const speak = (item: SpeechItem, expired: () => boolean) =>
+    new Promise<boolean>((resolve, reject) => {
+      playing.push({ item, expired, finish: (spoken = true) => resolve(spoken), fail: () => reject(new Error("tts")) });
+    });
+  return { speak, playing };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("speechQueue", () => {
+  it("queues lines instead of cutting off the one playing", async () => {
+    const { speak, playing } = manualSpeaker();
+    const queue = createSpeechQueue(speak, { now: () => 0 });
+    const motivation = queue.enqueue({ text: "Keep going.", kind: "motivation" });
+    const milestone = queue.enqueue({ text: "Halfway there.", kind: "milestone" });
+    expect(playing.map((p) => p.item.text)).toEqual(["Keep going."]);
+    expect(queue.getState().pending.map((i) => i.text)).toEqual(["Halfway there."]);
+
+    playing[0].finish();
+    expect(await motivation).toBe("spoken");
+    expect(playing.map((p) => p.item.text)).toEqual(["Keep going.", "Halfway there."]);
+    playing[1].finish();
+    expect(await milestone).toBe("spoken");
+    expect(queue.getState()).toMatchObject({ current: null, pending: [], spoken: 2 });
+  });
+
+  it("lets higher priority lines jump the queue", async () => {
+    const { speak, playing } = manualSpeaker();
+    const queue = createSpeechQueue(speak, { now: () => 0 });
+    void queue.enqueue({ text: "Transition.", kind: "transition" });
+    void queue.enqueue({ text: "Keep going.", kind: "motivation" });
+    void queue.enqueue({ text: "Halfway there.", kind: "milestone" });
+    void queue.enqueue({ text: "Great work.", kind: "end" });
+    expect(queue.getState().pending.map((i) => i.text)).toEqual(["Great work.", "Halfway there.", "Keep going."]);
+    playing[0].finish();
+    await flush();
+    expect(queue.getState().current?.text).toBe("Great work.");
+  });
+
+  it("drops lines that waited past their deadline", async () => {
+    let t = 0;
+    const { speak, playing } = manualSpeaker();
+    const queue = createSpeechQueue(speak, { now: () => t });
+    void queue.enqueue({ text: "Halfway there.", kind: "milestone" });
+    const late = queue.enqueue({ text: "Keep going.", kind: "motivation" });
+    t = 5_000;
+    playing[0].finish();
+    expect(await late).toBe("dropped");
+    expect(queue.getState()).toMatchObject({ spoken: 1, dropped: 1 });
+  });
+
+  it("lets the speaker skip a line whose audio arrived too late", async () => {
+    let t = 0;
+    const { speak, playing } = manualSpeaker();
+    const queue = createSpeechQueue(speak, { now: () => t });
+    const line = queue.enqueue({ text: "Three.", kind: "count" });
+    t = 2_000;
+    expect(playing[0].expired()).toBe(true);
+    playing[0].finish(false);
+    expect(await line).toBe("dropped");
+  });
+
+  it("moves on after a failed line and settles everything on clear", async () => {
+    const { speak, playing } = manualSpeaker();
+    const queue = createSpeechQueue(speak, { now: () => 0 });
+    const failed = queue.enqueue({ text: "Keep going.", kind: "motivation" });
+    const next = queue.enqueue({ text: "Halfway there.", kind: "milestone" });
+    playing[0].fail();
+    expect(await failed).toBe("failed");
+    expect(queue.getState().current?.text).toBe("Halfway there.");
+
+    const waiting = queue.enqueue({ text: "Stay steady.", kind: "motivation" });
+    queue.clear();
+    expect(await next).toBe("cleared");
+    expect(await waiting).toBe("cleared");
+    // The interrupted line finishing later doesn't restart the queue
+    playing[1].finish();
+    await flush();
+    expect(queue.getState()).toMatchObject({ current: null, pending: [], spoken: 0, failed: 1 });
+  });
+
+  it("tells a line still loading its audio that it was cleared", async () => {
+    const { speak, playing } = manualSpeaker();
+    const queue = createSpeechQueue(speak, { now: () => 0 });
+    const line = queue.enqueue({ text: "Halfway there.", kind: "milestone" });
+    expect(playing[0].expired()).toBe(false);
+    queue.clear();
+    expect(await line).toBe("cleared");
+    expect(playing[0].expired()).toBe(true);
+
+    // Lines queued after the clear aren't affected
+    void queue.enqueue({ text: "Keep going.", kind: "motivation" });
+    await flush();
+    expect(playing[1].expired()).toBe(false);
+  });
+});
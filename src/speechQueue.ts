@@ -0,0 +1,153 @@
+// Speech scheduler: lines wait their turn instead of cutting each other off.
+//
+// A higher priority line jumps ahead of queued lower ones but never interrupts
+// the line that is playing. Every line has a deadline: one still waiting when
+// it passes is dropped, and the speaker gets an expired() check so a line
+// whose audio arrives too late, or after clear(), is dropped instead of played.
+
+import type { CueKind } from "./sessionClock";
+
+export type SpeechKind = CueKind | "start" | "end";
+
+// parts: static clips to stitch the line from instead (see timeAnnouncements.ts)
+export type SpeechRequest = { text: string; kind: SpeechKind; raw?: boolean; parts?: string[] };
+
+export type SpeechItem = SpeechRequest & { id: number; priority: number; enqueuedAt: number; deadline: number };
+
+// cleared: removed by clear() (pause, stop, speech turned off)
+export type SpeechOutcome = "spoken" | "dropped" | "failed" | "cleared";
+
+export type SpeechQueueState = {
+  current: SpeechItem | null;
+  pending: SpeechItem[];
+  spoken: number;
+  dropped: number;
+  failed: number;
+};
+
+// Resolves true once the line was spoken, false when it was skipped because
+// expired() turned true before playback (past its deadline, or cleared);
+// rejects when it could not be spoken.
+export type SpeakItem = (item: SpeechItem, expired: () => boolean) => Promise<boolean>;
+
+export type SpeechQueue = {
+  enqueue(request: SpeechRequest): Promise<SpeechOutcome>;
+  clear(): void;
+  getState(): SpeechQueueState;
+  subscribe(listener: (state: SpeechQueueState) => void): () => void;
+};
+
+// Countdown numbers first (they only make sense on their own second), then
+// the start/end lines, then structure, time announcements, and motivation last
+export const SPEECH_PRIORITY: Record<SpeechKind, number> = {
+  count: 6,
+  start: 5,
+  end: 5,
+  phase: 4,
+  transition: 3,
+  milestone: 3,
+  time: 2,
+  motivation: 0,
+};
+
+// How long after it was queued a line is still worth starting
+export const SPEECH_DEADLINE_SECONDS: Record<SpeechKind, number> = {
+  count: 1,
+  phase: 1.5,
+  start: 10,
+  end: 20,
+  transition: 8,
+  milestone: 8,
+  time: 3,
+  motivation: 4,
+};
+
+export function createSpeechQueue(speak: SpeakItem, options: { now?: () => number } = {}): SpeechQueue {
+  const now = options.now ?? (() => Date.now());
+  const listeners = new Set<(state: SpeechQueueState) => void>();
+  const settlers = new Map<number, (outcome: SpeechOutcome) => void>();
+  let pending: SpeechItem[] = [];
+  let current: SpeechItem | null = null;
+  let nextId = 1;
+  // Bumped by clear() so a line that was playing can't settle twice, and a
+  // line still loading its audio knows not to play it
+  let generation = 0;
+  const counts = { spoken: 0, dropped: 0, failed: 0 };
+
+  function getState(): SpeechQueueState {
+    return { current, pending: pending.slice(), ...counts };
+  }
+
+  function emit() {
+    const state = getState();
+    for (const listener of listeners) listener(state);
+  }
+
+  function settle(item: SpeechItem, outcome: SpeechOutcome) {
+    if (outcome !== "cleared") counts[outcome] += 1;
+    settlers.get(item.id)?.(outcome);
+    settlers.delete(item.id);
+  }
+
+  function pump() {
+    if (current) return;
+    const t = now();
+    for (const item of pending) if (t > item.deadline) settle(item, "dropped");
+    pending = pending.filter((item) => t <= item.deadline);
+    const item = pending.shift();
+    if (!item) {
+      emit();
+      return;
+    }
+    current = item;
+    const gen = generation;
+    speak(item, () => gen !== generation || now() > item.deadline)
+      .then(
+        (spoken): SpeechOutcome => (spoken ? "spoken" : "dropped"),
+        (): SpeechOutcome => "failed",
+      )
+      .then((outcome) => {
+        if (gen !== generation) return;
+        current = null;
+        settle(item, outcome);
+        pump();
+      });
+    emit();
+  }
+
+  return {
+    enqueue(request) {
+      const t = now();
+      const priority = SPEECH_PRIORITY[request.kind];
+      const item: SpeechItem = {
+        ...request,
+        id: nextId++,
+        priority,
+        enqueuedAt: t,
+        deadline: t + SPEECH_DEADLINE_SECONDS[request.kind] * 1000,
+      };
+      const outcome = new Promise<SpeechOutcome>((resolve) => settlers.set(item.id, resolve));
+      // Behind every line of the same or higher priority
+      const at = pending.findIndex((p) => p.priority < priority);
+      pending.splice(at === -1 ? pending.length : at, 0, item);
+      pump();
+      return outcome;
+    },
+
+    clear() {
+      generation += 1;
+      const cleared = current ? [current, ...pending] : pending;
+      current = null;
+      pending = [];
+      for (const item of cleared) settle(item, "cleared");
+      emit();
+    },
+
+    getState,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
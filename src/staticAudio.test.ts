@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { ttsCacheKey } from "./audioCache";
+import {
+  coverageLines,
+  createStaticAudioIndex,
+  describeCoverage,
+  describeSpeedChange,
+  parseStaticAudioSets,
+  parseStaticManifest,
+  staticClipUrl,
+  stretchSourceSpeeds,
+} from "./staticAudio";
+
+const HASH_A = "a".repeat(64);
+const HASH_B = "b".repeat(64);
+
+function fakeFetch(files: Record<string, unknown>) {
+  const calls: string[] = [];
+  const fetchJson = async (url: string) => {
+    calls.push(url);
+    if (files[url] instanceof Error) throw files[url];
+    return files[url] ?? null;
+  };
+  return { fetchJson, calls };
+}
+
+describe("staticAudio", () => {
+  it("reads clip hashes from a manifest", () => {
+    expect(parseStaticManifest({ [HASH_A]: { text: "Hi" }, "not-a-hash": {} })).toEqual(new Set([HASH_A]));
+    expect(parseStaticManifest(null).size).toBe(0);
+  });
+
+  it("reads the set index", () => {
+    expect(parseStaticAudioSets({ sets: [{ voice: "echo", speed: 1, clips: 132 }, { voice: 3 }] })).toEqual([
+      { voice: "echo", speed: 1, clips: 132 },
+    ]);
+    expect(parseStaticAudioSets("nope")).toEqual([]);
+  });
+
+  it("resolves lines against the manifest, fetched once per voice and speed", async () => {
+    const { fetchJson, calls } = fakeFetch({ "/audio/echo-1.00/manifest.json": { [HASH_A]: {} } });
+    const index = createStaticAudioIndex(fetchJson);
+    expect(await index.resolve("echo", 1, HASH_A)).toBe(staticClipUrl("echo", 1, HASH_A));
+    expect(await index.resolve("echo", 1, HASH_B)).toBeNull();
+    // No manifest: nothing is static, every line goes to the API
+    expect(await index.resolve("nova", 1, HASH_A)).toBeNull();
+    expect(await index.resolve("nova", 1, HASH_B)).toBeNull();
+    expect(calls).toEqual(["/audio/echo-1.00/manifest.json", "/audio/nova-1.00/manifest.json"]);
+  });
+
+  it("retries a manifest that failed to load", async () => {
+    const files: Record<string, unknown> = { "/audio/echo-1.00/manifest.json": new Error("offline") };
+    const { fetchJson, calls } = fakeFetch(files);
+    const index = createStaticAudioIndex(fetchJson);
+    expect(await index.resolve("echo", 1, HASH_A)).toBeNull();
+    files["/audio/echo-1.00/manifest.json"] = { [HASH_A]: {} };
+    expect(await index.resolve("echo", 1, HASH_A)).not.toBeNull();
+    expect(calls).toHaveLength(2);
+  });
+
+  it("reports coverage and points at a pre-generated set", async () => {
+    const hash = await ttsCacheKey("Hello.", "echo", 1);
+    const { fetchJson } = fakeFetch({ "/audio/echo-1.00/manifest.json": { [hash]: {} } });
+    const index = createStaticAudioIndex(fetchJson);
+    const set = { voice: "echo", speed: 1, clips: 1 };
+    const partial = await index.coverage("echo", 1.05, ["Hello.", "Bye."], "native");
+    expect(partial).toEqual({ covered: 0, total: 2 });
+    expect(describeCoverage(partial, "echo", 1.05, set)).toBe(
+      "0% of coaching lines pre-generated — echo at 1.00x is fully pre-generated.",
+    );
+    expect(describeCoverage(partial, "echo", 1.05, null)).toBe("0% of coaching lines pre-generated.");
+    const full = await index.coverage("echo", 1, ["Hello."], "native");
+    expect(describeCoverage(full, "echo", 1, set)).toBe("All coaching lines are pre-generated — no API cost.");
+  });
+
+  it("only suggests a set that has every line", async () => {
+    const hello = await ttsCacheKey("Hello.", "echo", 1);
+    const novaHello = await ttsCacheKey("Hello.", "nova", 1);
+    const novaBye = await ttsCacheKey("Bye.", "nova", 1);
+    const { fetchJson } = fakeFetch({
+      "/audio/index.json": {
+        sets: [
+          { voice: "nova", speed: 1, clips: 2 },
+          { voice: "echo", speed: 1, clips: 1 },
+        ],
+      },
+      "/audio/echo-1.00/manifest.json": { [hello]: {} },
+      "/audio/nova-1.00/manifest.json": { [novaHello]: {}, [novaBye]: {} },
+    });
+    const index = createStaticAudioIndex(fetchJson);
+    // echo's own set lacks "Bye.", so the complete nova set is suggested
+    expect(await index.completeSet("echo", ["Hello.", "Bye."])).toEqual({ voice: "nova", speed: 1, clips: 2 });
+    expect(await index.completeSet("echo", ["Hello."])).toEqual({ voice: "echo", speed: 1, clips: 1 });
+    expect(await index.completeSet("echo", ["Unknown."])).toBeNull();
+  });
+
+  it("time-stretches the nearest set when the speed has none", async () => {
+    const hash = await ttsCacheKey("Hello.", "echo", 1);
+    const { fetchJson } = fakeFetch({
+      "/audio/index.json": { sets: [{ voice: "echo", speed: 1, clips: 1 }] },
+      "/audio/echo-1.00/manifest.json": { [hash]: {} },
+    });
+    const index = createStaticAudioIndex(fetchJson);
+    expect(await index.source("echo", 1.2, "Hello.", "stretch")).toEqual({
+      url: staticClipUrl("echo", 1, hash),
+      speed: 1,
+      playbackRate: 1.2,
+    });
+    expect(await index.source("echo", 1.2, "Hello.", "native")).toBeNull();
+    // Text with no clip anywhere still goes to the API
+    expect(await index.source("echo", 1.2, "Bye.", "stretch")).toBeNull();
+    expect(await index.coverage("echo", 1.2, ["Hello.", "Bye."], "stretch")).toEqual({ covered: 1, total: 2 });
+  });
+
+  it("labels speed changes as native or time-stretched", () => {
+    const sets = [{ voice: "echo", speed: 1, clips: 1 }];
+    expect(describeSpeedChange("stretch", "echo", 1.1, sets)).toBe("time-stretched");
+    expect(describeSpeedChange("stretch", "echo", 1, sets)).toBe("native");
+    expect(describeSpeedChange("native", "echo", 1.1, sets)).toBe("native");
+    expect(describeSpeedChange("stretch", "nova", 1.1, sets)).toBe("native");
+    expect(stretchSourceSpeeds(sets, "echo", 2.5)).toEqual([]);
+  });
+
+  it("measures coverage over the shared banks", () => {
+    const lines = coverageLines("physio");
+    expect(lines.length).toBeGreaterThan(20);
+    expect(new Set(lines).size).toBe(lines.length);
+  });
+});
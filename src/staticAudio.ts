@@ -0,0 +1,209 @@
+// Static audio sets: resolve a line against the set's manifest.json instead of
+// probing /audio/<voice>-<speed>/<hash>.mp3 and eating a 404 for every line
+// that was never generated.
+//
+// scripts/generate-audio.mjs writes one manifest.json per set (hash → text)
+// and public/audio/index.json listing the sets, so the UI can point users at
+// voice/speed combinations that are fully pre-generated.
+//
+// Speed changes are either "native" (every speed is its own set, and lines
+// missing from it are synthesized by the API at that speed) or
+// "time-stretched": a line with no clip at the chosen speed plays the voice's
+// nearest pre-generated clip with playbackRate and pitch preservation, so only
+// text that has no clip at all costs an API call.
+
+import { ttsCacheKey } from "./audioCache";
+import {
+  CONGRATS_BANK,
+  MILESTONE_BANK,
+  MOTIVATION_BANK,
+  START_BANK,
+  buildMotivationLine,
+  padShortUtterance,
+} from "./ttsUtils";
+
+export type StaticAudioSet = { voice: string; speed: number; clips: number };
+
+export type StaticCoverage = { covered: number; total: number };
+
+export type SpeedMode = "native" | "stretch";
+
+// Where a line's audio comes from: the set's speed and the playbackRate that
+// turns it into the requested speed (1 when the set is at that speed)
+export type ClipSource = { url: string; speed: number; playbackRate: number };
+
+// Looks up JSON at a URL: the parsed body, null for a 404, and a rejection
+// for network errors (so a flaky connection doesn't read as "no static set")
+export type FetchJson = (url: string) => Promise<unknown | null>;
+
+export type StaticAudioIndex = {
+  sets(): Promise<StaticAudioSet[]>;
+  manifest(voice: string, speed: number): Promise<Set<string>>;
+  resolve(voice: string, speed: number, hash: string): Promise<string | null>;
+  source(voice: string, speed: number, text: string, mode: SpeedMode): Promise<ClipSource | null>;
+  coverage(voice: string, speed: number, lines: string[], mode: SpeedMode): Promise<StaticCoverage>;
+  completeSet(voice: string, lines: string[]): Promise<StaticAudioSet | null>;
+};
+
+export const STATIC_AUDIO_INDEX_URL = "/audio/index.json";
+
+export const SPEED_MODES: { id: SpeedMode; label: string }[] = [
+  { id: "stretch", label: "Time-stretched (pre-generated clips)" },
+  { id: "native", label: "Native (re-synthesized)" },
+];
+
+// Beyond this a stretched clip starts to sound processed; re-synthesize instead
+export const STRETCH_RATE_MIN = 0.5;
+export const STRETCH_RATE_MAX = 2;
+
+export function staticAudioDir(voice: string, speed: number) {
+  return `${voice}-${speed.toFixed(2)}`;
+}
+
+export function staticClipUrl(voice: string, speed: number, hash: string) {
+  return `/audio/${staticAudioDir(voice, speed)}/${hash}.mp3`;
+}
+
+function sameSpeed(a: number, b: number) {
+  return a.toFixed(2) === b.toFixed(2);
+}
+
+// Speeds of the voice's other sets that can be stretched to speed, nearest first
+export function stretchSourceSpeeds(sets: StaticAudioSet[], voice: string, speed: number) {
+  return sets
+    .filter((s) => s.voice === voice && !sameSpeed(s.speed, speed))
+    .filter((s) => speed / s.speed >= STRETCH_RATE_MIN && speed / s.speed <= STRETCH_RATE_MAX)
+    .map((s) => s.speed)
+    .sort((a, b) => Math.abs(a - speed) - Math.abs(b - speed));
+}
+
+// What the speed setting says about the chosen voice/speed
+export function describeSpeedChange(mode: SpeedMode, voice: string, speed: number, sets: StaticAudioSet[]) {
+  const native = sets.some((s) => s.voice === voice && sameSpeed(s.speed, speed));
+  return mode === "stretch" && !native && stretchSourceSpeeds(sets, voice, speed).length ? "time-stretched" : "native";
+}
+
+export function parseStaticManifest(data: unknown): Set<string> {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) return new Set();
+  return new Set(Object.keys(data).filter((k) => /^[0-9a-f]{64}$/.test(k)));
+}
+
+export function parseStaticAudioSets(data: unknown): StaticAudioSet[] {
+  const sets = typeof data === "object" && data !== null ? (data as { sets?: unknown }).sets : null;
+  if (!Array.isArray(sets)) return [];
+  return sets.flatMap((s) => {
+    if (typeof s !== "object" || s === null) return [];
+    const { voice, speed, clips } = s as Record<string, unknown>;
+    if (typeof voice !== "string" || typeof speed !== "number") return [];
+    return [{ voice, speed, clips: typeof clips === "number" ? clips : 0 }];
+  });
+}
+
+// The lines every session draws from — what "coverage" is measured against.
+// Structural lines (transitions, round counts, custom milestones) depend on
+// the session and are left out. generate-audio.mjs generates every one of
+// these (scripts/generate-audio.test.mjs checks), so a freshly generated set
+// covers 100%.
+export function coverageLines(activity: string) {
+  return [
+    ...START_BANK,
+    ...CONGRATS_BANK,
+    ...MILESTONE_BANK,
+    ...MOTIVATION_BANK.map((line) => buildMotivationLine(line, activity)),
+  ].map(padShortUtterance);
+}
+
+export function coveragePct(coverage: StaticCoverage) {
+  return coverage.total ? Math.round((coverage.covered / coverage.total) * 100) : 0;
+}
+
+// "All coaching lines are pre-generated" / "40% pre-generated — try echo at 1.00x".
+// `complete` is a set known to have every line (StaticAudioIndex.completeSet).
+export function describeCoverage(
+  coverage: StaticCoverage,
+  voice: string,
+  speed: number,
+  complete: StaticAudioSet | null,
+) {
+  const pct = coveragePct(coverage);
+  if (pct === 100) return "All coaching lines are pre-generated — no API cost.";
+  const hint =
+    complete && staticAudioDir(complete.voice, complete.speed) !== staticAudioDir(voice, speed)
+      ? ` — ${complete.voice} at ${complete.speed.toFixed(2)}x is fully pre-generated`
+      : "";
+  return `${pct}% of coaching lines pre-generated${hint}.`;
+}
+
+// Each manifest is fetched once per voice/speed. A set with no manifest
+// counts as empty, so every line goes straight to the API; a failed fetch is
+// retried on the next lookup.
+export function createStaticAudioIndex(fetchJson: FetchJson): StaticAudioIndex {
+  const manifests = new Map<string, Promise<Set<string>>>();
+  let sets: Promise<StaticAudioSet[]> | null = null;
+
+  function manifest(voice: string, speed: number) {
+    const dir = staticAudioDir(voice, speed);
+    let loading = manifests.get(dir);
+    if (!loading) {
+      loading = fetchJson(`/audio/${dir}/manifest.json`).then(parseStaticManifest);
+      loading.catch(() => manifests.delete(dir));
+      manifests.set(dir, loading);
+    }
+    return loading;
+  }
+
+  function loadSets() {
+    if (!sets) {
+      sets = fetchJson(STATIC_AUDIO_INDEX_URL).then(parseStaticAudioSets);
+      sets.catch(() => {
+        sets = null;
+      });
+    }
+    return sets;
+  }
+
+  async function resolve(voice: string, speed: number, hash: string) {
+    try {
+      return (await manifest(voice, speed)).has(hash) ? staticClipUrl(voice, speed, hash) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Null when no set has the line: synthesize it at the requested speed
+  async function source(voice: string, speed: number, text: string, mode: SpeedMode): Promise<ClipSource | null> {
+    const url = await resolve(voice, speed, await ttsCacheKey(text, voice, speed));
+    if (url) return { url, speed, playbackRate: 1 };
+    if (mode !== "stretch") return null;
+    for (const from of stretchSourceSpeeds(await loadSets().catch(() => []), voice, speed)) {
+      const stretched = await resolve(voice, from, await ttsCacheKey(text, voice, from));
+      if (stretched) return { url: stretched, speed: from, playbackRate: speed / from };
+    }
+    return null;
+  }
+
+  return {
+    sets: loadSets,
+    manifest,
+    resolve,
+    source,
+
+    async coverage(voice, speed, lines, mode) {
+      const sources = await Promise.all(lines.map((text) => source(voice, speed, text, mode)));
+      return { covered: sources.filter(Boolean).length, total: lines.length };
+    },
+
+    // The first set with every line at its own speed, the voice's sets first.
+    // Manifests are checked one at a time and only until one is complete.
+    async completeSet(voice, lines) {
+      const all = await loadSets().catch(() => []);
+      const candidates = [...all.filter((s) => s.voice === voice), ...all.filter((s) => s.voice !== voice)];
+      for (const set of candidates) {
+        const manifestHashes = await manifest(set.voice, set.speed).catch(() => new Set<string>());
+        const hashes = await Promise.all(lines.map((text) => ttsCacheKey(text, set.voice, set.speed)));
+        if (hashes.every((hash) => manifestHashes.has(hash))) return set;
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,157 @@
+// Service worker: keeps the app shell and the static coaching audio on the
+// device so a whole session runs without a connection.
+//
+// Not bundled with the app — the build (see serviceWorker() in vite.config.ts)
+// emits it as /sw.js with PRECACHE defined at the top:
+//   { version, shell: ["/", "/assets/index-abc.js", ...],
+//     audio: [{ dir: "echo-1.00", version: "3f2a9c01b7e4" }, ...] }
+// Any change to the bundle or to an audio set's manifest.json changes those
+// versions, which changes this file, so the browser installs the new worker
+// and activate() drops the caches of the old one.
+//
+// Messages to the page: { type: "precache", cached, total, done }.
+// The page posts { type: "precache-audio" } once a worker is active (and on
+// reconnecting) to download whatever is still missing, or { type: "status" }
+// for a fresh count. Activation doesn't wait for the audio: fetches are held
+// until it finishes.
+
+/* global PRECACHE */
+
+const CACHE_PREFIX = "knee-timer-";
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${PRECACHE.version}`;
+
+function audioCacheName(set) {
+  return `${CACHE_PREFIX}audio-${set.dir}-${set.version}`;
+}
+
+const CURRENT_CACHES = new Set([SHELL_CACHE, ...PRECACHE.audio.map(audioCacheName)]);
+
+async function broadcast(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  for (const client of clients) client.postMessage(message);
+}
+
+async function audioUrls(set, cache) {
+  const manifestUrl = `/audio/${set.dir}/manifest.json`;
+  let res = await cache.match(manifestUrl);
+  if (!res) {
+    res = await fetch(manifestUrl, { cache: "no-cache" });
+    if (!res.ok) throw new Error(`No audio manifest for ${set.dir}`);
+    await cache.put(manifestUrl, res.clone());
+  }
+  const manifest = await res.json();
+  return Object.keys(manifest).map((hash) => `/audio/${set.dir}/${hash}.mp3`);
+}
+
+// Counts what is already cached and downloads the rest, one clip at a time so
+// a slow connection isn't flooded. A failed clip is skipped; the next run
+// picks it up.
+let precaching = null;
+
+function precacheAudio(download) {
+  if (precaching) return precaching;
+  precaching = (async () => {
+    const sets = [];
+    for (const set of PRECACHE.audio) {
+      const cache = await caches.open(audioCacheName(set));
+      try {
+        sets.push({ cache, urls: await audioUrls(set, cache) });
+      } catch {
+        // Offline before the manifest was ever fetched
+      }
+    }
+    const total = sets.reduce((n, s) => n + s.urls.length, 0);
+    let cached = 0;
+    const missing = [];
+    for (const { cache, urls } of sets) {
+      for (const url of urls) {
+        if (await cache.match(url)) cached++;
+        else missing.push({ cache, url });
+      }
+    }
+    await broadcast({ type: "precache", cached, total, done: !download || missing.length === 0 });
+    if (!download) return;
+
+    for (const { cache, url } of missing) {
+      try {
+        const res = await fetch(url);
+        if (res.ok) {
+          await cache.put(url, res);
+          cached++;
+          await broadcast({ type: "precache", cached, total, done: false });
+        }
+      } catch {
+        // Lost the connection mid-way
+      }
+    }
+    await broadcast({ type: "precache", cached, total, done: true });
+  })().finally(() => {
+    precaching = null;
+  });
+  return precaching;
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.addAll(PRECACHE.shell);
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith(CACHE_PREFIX) && !CURRENT_CACHES.has(name)) await caches.delete(name);
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+self.addEventListener("message", (event) => {
+  const type = event.data && event.data.type;
+  if (type === "precache-audio") event.waitUntil(precacheAudio(true));
+  if (type === "status") event.waitUntil(precacheAudio(false));
+});
+
+async function fromCache(request) {
+  for (const name of CURRENT_CACHES) {
+    const cache = await caches.open(name);
+    const hit = await cache.match(request, { ignoreSearch: true });
+    if (hit) return hit;
+  }
+  return null;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // The API (TTS, analytics, access code) always goes to the network
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  // Pages: network first so a deploy shows up, the cached shell when offline
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(async () => (await caches.match("/", { cacheName: SHELL_CACHE })) ?? Response.error()),
+    );
+    return;
+  }
+
+  // Hashed assets and audio clips never change under the same URL
+  event.respondWith(
+    (async () => {
+      const hit = await fromCache(request);
+      if (hit) return hit;
+      const res = await fetch(request);
+      if (res.ok && !url.pathname.startsWith("/audio/")) {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.put(request, res.clone());
+      }
+      return res;
+    })(),
+  );
+});
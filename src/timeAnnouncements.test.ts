@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTimeAnnouncementCues,
+  composeTimePhrase,
+  encodeWav,
+  mergeTimeAnnouncements,
+  normalizeTimeAnnouncements,
+  numberWord,
+  stitchClips,
+  timeAnnouncementClipTexts,
+  trimSilence,
+} from "./timeAnnouncements";
+
+const RATE = 8000;
+
+function tone(seconds: number, padSeconds: number) {
+  const pad = new Float32Array(RATE * padSeconds);
+  const body = Float32Array.from({ length: RATE * seconds }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * i) / RATE));
+  return { channels: [Float32Array.from([...pad, ...body, ...pad])], sampleRate: RATE };
+}
+
+describe("timeAnnouncements", () => {
+  it("composes phrases from number, unit and tail clips", () => {
+    expect(numberWord(5)).toBe("Five");
+    expect(numberWord(42)).toBe("Forty-two");
+    expect(numberWord(61)).toBeNull();
+    expect(composeTimePhrase("remaining", 5)).toEqual({
+      text: "Five minutes left.",
+      parts: ["Five", "minutes", "left."],
+    });
+    expect(composeTimePhrase("elapsed", 1).text).toBe("One minute done.");
+    // No clip for the number: spoken as a whole sentence
+    expect(composeTimePhrase("remaining", 90)).toEqual({ text: "90 minutes left.", parts: undefined });
+
+    const clips = timeAnnouncementClipTexts();
+    expect(clips).toHaveLength(60 + 2 + 2);
+    expect(clips).toEqual(expect.arrayContaining(["Twenty", "Sixty", "minute", "minutes", "left.", "done."]));
+  });
+
+  it("schedules announcements every few minutes, clear of the start and end", () => {
+    const left = buildTimeAnnouncementCues(600, { mode: "remaining", everyMinutes: 2 });
+    expect(left.map((c) => [c.elapsed, c.text])).toEqual([
+      [120, "Eight minutes left."],
+      [240, "Six minutes left."],
+      [360, "Four minutes left."],
+      [480, "Two minutes left."],
+    ]);
+    const done = buildTimeAnnouncementCues(125, { mode: "elapsed", everyMinutes: 1 });
+    expect(done.map((c) => c.text)).toEqual(["One minute done."]);
+    expect(buildTimeAnnouncementCues(600, { mode: "off", everyMinutes: 1 })).toEqual([]);
+    expect(normalizeTimeAnnouncements({ mode: "remaining", everyMinutes: 3 })).toEqual({
+      mode: "remaining",
+      everyMinutes: 1,
+    });
+  });
+
+  it("makes room among the other cues", () => {
+    const schedule = [
+      { key: "t57", elapsed: 57, kind: "motivation" as const, slot: 0 },
+      { key: "m50", elapsed: 120, kind: "milestone" as const },
+      { key: "t150", elapsed: 150, kind: "motivation" as const, slot: 1 },
+    ];
+    const cues = buildTimeAnnouncementCues(240, { mode: "elapsed", everyMinutes: 1 });
+    expect(mergeTimeAnnouncements(schedule, cues).map((c) => c.key)).toEqual([
+      "time-elapsed-1",
+      "m50",
+      "t150",
+      "time-elapsed-3",
+    ]);
+  });
+
+  it("trims and joins clips with a short gap", () => {
+    const clip = tone(0.25, 0.1);
+    const range = trimSilence(clip);
+    expect(range?.start).toBeGreaterThan(RATE * 0.09);
+    expect(range?.end).toBeLessThan(RATE * 0.36);
+    expect(trimSilence({ channels: [new Float32Array(RATE)], sampleRate: RATE })).toBeNull();
+
+    const joined = stitchClips([tone(0.25, 0.1), tone(0.25, 0.1)], 0.05);
+    expect(joined.channels[0].length / RATE).toBeCloseTo(0.55, 1);
+    // No click at the cuts
+    expect(Math.abs(joined.channels[0][0])).toBeLessThan(0.01);
+  });
+
+  it("encodes 16-bit PCM WAV", () => {
+    const wav = new DataView(encodeWav({ channels: [new Float32Array([0, 1, -1])], sampleRate: RATE }));
+    expect(String.fromCharCode(...new Uint8Array(wav.buffer, 0, 4))).toBe("RIFF");
+    expect(wav.getUint32(24, true)).toBe(RATE);
+    expect(wav.byteLength).toBe(44 + 6);
+    expect(wav.getInt16(46, true)).toBe(0x7fff);
+    expect(wav.getInt16(48, true)).toBe(-0x8000);
+  });
+});
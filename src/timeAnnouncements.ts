@@ -0,0 +1,198 @@
+// Spoken time announcements ("Five minutes left.", "Ten minutes done.")
+// composed from short pre-generated clips instead of one TTS call per phrase.
+//
+// A phrase is a template such as "{n} {unit} left." filled in word by word:
+// the number, the unit and the tail are separate static clips (see
+// timeAnnouncementClipTexts, mirrored in scripts/generate-audio.mjs). The
+// client trims the silence around each clip and joins them into one WAV, so
+// the result plays like any other line. Numbers past ANNOUNCE_MAX_MINUTES have
+// no clips and are spoken as a whole sentence, as is any phrase while the
+// voice's static set lacks one of its clips (a set generated before these
+// clips existed has none of them).
+
+import { MILESTONE_CLEARANCE_SECONDS, type TimedCue } from "./sessionClock";
+import { dbToGain } from "./mixer";
+
+export type TimeAnnouncementMode = "off" | "remaining" | "elapsed";
+
+export type TimeAnnouncementSettings = { mode: TimeAnnouncementMode; everyMinutes: number };
+
+// Decoded audio: one Float32Array per channel
+export type PcmClip = { channels: Float32Array[]; sampleRate: number };
+
+export const TIME_ANNOUNCEMENT_MODES: { id: TimeAnnouncementMode; label: string }[] = [
+  { id: "off", label: "Off" },
+  { id: "remaining", label: "Time left" },
+  { id: "elapsed", label: "Time done" },
+];
+export const ANNOUNCE_EVERY_OPTIONS = [1, 2, 5] as const;
+export const ANNOUNCE_MAX_MINUTES = 60;
+// Kept clear of the start and end lines
+export const ANNOUNCE_CLEARANCE_SECONDS = 15;
+
+export const DEFAULT_TIME_ANNOUNCEMENTS: TimeAnnouncementSettings = { mode: "off", everyMinutes: 1 };
+
+// {n} is the number word, {unit} "minute" or "minutes"; every other word is a clip of its own
+export const TIME_TEMPLATES: Record<Exclude<TimeAnnouncementMode, "off">, string> = {
+  remaining: "{n} {unit} left.",
+  elapsed: "{n} {unit} done.",
+};
+
+// Clip edges quieter than this are trimmed before joining
+export const CLIP_SILENCE_DB = -45;
+// Pause between joined words
+export const WORD_GAP_SECONDS = 0.06;
+// Short fades at each cut so the joins don't click
+const EDGE_FADE_SECONDS = 0.005;
+
+const ONES = [
+  "", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen",
+];
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty"];
+
+export function normalizeTimeAnnouncements(raw: Partial<TimeAnnouncementSettings>): TimeAnnouncementSettings {
+  const d = DEFAULT_TIME_ANNOUNCEMENTS;
+  const mode = TIME_ANNOUNCEMENT_MODES.some((m) => m.id === raw.mode) ? (raw.mode as TimeAnnouncementMode) : d.mode;
+  const every = ANNOUNCE_EVERY_OPTIONS.find((n) => n === raw.everyMinutes) ?? d.everyMinutes;
+  return { mode, everyMinutes: every };
+}
+
+// "Five", "Twenty-one"; capitalized because it opens the phrase
+export function numberWord(n: number) {
+  const whole = Math.trunc(n);
+  if (whole < 1 || whole > ANNOUNCE_MAX_MINUTES) return null;
+  const word = whole < 20 ? ONES[whole] : TENS[Math.floor(whole / 10)] + (whole % 10 ? `-${ONES[whole % 10]}` : "");
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// The phrase and, when every word has a clip, the clips that make it up
+export function composeTimePhrase(mode: Exclude<TimeAnnouncementMode, "off">, minutes: number) {
+  const word = numberWord(minutes);
+  const unit = minutes === 1 ? "minute" : "minutes";
+  const parts = TIME_TEMPLATES[mode]
+    .split(" ")
+    .map((token) => (token === "{n}" ? word ?? String(minutes) : token === "{unit}" ? unit : token));
+  return { text: parts.join(" "), parts: word ? parts : undefined };
+}
+
+// Every clip a phrase can be built from, for the static audio set
+export function timeAnnouncementClipTexts() {
+  const texts = new Set<string>();
+  for (let n = 1; n <= ANNOUNCE_MAX_MINUTES; n++) {
+    for (const mode of ["remaining", "elapsed"] as const) {
+      for (const part of composeTimePhrase(mode, n).parts ?? []) texts.add(part);
+    }
+  }
+  return Array.from(texts);
+}
+
+// One announcement every everyMinutes whole minutes, counted down from the
+// end ("remaining") or up from the start ("elapsed"), except too close to
+// the start or end lines.
+export function buildTimeAnnouncementCues(totalSeconds: number, settings: TimeAnnouncementSettings): TimedCue[] {
+  const { mode } = settings;
+  if (mode === "off") return [];
+  const t = Math.max(0, Math.trunc(totalSeconds));
+  const step = Math.max(1, settings.everyMinutes) * 60;
+  const cues: TimedCue[] = [];
+  for (let mark = step; mark < t; mark += step) {
+    const elapsed = mode === "remaining" ? t - mark : mark;
+    if (elapsed < ANNOUNCE_CLEARANCE_SECONDS || t - elapsed < ANNOUNCE_CLEARANCE_SECONDS) continue;
+    const { text, parts } = composeTimePhrase(mode, mark / 60);
+    cues.push({ key: `time-${mode}-${mark / 60}`, elapsed, kind: "time", text, parts, raw: true });
+  }
+  return cues.sort((a, b) => a.elapsed - b.elapsed);
+}
+
+// Announcements join the schedule: one landing on the same second as another
+// structural cue is left out, and motivation lines that would run into one
+// make way for it (the user asked for the time; the pep talk can wait).
+export function mergeTimeAnnouncements(schedule: TimedCue[], announcements: TimedCue[]): TimedCue[] {
+  const taken = new Set(schedule.filter((c) => c.kind !== "motivation").map((c) => c.elapsed));
+  const kept = announcements.filter((a) => !taken.has(a.elapsed));
+  if (!kept.length) return schedule;
+  const near = (elapsed: number) => kept.some((a) => Math.abs(a.elapsed - elapsed) < MILESTONE_CLEARANCE_SECONDS);
+  const rest = schedule.filter((c) => c.kind !== "motivation" || !near(c.elapsed));
+  return [...rest, ...kept].sort((a, b) => a.elapsed - b.elapsed);
+}
+
+// The sample range worth keeping: from the first to the last sample above
+// thresholdDb, with a few milliseconds either side. Null for silence.
+export function trimSilence(clip: PcmClip, thresholdDb = CLIP_SILENCE_DB): { start: number; end: number } | null {
+  const threshold = dbToGain(thresholdDb);
+  const length = clip.channels[0]?.length ?? 0;
+  const loud = (i: number) => clip.channels.some((channel) => Math.abs(channel[i]) > threshold);
+  let start = 0;
+  while (start < length && !loud(start)) start++;
+  if (start === length) return null;
+  let end = length;
+  while (end > start && !loud(end - 1)) end--;
+  const margin = Math.round(clip.sampleRate * EDGE_FADE_SECONDS);
+  return { start: Math.max(0, start - margin), end: Math.min(length, end + margin) };
+}
+
+// Joins the clips into one, trimmed and faded at each cut with a short gap
+// in between. All clips must share a sample rate (decodeAudioData resamples
+// to the context's); mono clips are spread over every channel.
+export function stitchClips(clips: PcmClip[], gapSeconds = WORD_GAP_SECONDS): PcmClip {
+  const sampleRate = clips[0]?.sampleRate ?? 44100;
+  const channelCount = Math.max(1, ...clips.map((c) => c.channels.length));
+  const gap = Math.round(sampleRate * gapSeconds);
+  const fade = Math.max(1, Math.round(sampleRate * EDGE_FADE_SECONDS));
+  const pieces = clips.flatMap((clip) => {
+    const range = trimSilence(clip);
+    return range ? [{ clip, ...range }] : [];
+  });
+  const length = pieces.reduce((sum, p) => sum + (p.end - p.start), 0) + gap * Math.max(0, pieces.length - 1);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(length));
+
+  let offset = 0;
+  for (const { clip, start, end } of pieces) {
+    const size = end - start;
+    for (let c = 0; c < channelCount; c++) {
+      const source = clip.channels[c] ?? clip.channels[0];
+      const target = channels[c];
+      for (let i = 0; i < size; i++) {
+        const edge = Math.min(i, size - 1 - i);
+        target[offset + i] = source[start + i] * (edge < fade ? edge / fade : 1);
+      }
+    }
+    offset += size + gap;
+  }
+  return { channels, sampleRate };
+}
+
+// 16-bit PCM WAV, which every browser plays
+export function encodeWav(clip: PcmClip): ArrayBuffer {
+  const { channels, sampleRate } = clip;
+  const channelCount = Math.max(1, channels.length);
+  const frames = channels[0]?.length ?? 0;
+  const dataBytes = frames * channelCount * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataBytes));
+  const text = (at: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(at + i, value.charCodeAt(i));
+  };
+  text(0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  text(8, "WAVE");
+  text(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channelCount * 2, true);
+  view.setUint16(32, channelCount * 2, true);
+  view.setUint16(34, 16, true);
+  text(36, "data");
+  view.setUint32(40, dataBytes, true);
+  let at = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c]?.[i] ?? 0));
+      view.setInt16(at, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      at += 2;
+    }
+  }
+  return view.buffer;
+}
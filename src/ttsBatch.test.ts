@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+  base64ToBytes,
+  chunkBatchLines,
+  isBatchClip,
+  parseNdjson,
+  readBatchResults,
+  type TtsBatchResult,
+} from "./ttsBatch";
+
+function streamOf(...chunks: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("ttsBatch", () => {
+  it("splits lines into batches, once per text", () => {
+    const lines = Array.from({ length: 5 }, (_, i) => ({ key: `m${i}`, text: `Line ${i}.` }));
+    const chunks = chunkBatchLines([...lines, { key: "again", text: "Line 0." }], 2);
+    expect(chunks.map((c) => c.map((l) => l.key))).toEqual([["m0", "m1"], ["m2", "m3"], ["m4"]]);
+    expect(chunkBatchLines([])).toEqual([]);
+  });
+
+  it("keeps an unfinished record for the next chunk", () => {
+    expect(parseNdjson('{"key":"a","status":200}\n{"key":"b"')).toEqual({
+      records: [{ key: "a", status: 200 }],
+      rest: '{"key":"b"',
+    });
+    expect(parseNdjson("not json\n\n").records).toEqual([]);
+  });
+
+  it("reads records split across chunks", async () => {
+    const body = streamOf('{"key":"a","status":200,"contentType":"audio/wav","audio":"UklGRg=="}\n{"key":"b",', '"status":503,"error":"TTS budget exhausted"}');
+    const results: TtsBatchResult[] = [];
+    for await (const result of readBatchResults(body)) results.push(result);
+    expect(results.map((r) => [r.key, r.status])).toEqual([["a", 200], ["b", 503]]);
+    const [clip, error] = results;
+    expect(isBatchClip(clip) && new TextDecoder().decode(base64ToBytes(clip.audio))).toBe("RIFF");
+    expect(isBatchClip(error)).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+// Client side of /api/tts-batch: the prefetch lines that need the API go out
+// in one POST per TTS_BATCH_MAX_LINES, and the answer streams back as
+// newline-delimited JSON, one record per line as soon as it is synthesized.
+
+// Text as it will be spoken (already padded), under the prefetch line's key
+export type TtsBatchLine = { key: string; text: string };
+
+export type TtsBatchClip = { key: string; status: 200; contentType: string; audio: string; cache?: string; etag?: string };
+// The body /api/tts would have answered with, plus the line's key and status
+export type TtsBatchError = { key: string; status: number; error: string; code?: string; resetsAt?: string };
+export type TtsBatchResult = TtsBatchClip | TtsBatchError;
+
+// Mirrors MAX_BATCH_LINES in api/tts-batch.js
+export const TTS_BATCH_MAX_LINES = 32;
+
+export function chunkBatchLines(lines: TtsBatchLine[], size = TTS_BATCH_MAX_LINES) {
+  // The same text under two keys is synthesized once
+  const seen = new Set<string>();
+  const unique = lines.filter((line) => !seen.has(line.text) && seen.add(line.text));
+  const chunks: TtsBatchLine[][] = [];
+  for (let i = 0; i < unique.length; i += size) chunks.push(unique.slice(i, i + size));
+  return chunks;
+}
+
+// Complete records in `buffered`, and the unfinished tail to keep for the next chunk
+export function parseNdjson(buffered: string): { records: unknown[]; rest: string } {
+  const lines = buffered.split("\n");
+  const rest = lines.pop() ?? "";
+  const records: unknown[] = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // A garbled record only costs its line, which is fetched on demand
+    }
+  }
+  return { records, rest };
+}
+
+function isBatchResult(value: unknown): value is TtsBatchResult {
+  const r = value as { key?: unknown; status?: unknown } | null;
+  return !!r && typeof r.key === "string" && typeof r.status === "number";
+}
+
+export function isBatchClip(result: TtsBatchResult): result is TtsBatchClip {
+  return result.status === 200 && typeof (result as TtsBatchClip).audio === "string";
+}
+
+// Yields results as they arrive; stopping early cancels the response body
+export async function* readBatchResults(body: ReadableStream<Uint8Array>): AsyncGenerator<TtsBatchResult> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += done ? decoder.decode() + "\n" : decoder.decode(value, { stream: true });
+      const { records, rest } = parseNdjson(buffered);
+      buffered = rest;
+      for (const record of records) if (isBatchResult(record)) yield record;
+      if (done) return;
+    }
+  } finally {
+    void reader.cancel().catch(() => {});
+  }
+}
+
+export function base64ToBytes(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
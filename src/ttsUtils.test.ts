@@ -10,9 +10,11 @@ import {
   CONGRATS_BANK,
   computeMilestones,
   formatMMSS,
+  MILESTONE_BANK,
   padShortUtterance,
   START_BANK,
 } from "./ttsUtils";
+import { coachingCueTimes } from "./coaching";
 
 describe("ttsUtils", () => {
   it("clamps ints and floats", () => {
@@ -57,7 +59,8 @@ describe("ttsUtils", () => {
     expect(keys.has("m50")).toBe(true);
     expect(keys.has("m75")).toBe(true);
     expect(keys.has("m90")).toBe(true);
-    expect(keys.has("t0")).toBe(true);
+    // The start line is spoken at 0, not a cadence line
+    expect(keys.has("t0")).toBe(false);
 
     // Should not include regular cadence at milestone timestamps.
     expect(keys.has("t30")).toBe(false);
@@ -65,6 +68,48 @@ describe("ttsUtils", () => {
     expect(keys.has("t90")).toBe(false);
   });
 
+  it("prefetches round and rest lines for interval sessions", () => {
+    const lines = buildPrefetchLines(465, "physio", undefined, { rounds: 8 });
+    const keys = lines.map((l) => l.key);
+
+    expect(keys).toContain("r2");
+    expect(keys).toContain("r8");
+    expect(keys).not.toContain("r1");
+    expect(keys).not.toContain("m50");
+    expect(lines.find((l) => l.key === "rest")).toEqual({ key: "rest", text: "Rest.", raw: true });
+  });
+
+  it("prefetches the cadence lines the engine will speak", () => {
+    const coaching = { intervalSeconds: 15, jitterSeconds: 5, quietWindows: [{ from: 60, to: 120 }], seed: 7 };
+    const keys = buildPrefetchLines(300, "physio", undefined, { coaching, milestones: [] })
+      .map((l) => l.key)
+      .filter((k) => k.startsWith("t"));
+    expect(keys).toEqual(coachingCueTimes(300, coaching).map((m) => `t${m.elapsed}`));
+    expect(keys.length).toBeGreaterThan(10);
+  });
+
+  it("resolves custom milestones given as percentages or absolute times", () => {
+    const ms = computeMilestones(300, [
+      { id: "a", unit: "seconds", value: 200, text: "Two hundred seconds in." },
+      { id: "b", unit: "percent", value: 10, text: "  " },
+      { id: "c", unit: "seconds", value: 30, text: "Duplicate of b." },
+      { id: "d", unit: "seconds", value: 400, text: "Past the end." },
+    ]);
+    expect(ms).toEqual([
+      { key: "m10", elapsed: 30, text: MILESTONE_BANK[4] },
+      { key: "m200s", elapsed: 200, text: "Two hundred seconds in." },
+    ]);
+    expect(computeMilestones(300, [])).toEqual([]);
+  });
+
+  it("prefetches custom milestones", () => {
+    const lines = buildPrefetchLines(300, "physio", undefined, {
+      milestones: [{ id: "a", unit: "seconds", value: 45, text: "Forty-five seconds. Relax your shoulders." }],
+    });
+    expect(lines.find((l) => l.key === "m45s")?.text).toBe("Forty-five seconds. Relax your shoulders.");
+    expect(lines.some((l) => l.key === "m50")).toBe(false);
+  });
+
   it("keeps milestones within bounds", () => {
     const ms = computeMilestones(37);
     for (const m of ms) {
@@ -1,5 +1,9 @@
-﻿export type Milestone = { key: string; elapsed: number; text: string };
-export type PrefetchLine = { key: string; text: string };
+﻿import { coachingCueTimes, type CoachingCadence } from "./coaching";
+
+export type Milestone = { key: string; elapsed: number; text: string };
+// raw lines are spoken exactly as written (no short-utterance padding); parts
+// are the static clips a composed line is stitched from (see timeAnnouncements.ts)
+export type PrefetchLine = { key: string; text: string; raw?: boolean; parts?: string[] };
 
 export const DEFAULT_MINUTES = 10;
 
@@ -136,6 +140,16 @@ export function formatMMSS(totalSeconds: number) {
   return `${mm}:${ss}`;
 }
 
+export function formatDurationWords(totalSeconds: number) {
+  const s = Math.max(0, Math.trunc(totalSeconds));
+  const mins = Math.floor(s / 60);
+  const secs = s % 60;
+  const parts: string[] = [];
+  if (mins) parts.push(`${mins} ${mins === 1 ? "minute" : "minutes"}`);
+  if (secs || !mins) parts.push(`${secs} ${secs === 1 ? "second" : "seconds"}`);
+  return parts.join(" ");
+}
+
 export function approximateWordCount(text: string) {
   const trimmed = text.trim();
   if (!trimmed) return 0;
@@ -206,36 +220,94 @@ export function buildMotivationLine(base: string, activity: string) {
   return `${base}${actBit}`;
 }
 
-export function computeMilestones(totalSeconds: number): Milestone[] {
+// Milestones the user picks from; the first four are the default 25/50/75/90% lines
+export const MILESTONE_BANK: string[] = [
+  "25 percent done. Your knee is warming up and responding - great pace.",
+  "Halfway there. This is where real recovery happens - stay steady.",
+  "Three quarters done. You're pushing through the toughest part - incredible work.",
+  "Ninety percent done. This final stretch is where your knee gains the most - finish strong.",
+  "Nice work so far. Keep your breathing slow and your movements steady.",
+  "Check your form. Smooth, controlled movements - that's how the knee heals.",
+  "You're doing great. Stay with it, every rep counts today.",
+  "Almost there. Dig in and finish this session strong.",
+];
+
+export type MilestoneUnit = "percent" | "seconds";
+
+// A user-defined milestone: when it falls (percent of the session or seconds
+// from the start) and what is said — a bank line or custom text.
+export type MilestoneSpec = { id: string; unit: MilestoneUnit; value: number; text: string };
+
+export const MILESTONES_MAX = 10;
+export const MILESTONE_TEXT_MAX = 200;
+
+export const DEFAULT_MILESTONE_SPECS: MilestoneSpec[] = [
+  { id: "m25", unit: "percent", value: 25, text: MILESTONE_BANK[0] },
+  { id: "m50", unit: "percent", value: 50, text: MILESTONE_BANK[1] },
+  { id: "m75", unit: "percent", value: 75, text: MILESTONE_BANK[2] },
+  { id: "m90", unit: "percent", value: 90, text: MILESTONE_BANK[3] },
+];
+
+export function normalizeMilestoneSpec(spec: MilestoneSpec): MilestoneSpec {
+  const unit: MilestoneUnit = spec.unit === "seconds" ? "seconds" : "percent";
+  const text = String(spec.text ?? "").trim().slice(0, MILESTONE_TEXT_MAX);
+  return {
+    id: spec.id,
+    unit,
+    value: unit === "percent" ? clampInt(spec.value, 1, 99) : clampInt(spec.value, 1, 60 * 60),
+    text: text || MILESTONE_BANK[4],
+  };
+}
+
+let milestoneCounter = 0;
+
+export function createMilestoneSpec(unit: MilestoneUnit, value: number, text: string): MilestoneSpec {
+  milestoneCounter += 1;
+  return { id: `ms-${Date.now().toString(36)}-${milestoneCounter}`, unit, value, text };
+}
+
+// Keys stay m25/m50/... for percentages so the defaults keep their old keys
+export function milestoneKey(spec: MilestoneSpec) {
+  return spec.unit === "percent" ? `m${spec.value}` : `m${spec.value}s`;
+}
+
+// Resolve milestone specs against a session length. Milestones at the start,
+// at or past the end, or on a second already taken by an earlier spec are
+// dropped.
+export function computeMilestones(totalSeconds: number, specs: MilestoneSpec[] = DEFAULT_MILESTONE_SPECS): Milestone[] {
   const t = Math.max(1, Math.trunc(totalSeconds));
-  return [
-    {
-      key: "m25",
-      elapsed: Math.round(t * 0.25),
-      text: "25 percent done. Your knee is warming up and responding - great pace.",
-    },
-    {
-      key: "m50",
-      elapsed: Math.round(t * 0.5),
-      text: "Halfway there. This is where real recovery happens - stay steady.",
-    },
-    {
-      key: "m75",
-      elapsed: Math.round(t * 0.75),
-      text: "Three quarters done. You're pushing through the toughest part - incredible work.",
-    },
-    {
-      key: "m90",
-      elapsed: Math.round(t * 0.9),
-      text: "Ninety percent done. This final stretch is where your knee gains the most - finish strong.",
-    },
-  ];
+  const milestones: Milestone[] = [];
+  const taken = new Set<number>();
+  for (const spec of specs.map(normalizeMilestoneSpec)) {
+    const elapsed = spec.unit === "percent" ? Math.round((t * spec.value) / 100) : spec.value;
+    if (elapsed <= 0 || elapsed >= t || taken.has(elapsed)) continue;
+    taken.add(elapsed);
+    milestones.push({ key: milestoneKey(spec), elapsed, text: spec.text });
+  }
+  return milestones.sort((a, b) => a.elapsed - b.elapsed);
 }
 
-export function buildPrefetchLines(totalSeconds: number, activity: string, motivationBank?: string[]): PrefetchLine[] {
+// Interval announcements are short on purpose and spoken unpadded
+export const ROUND_REST_LINE = "Rest.";
+
+export function buildRoundLine(round: number, rounds: number) {
+  return `Round ${round} of ${rounds}.`;
+}
+
+// With rounds > 1 the session is an interval workout: round and rest
+// announcements replace the milestones. Otherwise the given milestone specs
+// (or the default 25/50/75/90%) are prefetched. Motivation lines follow the
+// coaching cadence (default: every 30 seconds).
+export function buildPrefetchLines(
+  totalSeconds: number,
+  activity: string,
+  motivationBank?: string[],
+  options: { rounds?: number; milestones?: MilestoneSpec[]; coaching?: CoachingCadence } = {},
+): PrefetchLine[] {
   const bank = motivationBank || MOTIVATION_BANK;
   const lines: PrefetchLine[] = [];
-  const milestones = computeMilestones(totalSeconds);
+  const rounds = options.rounds ?? 0;
+  const milestones = rounds > 1 ? [] : computeMilestones(totalSeconds, options.milestones);
   const milestoneSet = new Set(milestones.map((m) => m.elapsed));
 
   lines.push({ key: "start", text: buildStartLine() });
@@ -243,12 +315,18 @@ export function buildPrefetchLines(totalSeconds: number, activity: string, motiv
   for (const m of milestones) {
     lines.push({ key: m.key, text: m.text });
   }
+  if (rounds > 1) {
+    // Round 1 starts together with the start line
+    for (let round = 2; round <= rounds; round++) {
+      lines.push({ key: `r${round}`, text: buildRoundLine(round, rounds), raw: true });
+    }
+    lines.push({ key: "rest", text: ROUND_REST_LINE, raw: true });
+  }
 
-  for (let elapsed = 0; elapsed < totalSeconds; elapsed += 30) {
-    if (elapsed === 0 && totalSeconds % 30 !== 0) continue;
+  // Same times and bank lines the session engine will use
+  for (const { elapsed, slot } of coachingCueTimes(totalSeconds, options.coaching)) {
     if (milestoneSet.has(elapsed)) continue;
-    const idx = Math.floor(elapsed / 30);
-    const base = bank[idx % bank.length];
+    const base = bank[slot % bank.length];
     lines.push({ key: `t${elapsed}`, text: buildMotivationLine(base, activity) });
   }
 
@@ -1,7 +1,57 @@
-import { defineConfig } from "vite";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+function shortHash(content: string) {
+  return crypto.createHash("sha256").update(content).digest("hex").slice(0, 12);
+}
+
+// Emits /sw.js (from src/sw.js) with its precache list baked in: the page,
+// every file of the bundle (including backmusic) and one entry per static
+// audio set in public/audio. Each audio set is versioned by its manifest.json,
+// so regenerating one voice only re-downloads that voice.
+function serviceWorker(): Plugin {
+  return {
+    name: "knee-timer-service-worker",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const audioRoot = path.join(root, "public", "audio");
+      const shell = [
+        "/",
+        "/manifest.webmanifest",
+        "/icon.svg",
+        // Static set list for the voice picker (see src/staticAudio.ts)
+        ...(fs.existsSync(path.join(audioRoot, "index.json")) ? ["/audio/index.json"] : []),
+        ...Object.keys(bundle)
+          .filter((f) => !f.endsWith(".map"))
+          .map((f) => `/${f}`),
+      ];
+
+      const audio = fs.existsSync(audioRoot)
+        ? fs
+            .readdirSync(audioRoot)
+            .filter((dir) => fs.existsSync(path.join(audioRoot, dir, "manifest.json")))
+            .sort()
+            .map((dir) => ({ dir, version: shortHash(fs.readFileSync(path.join(audioRoot, dir, "manifest.json"), "utf8")) }))
+        : [];
+
+      const version = shortHash(JSON.stringify({ shell, audio }));
+      const source = fs.readFileSync(path.join(root, "src", "sw.js"), "utf8");
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: `const PRECACHE = ${JSON.stringify({ version, shell, audio })};\n\n${source}`,
+      });
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), serviceWorker()],
 });